@@ -6,13 +6,15 @@ import BN from 'bn.js';
 import { Buffer } from 'buffer/';
 import AvalancheCore from '../../avalanche';
 import BinTools from '../../utils/bintools';
+import { AddressCodec, Base58AddressCodec } from '../../utils/addresscodec';
 import { JRPCAPI, RequestResponseData, Defaults } from '../../utils/types';
 import { UTXOSet } from './utxos';
 import {
-  MergeRule, UnixNow, AVMConstants, InitialStates,
+  MergeRule, UnixNow, AVMConstants, InitialStates, Payment,
 } from './types';
 import { AVMKeyChain } from './keychain';
 import { Tx, UnsignedTx } from './tx';
+import { OutputOwners } from './outputs';
 
 /**
  * @ignore
@@ -85,6 +87,8 @@ class AVMAPI extends JRPCAPI {
 
   protected AVAAssetID:Buffer = undefined;
 
+  protected addressCodec:AddressCodec = new Base58AddressCodec();
+
   /**
      * Gets the alias for the blockchainID if it exists, otherwise returns `undefined`.
      *
@@ -125,20 +129,47 @@ class AVMAPI extends JRPCAPI {
     return false;
   };
 
+  /**
+     * Gets the [[AddressCodec]] used to convert addresses to and from strings.
+     */
+  getAddressCodec = ():AddressCodec => this.addressCodec;
+
+  /**
+     * Sets the [[AddressCodec]] used to convert addresses to and from strings, such as a [[Bech32AddressCodec]].
+     *
+     * @param codec The [[AddressCodec]] to use, a [[Base58AddressCodec]] by default
+     */
+  setAddressCodec = (codec:AddressCodec):void => {
+    this.addressCodec = codec;
+  };
+
+  /**
+     * Takes an address string and returns its {@link https://github.com/feross/buffer|Buffer} representation.
+     * Throws an error describing the problem, such as a bad checksum, a wrong chain id or a wrong length, if the address is not valid.
+     *
+     * @returns A {@link https://github.com/feross/buffer|Buffer} for the address
+     */
+  validateAddress = (addr:string):Buffer => this.addressCodec.decode(addr, [this.getBlockchainAlias(), this.getBlockchainID()], AVMConstants.ADDRESSLENGTH);
+
   /**
      * Takes an address string and returns its {@link https://github.com/feross/buffer|Buffer} representation if valid.
      *
-     * @returns A {@link https://github.com/feross/buffer|Buffer} for the address if valid, undefined if not valid.
+     * @returns A {@link https://github.com/feross/buffer|Buffer} for the address if valid, undefined if not valid. Use [[validateAddress]] to know why an address is not valid.
      */
   parseAddress = (addr:string):Buffer => {
-    const alias:string = this.getBlockchainAlias();
-    const blockchainID:string = this.getBlockchainID();
-    return bintools.parseAddress(addr, blockchainID, alias, AVMConstants.ADDRESSLENGTH);
+    try {
+      return this.validateAddress(addr);
+    } catch (e) {
+      return undefined;
+    }
   };
 
+  /**
+     * Takes an address {@link https://github.com/feross/buffer|Buffer} and returns its string representation, using the [[AddressCodec]] of the API.
+     */
   addressFromBuffer = (address:Buffer):string => {
     const chainid:string = this.getBlockchainAlias() ? this.getBlockchainAlias() : this.getBlockchainID();
-    return bintools.addressToString(chainid, address);
+    return this.addressCodec.encode(chainid, address);
   };
 
   /**
@@ -159,6 +190,18 @@ class AVMAPI extends JRPCAPI {
     return this.AVAAssetID;
   };
 
+  /**
+     * Sets the AVA AssetID, so that it is not fetched from the node. This allows transactions to be built offline.
+     *
+     * @param avaAssetID The AVA AssetID as a {@link https://github.com/feross/buffer|Buffer} or an AVA serialized string
+     */
+  setAVAAssetID = (avaAssetID:Buffer | string):void => {
+    if (typeof avaAssetID === 'string') {
+      avaAssetID = bintools.avaDeserialize(avaAssetID);
+    }
+    this.AVAAssetID = avaAssetID;
+  };
+
   /**
      * Gets a reference to the keychain for this class.
      *
@@ -546,6 +589,95 @@ class AVMAPI extends JRPCAPI {
     });
   };
 
+  /**
+     * Exports a [[UTXOSet]] to a portable JSON file, along with the networkID, blockchainID and AVA AssetID needed to
+     * build transactions on it offline with [[AVMAPI.importUTXOs]].
+     *
+     * @param utxoset The [[UTXOSet]] to export
+     *
+     * @returns Promise for a JSON string of the exported file.
+     *
+     * @remarks
+     * The AVA AssetID is fetched from the node if it has not been fetched or set yet. Addresses are formatted with the
+     * API's [[AddressCodec]].
+     */
+  exportUTXOs = async (utxoset:UTXOSet):Promise<string> => {
+    const avaAssetID:Buffer = await this.getAVAAssetID();
+    const chainid:string = this.getBlockchainAlias() ? this.getBlockchainAlias() : this.getBlockchainID();
+    return JSON.stringify({
+      version: AVMConstants.UTXOFILEVERSION,
+      networkID: this.core.getNetworkID(),
+      blockchainID: this.blockchainID,
+      avaAssetID: bintools.avaSerialize(avaAssetID),
+      utxos: utxoset.serialize(chainid, this.addressCodec),
+    });
+  };
+
+  /**
+     * Imports a [[UTXOSet]] from a file created by [[AVMAPI.exportUTXOs]] and sets the AVA AssetID from it, so that
+     * transactions can be built without a connection to a node.
+     *
+     * @param serialized A JSON string of the exported file
+     *
+     * @returns The imported [[UTXOSet]].
+     *
+     * @remarks
+     * Nothing is changed if the file is invalid. The networkID and blockchainID of the file must match those of this API, which may be set offline from the
+     * `Defaults.network` table when creating the [[Avalanche]] instance. Addresses are parsed with the API's [[AddressCodec]].
+     */
+  importUTXOs = (serialized:string):UTXOSet => {
+    const json:any = JSON.parse(serialized);
+    if (json.version !== AVMConstants.UTXOFILEVERSION) {
+      throw new Error(`Error - AVMAPI.importUTXOs: unsupported file version ${json.version}`);
+    }
+    if (json.networkID !== this.core.getNetworkID() || json.blockchainID !== this.blockchainID) {
+      throw new Error(`Error - AVMAPI.importUTXOs: file is for blockchainID ${json.blockchainID} on networkID ${json.networkID}`);
+    }
+    let avaAssetID:Buffer;
+    try {
+      avaAssetID = bintools.avaDeserialize(json.avaAssetID);
+    } catch (e) {
+      throw new Error(`Error - AVMAPI.importUTXOs: invalid avaAssetID ${json.avaAssetID}`);
+    }
+    if (avaAssetID.length !== AVMConstants.ASSETIDLEN) {
+      throw new Error(`Error - AVMAPI.importUTXOs: invalid avaAssetID ${json.avaAssetID}`);
+    }
+    // the asset ID is only set once the whole file has been parsed
+    const utxos:UTXOSet = new UTXOSet().fromJSON(json.utxos, this.addressCodec);
+    this.setAVAAssetID(avaAssetID);
+    return utxos;
+  };
+
+  /**
+     * Encrypts the keys of the API's [[AVMKeyChain]] with [[AVMKeyChain.exportEncrypted]] and stores them in the API's
+     * database namespace.
+     *
+     * @param name The name to store the keys under
+     * @param password The password protecting the keys
+     * @param overwrite Optional. Whether to replace keys already stored under the name, default false
+     */
+  saveKeyChain = (name:string, password:string, overwrite:boolean = false):void => {
+    if (this.db.has(name) && !overwrite) {
+      throw new Error(`Error - AVMAPI.saveKeyChain: a keychain is already stored as ${name}`);
+    }
+    this.db.set(name, this.keychain.exportEncrypted(password), true);
+  };
+
+  /**
+     * Decrypts keys stored with [[AVMAPI.saveKeyChain]] and adds them to the API's [[AVMKeyChain]].
+     *
+     * @param name The name the keys are stored under
+     * @param password The password protecting the keys
+     *
+     * @returns The addresses of the loaded keys
+     */
+  loadKeyChain = (name:string, password:string):Array<Buffer> => {
+    if (!this.db.has(name)) {
+      throw new Error(`Error - AVMAPI.loadKeyChain: no keychain is stored as ${name}`);
+    }
+    return this.keychain.importEncrypted(this.db.get(name), password);
+  };
+
   /**
      * Helper function which creates an unsigned transaction. For more granular control, you may create your own
      * [[UnsignedTx]] manually (with their corresponding [[TransferableInput]]s, [[TransferableOutput]]s, and [[TransferOperation]]s).
@@ -559,6 +691,9 @@ class AVMAPI extends JRPCAPI {
      * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
      * @param locktime Optional. The locktime field created in the resulting outputs
      * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} or utf8 string of arbitrary data attached to the transaction, max length 256
+     * @param feeAmount Optional. The amount of fees being paid for this transaction, default 0
+     * @param feeAssetID Optional. The assetID of the fees being paid, defaults to the AVA assetID
      *
      * @returns An unsigned transaction ([[UnsignedTx]]) which contains a [[BaseTx]].
      *
@@ -568,20 +703,157 @@ class AVMAPI extends JRPCAPI {
   buildBaseTx = async (
     utxoset:UTXOSet, amount:BN, toAddresses:Array<string>, fromAddresses:Array<string>,
     changeAddresses:Array<string>, assetID:Buffer | string = undefined, asOf:BN = UnixNow(),
-    locktime:BN = new BN(0), threshold:number = 1,
+    locktime:BN = new BN(0), threshold:number = 1, memo:Buffer | string = undefined,
+    feeAmount:BN = new BN(0), feeAssetID:Buffer | string = undefined,
   ):Promise<UnsignedTx> => {
-    const to:Array<Buffer> = this._cleanAddressArray(toAddresses, 'buildBaseTx').map((a) => bintools.stringToAddress(a));
-    const from:Array<Buffer> = this._cleanAddressArray(fromAddresses, 'buildBaseTx').map((a) => bintools.stringToAddress(a));
-    const change:Array<Buffer> = this._cleanAddressArray(changeAddresses, 'buildBaseTx').map((a) => bintools.stringToAddress(a));
+    const to:Array<Buffer> = this._cleanAddressArray(toAddresses, 'buildBaseTx').map((a) => this.validateAddress(a));
+    const from:Array<Buffer> = this._cleanAddressArray(fromAddresses, 'buildBaseTx').map((a) => this.validateAddress(a));
+    const change:Array<Buffer> = this._cleanAddressArray(changeAddresses, 'buildBaseTx').map((a) => this.validateAddress(a));
 
     if (typeof assetID === 'string') {
       assetID = bintools.avaDeserialize(assetID);
     }
+    if (typeof feeAssetID === 'string') {
+      feeAssetID = bintools.avaDeserialize(feeAssetID);
+    } else if (typeof feeAssetID === 'undefined' && feeAmount.gt(new BN(0))) {
+      feeAssetID = await this.getAVAAssetID();
+    }
 
     return utxoset.buildBaseTx(
       this.core.getNetworkID(), bintools.avaDeserialize(this.blockchainID),
       amount, to, from, change,
-      assetID, asOf, locktime, threshold,
+      assetID, asOf, locktime, threshold, AVMConstants.SECPOUTPUTID,
+      this._cleanMemo(memo, 'buildBaseTx'), feeAmount, feeAssetID,
+    );
+  };
+
+  /**
+     * Helper function which creates an unsigned transaction paying many recipients at once. For more granular control, you may create your own
+     * [[UnsignedTx]] manually (with their corresponding [[TransferableInput]]s and [[TransferableOutput]]s).
+     *
+     * @param utxoset A set of UTXOs that the transaction is built on
+     * @param payments An array of payments, each with an assetID, amount, toAddresses and optional locktime and threshold
+     * @param fromAddresses The addresses being used to send the funds from the UTXOs provided
+     * @param changeAddresses The addresses that can spend the change remaining from the spent UTXOs
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} or utf8 string of arbitrary data attached to the transaction, max length 256
+     * @param feeAmount Optional. The amount of fees being paid once for every payment, default 0
+     * @param feeAssetID Optional. The assetID of the fees being paid, defaults to the AVA AssetID
+     *
+     * @returns An unsigned transaction ([[UnsignedTx]]) which contains a [[BaseTx]].
+     */
+  buildBatchTx = async (
+    utxoset:UTXOSet,
+    payments:Array<{
+      assetID:Buffer | string, amount:BN, toAddresses:Array<string>, locktime?:BN, threshold?:number
+    }>,
+    fromAddresses:Array<string>, changeAddresses:Array<string>, asOf:BN = UnixNow(),
+    memo:Buffer | string = undefined, feeAmount:BN = new BN(0), feeAssetID:Buffer | string = undefined,
+  ):Promise<UnsignedTx> => {
+    const from:Array<Buffer> = this._cleanAddressArray(fromAddresses, 'buildBatchTx').map((a) => this.validateAddress(a));
+    const change:Array<Buffer> = this._cleanAddressArray(changeAddresses, 'buildBatchTx').map((a) => this.validateAddress(a));
+    const pays:Array<Payment> = payments.map((p) => ({
+      assetID: typeof p.assetID === 'string' ? bintools.avaDeserialize(p.assetID) : p.assetID,
+      amount: p.amount,
+      toAddresses: this._cleanAddressArray(p.toAddresses, 'buildBatchTx').map((a) => this.validateAddress(a)),
+      locktime: p.locktime,
+      threshold: p.threshold,
+    }));
+    if (typeof feeAssetID === 'string') {
+      feeAssetID = bintools.avaDeserialize(feeAssetID);
+    } else if (typeof feeAssetID === 'undefined' && feeAmount.gt(new BN(0))) {
+      feeAssetID = await this.getAVAAssetID();
+    }
+
+    return utxoset.buildBatchTx(
+      this.core.getNetworkID(), bintools.avaDeserialize(this.blockchainID),
+      pays, from, change, asOf, this._cleanMemo(memo, 'buildBatchTx'), undefined, feeAmount, feeAssetID,
+    );
+  };
+
+  /**
+     * Helper function which creates an unsigned transaction splitting a balance into many equal outputs.
+     *
+     * @param utxoset A set of UTXOs that the transaction is built on
+     * @param assetID The assetID of the value being split
+     * @param count The number of equal outputs to create
+     * @param amount The amount of each output, or the total to split when amountIsTotal is true
+     * @param toAddresses The addresses which own the resulting outputs
+     * @param fromAddresses The addresses being used to send the funds from the UTXOs provided
+     * @param changeAddresses The addresses that can spend the change remaining from the spent UTXOs
+     * @param amountIsTotal Optional. When true, amount is divided by count, any remainder is left as change. Default false
+     * @param feeAmount Optional. The amount of AVA fees being paid for this transaction, default 0
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param locktime Optional. The locktime field created in the resulting outputs
+     * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} or utf8 string of arbitrary data attached to the transaction, max length 256
+     *
+     * @returns An unsigned transaction ([[UnsignedTx]]) which contains a [[BaseTx]].
+     */
+  buildSplitTx = async (
+    utxoset:UTXOSet, assetID:Buffer | string, count:number, amount:BN, toAddresses:Array<string>,
+    fromAddresses:Array<string>, changeAddresses:Array<string>, amountIsTotal:boolean = false,
+    feeAmount:BN = new BN(0), asOf:BN = UnixNow(), locktime:BN = new BN(0), threshold:number = 1,
+    memo:Buffer | string = undefined,
+  ):Promise<UnsignedTx> => {
+    const to:Array<Buffer> = this._cleanAddressArray(toAddresses, 'buildSplitTx').map((a) => this.validateAddress(a));
+    const from:Array<Buffer> = this._cleanAddressArray(fromAddresses, 'buildSplitTx').map((a) => this.validateAddress(a));
+    const change:Array<Buffer> = this._cleanAddressArray(changeAddresses, 'buildSplitTx').map((a) => this.validateAddress(a));
+
+    if (typeof assetID === 'string') {
+      assetID = bintools.avaDeserialize(assetID);
+    }
+    let avaAssetID:Buffer;
+    if (feeAmount.gt(new BN(0))) {
+      avaAssetID = await this.getAVAAssetID();
+    }
+
+    return utxoset.buildSplitTx(
+      this.core.getNetworkID(), bintools.avaDeserialize(this.blockchainID),
+      assetID, count, amount, to, from, change, amountIsTotal, feeAmount, avaAssetID,
+      asOf, locktime, threshold, this._cleanMemo(memo, 'buildSplitTx'),
+    );
+  };
+
+  /**
+     * Helper function which creates an unsigned transaction merging many spendable UTXOs into a single output per asset.
+     *
+     * @param utxoset A set of UTXOs that the transaction is built on
+     * @param fromAddresses The addresses whose UTXOs are consolidated
+     * @param toAddresses The addresses which own the consolidated outputs
+     * @param assetIDs Optional. An array of assetIDs to consolidate, defaults to every asset held by fromAddresses
+     * @param maxInputs Optional. The maximum number of UTXOs spent, smallest first, a positive integer, defaults to no limit
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param locktime Optional. The locktime field created in the resulting outputs
+     * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} or utf8 string of arbitrary data attached to the transaction, max length 256
+     * @param feeAmount Optional. The amount of fees being paid for this transaction, deducted from the consolidated output of the fee asset, default 0
+     * @param feeAssetID Optional. The assetID of the fees being paid, defaults to the AVA AssetID
+     *
+     * @returns An unsigned transaction ([[UnsignedTx]]) which contains a [[BaseTx]].
+     */
+  buildConsolidationTx = async (
+    utxoset:UTXOSet, fromAddresses:Array<string>, toAddresses:Array<string>,
+    assetIDs:Array<Buffer | string> = undefined, maxInputs:number = undefined, asOf:BN = UnixNow(),
+    locktime:BN = new BN(0), threshold:number = 1, memo:Buffer | string = undefined,
+    feeAmount:BN = new BN(0), feeAssetID:Buffer | string = undefined,
+  ):Promise<UnsignedTx> => {
+    const from:Array<Buffer> = this._cleanAddressArray(fromAddresses, 'buildConsolidationTx').map((a) => this.validateAddress(a));
+    const to:Array<Buffer> = this._cleanAddressArray(toAddresses, 'buildConsolidationTx').map((a) => this.validateAddress(a));
+    let assets:Array<Buffer>;
+    if (typeof assetIDs !== 'undefined') {
+      assets = assetIDs.map((a) => (typeof a === 'string' ? bintools.avaDeserialize(a) : a));
+    }
+    if (typeof feeAssetID === 'string') {
+      feeAssetID = bintools.avaDeserialize(feeAssetID);
+    } else if (typeof feeAssetID === 'undefined' && feeAmount.gt(new BN(0))) {
+      feeAssetID = await this.getAVAAssetID();
+    }
+
+    return utxoset.buildConsolidationTx(
+      this.core.getNetworkID(), bintools.avaDeserialize(this.blockchainID),
+      from, to, assets, maxInputs, asOf, locktime, threshold,
+      this._cleanMemo(memo, 'buildConsolidationTx'), feeAmount, feeAssetID,
     );
   };
 
@@ -598,6 +870,7 @@ class AVMAPI extends JRPCAPI {
      * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
      * @param locktime Optional. The locktime field created in the resulting outputs
      * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} or utf8 string of arbitrary data attached to the transaction, max length 256
      *
      * @returns An unsigned transaction ([[UnsignedTx]]) which contains a [NFTTransferTx]].
      *
@@ -607,10 +880,11 @@ class AVMAPI extends JRPCAPI {
   buildNFTTransferTx = async (
     utxoset:UTXOSet, utxoid:string | Array<string>, toAddresses:Array<string>, fromAddresses:Array<string>, feeAmount:BN,
     feeAddresses:Array<string>, asOf:BN = UnixNow(), locktime:BN = new BN(0), threshold:number = 1,
+    memo:Buffer | string = undefined,
   ):Promise<UnsignedTx> => {
-    const to:Array<Buffer> = this._cleanAddressArray(toAddresses, 'buildNFTTransferTx').map((a) => bintools.stringToAddress(a));
-    const from:Array<Buffer> = this._cleanAddressArray(fromAddresses, 'buildNFTTransferTx').map((a) => bintools.stringToAddress(a));
-    const feeAddrs:Array<Buffer> = this._cleanAddressArray(feeAddresses, 'buildNFTTransferTx').map((a) => bintools.stringToAddress(a));
+    const to:Array<Buffer> = this._cleanAddressArray(toAddresses, 'buildNFTTransferTx').map((a) => this.validateAddress(a));
+    const from:Array<Buffer> = this._cleanAddressArray(fromAddresses, 'buildNFTTransferTx').map((a) => this.validateAddress(a));
+    const feeAddrs:Array<Buffer> = this._cleanAddressArray(feeAddresses, 'buildNFTTransferTx').map((a) => this.validateAddress(a));
 
     const avaAssetID:Buffer = await this.getAVAAssetID();
     let utxoidArray:Array<string> = [];
@@ -623,6 +897,94 @@ class AVMAPI extends JRPCAPI {
     return utxoset.buildNFTTransferTx(
       this.core.getNetworkID(), bintools.avaDeserialize(this.blockchainID), avaAssetID,
       feeAmount, feeAddrs, to, from, utxoidArray, asOf, locktime, threshold,
+      this._cleanMemo(memo, 'buildNFTTransferTx'),
+    );
+  };
+
+  /**
+     * Helper function which creates an unsigned transaction minting more of a variable-cap asset. For more granular control, you may create your own
+     * [[UnsignedTx]] manually (with their corresponding [[TransferableInput]]s, [[TransferableOutput]]s, and [[TransferOperation]]s).
+     *
+     * @param utxoset A set of UTXOs that the transaction is built on
+     * @param assetID The assetID of the variable-cap asset being minted
+     * @param amount The amount of the asset to mint
+     * @param toAddresses The addresses to receive the minted tokens
+     * @param minterAddresses The addresses which own the minting rights of the asset
+     * @param feeAmount The amount of fees being paid for this transaction
+     * @param feeAddresses The addresses that have the AVA funds to pay for fees of the UTXO
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param locktime Optional. The locktime field created in the resulting outputs
+     * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} or utf8 string of arbitrary data attached to the transaction, max length 256
+     *
+     * @returns An unsigned transaction ([[UnsignedTx]]) which contains an [[OperationTx]].
+     *
+     * @remarks
+     * Unlike [[createMintTx]] and [[signMintTx]], this does not require the minters' keys to be stored in the node's keystore.
+     */
+  buildSecpMintTx = async (
+    utxoset:UTXOSet, assetID:Buffer | string, amount:BN, toAddresses:Array<string>, minterAddresses:Array<string>,
+    feeAmount:BN, feeAddresses:Array<string>, asOf:BN = UnixNow(), locktime:BN = new BN(0), threshold:number = 1,
+    memo:Buffer | string = undefined,
+  ):Promise<UnsignedTx> => {
+    const to:Array<Buffer> = this._cleanAddressArray(toAddresses, 'buildSecpMintTx').map((a) => this.validateAddress(a));
+    const minters:Array<Buffer> = this._cleanAddressArray(minterAddresses, 'buildSecpMintTx').map((a) => this.validateAddress(a));
+    const feeAddrs:Array<Buffer> = this._cleanAddressArray(feeAddresses, 'buildSecpMintTx').map((a) => this.validateAddress(a));
+
+    if (typeof assetID === 'string') {
+      assetID = bintools.avaDeserialize(assetID);
+    }
+
+    const avaAssetID:Buffer = await this.getAVAAssetID();
+    return utxoset.buildSecpMintTx(
+      this.core.getNetworkID(), bintools.avaDeserialize(this.blockchainID), avaAssetID,
+      feeAmount, feeAddrs, assetID, amount, to, minters, asOf, locktime, threshold,
+      this._cleanMemo(memo, 'buildSecpMintTx'),
+    );
+  };
+
+  /**
+     * Helper function which creates an unsigned transaction minting NFTs of a group. For more granular control, you may create your own
+     * [[UnsignedTx]] manually (with their corresponding [[TransferableInput]]s, [[TransferableOutput]]s, and [[TransferOperation]]s).
+     *
+     * @param utxoset A set of UTXOs that the transaction is built on
+     * @param assetID The assetID of the NFT family being minted
+     * @param groupID The number of the NFT group being minted
+     * @param payload A {@link https://github.com/feross/buffer|Buffer} of max length 1024 carried by each minted NFT
+     * @param toAddresses The addresses to own the minted NFT
+     * @param minterAddresses The addresses which own the minting rights of the group
+     * @param feeAmount The amount of fees being paid for this transaction
+     * @param feeAddresses The addresses that have the AVA funds to pay for fees of the UTXO
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param locktime Optional. The locktime field created in the resulting outputs
+     * @param threshold Optional. The number of signatures required to spend the resultant NFT
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} or utf8 string of arbitrary data attached to the transaction, max length 256
+     *
+     * @returns An unsigned transaction ([[UnsignedTx]]) which contains an [[OperationTx]].
+     */
+  buildNFTMintTx = async (
+    utxoset:UTXOSet, assetID:Buffer | string, groupID:number, payload:Buffer, toAddresses:Array<string>, minterAddresses:Array<string>,
+    feeAmount:BN, feeAddresses:Array<string>, asOf:BN = UnixNow(), locktime:BN = new BN(0), threshold:number = 1,
+    memo:Buffer | string = undefined,
+  ):Promise<UnsignedTx> => {
+    const to:Array<Buffer> = this._cleanAddressArray(toAddresses, 'buildNFTMintTx').map((a) => this.validateAddress(a));
+    const minters:Array<Buffer> = this._cleanAddressArray(minterAddresses, 'buildNFTMintTx').map((a) => this.validateAddress(a));
+    const feeAddrs:Array<Buffer> = this._cleanAddressArray(feeAddresses, 'buildNFTMintTx').map((a) => this.validateAddress(a));
+
+    if (typeof assetID === 'string') {
+      assetID = bintools.avaDeserialize(assetID);
+    }
+    if (payload.length > AVMConstants.NFTPAYLOADMAXLEN) {
+      /* istanbul ignore next */
+      throw new Error(`Error - AVMAPI.buildNFTMintTx: Payloads may not exceed length of ${AVMConstants.NFTPAYLOADMAXLEN}`);
+    }
+
+    const owners:Array<OutputOwners> = [new OutputOwners(locktime, threshold, to)];
+    const avaAssetID:Buffer = await this.getAVAAssetID();
+    return utxoset.buildNFTMintTx(
+      this.core.getNetworkID(), bintools.avaDeserialize(this.blockchainID), avaAssetID,
+      feeAmount, feeAddrs, assetID, groupID, payload, owners, minters, asOf,
+      this._cleanMemo(memo, 'buildNFTMintTx'),
     );
   };
 
@@ -637,6 +999,8 @@ class AVMAPI extends JRPCAPI {
      * @param name String for the descriptive name of the asset
      * @param symbol String for the ticker symbol of the asset
      * @param denomination Optional number for the denomination which is 10^D. D must be >= 0 and <= 32. Ex: $1 AVA = 10^9 $nAVA
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} or utf8 string of arbitrary data attached to the transaction, max length 256
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
      *
      * @returns An unsigned transaction ([[UnsignedTx]]) which contains a [[CreateAssetTx]].
      *
@@ -644,9 +1008,10 @@ class AVMAPI extends JRPCAPI {
   buildCreateAssetTx = async (
     utxoset:UTXOSet, fee:BN, creatorAddresses:Array<string> | Array<Buffer>,
     initialStates:InitialStates, name:string,
-    symbol:string, denomination:number,
+    symbol:string, denomination:number, memo:Buffer | string = undefined,
+    asOf:BN = UnixNow(),
   ):Promise<UnsignedTx> => {
-    const creators:Array<Buffer> = this._cleanAddressArray(creatorAddresses, 'buildCreateAssetTx').map((a) => bintools.stringToAddress(a));
+    const creators:Array<Buffer> = this._cleanAddressArray(creatorAddresses, 'buildCreateAssetTx').map((a) => this.validateAddress(a));
     /* istanbul ignore next */
     if (symbol.length > AVMConstants.SYMBOLMAXLEN) {
       /* istanbul ignore next */
@@ -661,6 +1026,7 @@ class AVMAPI extends JRPCAPI {
     return utxoset.buildCreateAssetTx(
       this.core.getNetworkID(), bintools.avaDeserialize(this.blockchainID), avaAssetID,
       fee, creators, initialStates, name, symbol, denomination,
+      this._cleanMemo(memo, 'buildCreateAssetTx'), undefined, asOf,
     );
   };
 
@@ -767,23 +1133,38 @@ class AVMAPI extends JRPCAPI {
      */
   protected _cleanAddressArray(addresses:Array<string> | Array<Buffer>, caller:string):Array<string> {
     const addrs:Array<string> = [];
-    const chainid:string = this.getBlockchainAlias() ? this.getBlockchainAlias() : this.getBlockchainID();
     if (addresses && addresses.length > 0) {
       for (let i = 0; i < addresses.length; i++) {
         if (typeof addresses[i] === 'string') {
-          if (typeof this.parseAddress(addresses[i] as string) === 'undefined') {
-            /* istanbul ignore next */
-            throw new Error(`Error - AVMAPI.${caller}: Invalid address format ${addresses[i]}`);
+          try {
+            this.validateAddress(addresses[i] as string);
+          } catch (e) {
+            throw new Error(`Error - AVMAPI.${caller}: Invalid address format ${addresses[i]} - ${e.message}`);
           }
           addrs.push(addresses[i] as string);
         } else {
-          addrs.push(bintools.addressToString(chainid, addresses[i] as Buffer));
+          addrs.push(this.addressFromBuffer(addresses[i] as Buffer));
         }
       }
     }
     return addrs;
   }
 
+  /**
+     * @ignore
+     */
+  protected _cleanMemo(memo:Buffer | string, caller:string):Buffer {
+    if (typeof memo === 'undefined') {
+      return undefined;
+    }
+    const memobuff:Buffer = typeof memo === 'string' ? Buffer.from(memo, 'utf8') : memo;
+    if (memobuff.length > AVMConstants.MEMOMAXLEN) {
+      /* istanbul ignore next */
+      throw new Error(`Error - AVMAPI.${caller}: Memos may not exceed length of ${AVMConstants.MEMOMAXLEN}`);
+    }
+    return memobuff;
+  }
+
   /**
      * This class should not be instantiated directly. Instead use the [[Avalanche.addAPI]] method.
      *
@@ -36,6 +36,11 @@ export abstract class Credential {
 
   abstract getCredentialID():number;
 
+  /**
+     * Returns the array of [[Signature]]s held by the credential.
+     */
+  getSignatures = ():Array<Signature> => this.sigArray;
+
   /**
      * Adds a signature to the credentials and returns the index off the added signature.
      */
@@ -69,6 +74,28 @@ export abstract class Credential {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns a JSON representation of the [[Credential]], with the signatures in AVA serialization format.
+     */
+  toJSON():any {
+    return {
+      credentialID: this.getCredentialID(),
+      signatures: this.sigArray.map((sig) => bintools.avaSerialize(sig.toBuffer())),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[Credential]] as returned by [[Credential.toJSON]].
+     */
+  fromJSON(json:any):this {
+    this.sigArray = json.signatures.map((s:string) => {
+      const sig:Signature = new Signature();
+      sig.fromBuffer(bintools.avaDeserialize(s));
+      return sig;
+    });
+    return this;
+  }
+
   constructor(sigarray:Array<Signature> = undefined) {
     if (typeof sigarray !== 'undefined') {
       /* istanbul ignore next */
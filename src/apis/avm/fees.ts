@@ -0,0 +1,55 @@
+/**
+ * @packageDocumentation
+ * @module AVMAPI-Fees
+ */
+import BN from 'bn.js';
+import { UnsignedTx } from './tx';
+
+/**
+ * Class for computing the fee of a transaction from its signed size, as a flat fee plus a rate per byte.
+ *
+ * @remarks
+ * A [[FeePolicy]] may be passed to the [[UTXOSet]] builders in place of a fee amount.
+ */
+export class FeePolicy {
+  protected baseFee:BN;
+
+  protected feePerByte:BN;
+
+  /**
+     * Returns the flat fee of the policy as a {@link https://github.com/indutny/bn.js/|BN}
+     */
+  getBaseFee = ():BN => this.baseFee.clone();
+
+  /**
+     * Returns the fee per byte of the policy as a {@link https://github.com/indutny/bn.js/|BN}
+     */
+  getFeePerByte = ():BN => this.feePerByte.clone();
+
+  /**
+     * Returns the fee for a signed transaction of the given size.
+     *
+     * @param size The size of the signed transaction in bytes
+     */
+  getFee = (size:number):BN => this.baseFee.add(this.feePerByte.muln(size));
+
+  /**
+     * Returns the fee for an [[UnsignedTx]] once it is signed.
+     *
+     * @param utx The [[UnsignedTx]] to price
+     */
+  calculateFee = (utx:UnsignedTx):BN => this.getFee(utx.getSignedSize());
+
+  /**
+     * Class representing a fee policy.
+     *
+     * @param baseFee Optional. The flat fee paid by every transaction, default 0
+     * @param feePerByte Optional. The fee paid per byte of the signed transaction, default 0
+     */
+  constructor(baseFee:BN = new BN(0), feePerByte:BN = new BN(0)) {
+    this.baseFee = baseFee.clone();
+    this.feePerByte = feePerByte.clone();
+  }
+}
+
+export default FeePolicy;
@@ -0,0 +1,123 @@
+/**
+ * @packageDocumentation
+ * @module AVMAPI-HDKeyChain
+ */
+import { Buffer } from 'buffer/';
+import HDNode from '../../utils/hdnode';
+import Mnemonic from '../../utils/mnemonic';
+import { AVMKeyPair, AVMKeyChain } from './keychain';
+
+/**
+ * @ignore
+ */
+const mnemonic = Mnemonic.getInstance();
+
+/**
+ * Class for a key chain whose keys are derived from a single BIP39 mnemonic or seed, along a BIP44 path.
+ *
+ * ```js
+ * const phrase = Mnemonic.getInstance().generateMnemonic();
+ * const keychain = new HDKeyChain("X", phrase);
+ * const addr = keychain.makeKey(); // m/44'/9000'/0'/0/0
+ * ```
+ *
+ * @remarks
+ * Keys are derived in order, so restoring a key chain from its phrase only requires knowing how many keys were used.
+ * Keys imported with [[AVMKeyChain.importKey]] are held alongside the derived keys but cannot be restored from the phrase.
+ */
+export class HDKeyChain extends AVMKeyChain {
+  protected basePath:string;
+
+  protected node:HDNode;
+
+  protected nextIndex:number = 0;
+
+  /**
+     * Returns the derivation path that key indices are appended to.
+     */
+  getBasePath = ():string => this.basePath;
+
+  /**
+     * Returns the lowest index that has not been derived into the key chain.
+     */
+  getNextIndex = ():number => this.nextIndex;
+
+  /**
+     * Derives the key pair at an index without adding it to the key chain.
+     *
+     * @param index The index of the key, appended to the base path
+     *
+     * @returns The [[AVMKeyPair]] at the index
+     */
+  deriveKeyPair = (index:number):AVMKeyPair => {
+    if (!Number.isInteger(index) || index < 0 || index >= HDNode.HARDENED) {
+      throw new Error(`Error - HDKeyChain.deriveKeyPair: invalid index ${index}`);
+    }
+    const keypair:AVMKeyPair = new AVMKeyPair(this.chainid);
+    keypair.importKey(this.node.deriveChild(index).getPrivateKey());
+    return keypair;
+  };
+
+  /**
+     * Derives the key pair at an index and adds it to the key chain.
+     *
+     * @param index The index of the key, appended to the base path
+     *
+     * @returns Address of the derived key pair
+     */
+  deriveKey = (index:number):Buffer => {
+    const keypair:AVMKeyPair = this.deriveKeyPair(index);
+    this.addKey(keypair);
+    if (index >= this.nextIndex) {
+      this.nextIndex = index + 1;
+    }
+    return keypair.getAddress();
+  };
+
+  /**
+     * Derives the keys at indices 0 to count - 1, restoring a key chain which has used that many keys.
+     *
+     * @param count The number of keys to derive
+     *
+     * @returns The addresses of the derived key pairs, in index order
+     */
+  deriveKeys = (count:number):Array<Buffer> => {
+    const addrs:Array<Buffer> = [];
+    for (let i:number = 0; i < count; i++) {
+      addrs.push(this.deriveKey(i));
+    }
+    return addrs;
+  };
+
+  /**
+     * Derives the key pair at the next unused index, adds it to the key chain, and returns the address.
+     *
+     * @returns Address of the new key pair
+     */
+  makeKey = ():Buffer => this.deriveKey(this.nextIndex);
+
+  /**
+     * Returns a new HDKeyChain. No keys are derived until [[makeKey]], [[deriveKey]] or [[deriveKeys]] is called.
+     *
+     * @param chainid The alias or blockchainID used in address strings
+     * @param seed A BIP39 mnemonic phrase, or a {@link https://github.com/feross/buffer|Buffer} holding a seed
+     * @param passphrase Optional. The BIP39 passphrase of the mnemonic, ignored when a seed is given, default ""
+     * @param basePath Optional. The derivation path key indices are appended to, default "m/44'/9000'/0'/0"
+     */
+  constructor(chainid:string, seed:string | Buffer, passphrase:string = '', basePath:string = "m/44'/9000'/0'/0") {
+    super(chainid);
+    let seedbuff:Buffer;
+    if (typeof seed === 'string') {
+      if (!mnemonic.validateMnemonic(seed)) {
+        throw new Error('Error - HDKeyChain.constructor: invalid mnemonic');
+      }
+      seedbuff = mnemonic.mnemonicToSeed(seed, passphrase);
+    } else {
+      seedbuff = seed;
+    }
+    this.basePath = basePath;
+    this.node = HDNode.fromSeed(seedbuff).derivePath(basePath);
+  }
+}
+
+export default HDKeyChain;
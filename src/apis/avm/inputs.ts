@@ -85,6 +85,33 @@ export abstract class Input {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns a JSON representation of the [[Input]], including its inputID and the indices of its signers.
+     */
+  toJSON():any {
+    return {
+      inputID: this.getInputID(),
+      sigIdxs: this.sigIdxs.map((sigidx) => sigidx.toBuffer().readUInt32BE(0)),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[Input]] as returned by [[Input.toJSON]].
+     */
+  fromJSON(json:any):this {
+    this.sigIdxs = [];
+    for (let i = 0; i < json.sigIdxs.length; i++) {
+      const sigidx:SigIdx = new SigIdx();
+      const b:Buffer = Buffer.alloc(4);
+      b.writeUInt32BE(json.sigIdxs[i], 0);
+      sigidx.fromBuffer(b);
+      this.sigIdxs.push(sigidx);
+    }
+    this.sigCount = Buffer.alloc(4);
+    this.sigCount.writeUInt32BE(this.sigIdxs.length, 0);
+    return this;
+  }
+
   /**
      * Returns a base-58 representation of the [[Input]].
      */
@@ -189,6 +216,30 @@ export class TransferableInput {
     return buff;
   }
 
+  /**
+     * Returns a JSON representation of the [[TransferableInput]].
+     */
+  toJSON():any {
+    return {
+      txID: bintools.avaSerialize(this.txid),
+      outputIndex: this.outputidx.readUInt32BE(0),
+      assetID: bintools.avaSerialize(this.assetid),
+      input: this.input.toJSON(),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[TransferableInput]] as returned by [[TransferableInput.toJSON]].
+     */
+  fromJSON(json:any):this {
+    this.txid = bintools.avaDeserialize(json.txID);
+    this.outputidx = Buffer.alloc(4);
+    this.outputidx.writeUInt32BE(json.outputIndex, 0);
+    this.assetid = bintools.avaDeserialize(json.assetID);
+    this.input = SelectInputClass(json.input.inputID).fromJSON(json.input);
+    return this;
+  }
+
   /**
      * Returns a base-58 representation of the [[TransferableInput]].
      */
@@ -248,6 +299,22 @@ export abstract class AmountInput extends Input {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns a JSON representation of the [[AmountInput]], with the amount as a decimal string.
+     */
+  toJSON():any {
+    return { ...super.toJSON(), amount: this.amountValue.toString(10) };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[AmountInput]] as returned by [[AmountInput.toJSON]].
+     */
+  fromJSON(json:any):this {
+    this.amountValue = new BN(json.amount, 10);
+    this.amount = bintools.fromBNToBuffer(this.amountValue, 8);
+    return super.fromJSON(json);
+  }
+
   /**
      * An [[AmountInput]] class which issues a payment on an assetID.
      *
@@ -5,8 +5,12 @@
 import { Buffer } from 'buffer/';
 import * as elliptic from 'elliptic';
 import createHash from 'create-hash';
+import crypto from 'webcrypto';
 import BinTools from '../../utils/bintools';
+import { AddressCodec, Base58AddressCodec } from '../../utils/addresscodec';
 import { Tx, UnsignedTx } from './tx';
+import { AVMConstants } from './types';
+import { Signer } from './signer';
 import { KeyPair, KeyChain } from '../../utils/types';
 
 /**
@@ -29,11 +33,21 @@ const ecparams = ec.curve;
  */
 const BN = ecparams.n.constructor;
 
+/**
+ * @ignore
+ */
+const halfOrder = ecparams.n.ushrn(1);
+
 /**
  * @ignore
  */
 const bintools = BinTools.getInstance();
 
+/**
+ * @ignore
+ */
+const messagePrefix:Buffer = Buffer.from('\x1AAvalanche Signed Message:\n', 'utf8');
+
 /**
  * Class for representing a private and public keypair in the AVM.
  */
@@ -42,6 +56,8 @@ export class AVMKeyPair extends KeyPair {
 
   protected entropy:Buffer;
 
+  protected strict:boolean = true;
+
   /**
      * @ignore
      */
@@ -57,6 +73,17 @@ export class AVMKeyPair extends KeyPair {
     return sigOpt;
   };
 
+  /**
+     * @ignore
+     */
+  protected _isWellFormed = (sig:Buffer):boolean => {
+    if (sig.length !== 65) {
+      return false;
+    }
+    const sigObj:elliptic.ec.SignatureOptions = this._sigFromSigBuffer(sig);
+    return !sigObj.r.isZero() && sigObj.r.lt(ecparams.n) && !sigObj.s.isZero() && sigObj.s.lt(ecparams.n) && sigObj.recoveryParam <= 3;
+  };
+
   /**
      * Generates a new keypair.
      *
@@ -96,11 +123,13 @@ export class AVMKeyPair extends KeyPair {
   /**
      * Returns the address's string representation.
      *
+     * @param codec Optional. The [[AddressCodec]] producing the string, such as [[AVMAPI.getAddressCodec]], default "chainid-base58check"
+     *
      * @returns A string representation of the address
      */
-  getAddressString = ():string => {
+  getAddressString = (codec:AddressCodec = undefined):string => {
     const addr:Buffer = this.addressFromPublicKey(this.pubk);
-    return bintools.addressToString(this.chainid, addr);
+    return (codec || new Base58AddressCodec()).encode(this.chainid, addr);
   };
 
   /**
@@ -144,6 +173,10 @@ export class AVMKeyPair extends KeyPair {
      * @param msg The message to sign, be sure to hash first if expected
      *
      * @returns A {@link https://github.com/feross/buffer|Buffer} containing the signature
+     *
+     * @remarks
+     * The nonce is derived from the private key and the message as per RFC6979, so signing the same message with the
+     * same key always produces the same signature. Signatures are normalized with [[normalizeSignature]].
      */
   sign = (msg:Buffer):Buffer => {
     const sigObj = this.keypair.sign(msg, undefined, { canonical: true });
@@ -152,7 +185,59 @@ export class AVMKeyPair extends KeyPair {
     const r:Buffer = Buffer.from(sigObj.r.toArray('be', 32)); // we have to skip native Buffer class, so this is the way
     const s:Buffer = Buffer.from(sigObj.s.toArray('be', 32)); // we have to skip native Buffer class, so this is the way
     const result:Buffer = Buffer.concat([r, s, recovery], 65);
-    return result;
+    return this.normalizeSignature(result);
+  };
+
+  /**
+     * Returns true if a signature is canonical: 65 bytes, with r and s in range, s in the lower half of the curve
+     * order, and a recovery id of 0 or 1.
+     *
+     * @param sig The signature to check
+     */
+  isCanonicalSignature = (sig:Buffer):boolean => {
+    if (!this._isWellFormed(sig)) {
+      return false;
+    }
+    const sigObj:elliptic.ec.SignatureOptions = this._sigFromSigBuffer(sig);
+    return sigObj.s.lte(halfOrder) && sigObj.recoveryParam <= 1;
+  };
+
+  /**
+     * Returns the low-S form of a signature. A signature with a high s is replaced by the equivalent signature using
+     * n - s, with the recovery id flipped so that it still recovers the same public key.
+     *
+     * @param sig The signature to normalize
+     *
+     * @returns A {@link https://github.com/feross/buffer|Buffer} containing the normalized signature
+     */
+  normalizeSignature = (sig:Buffer):Buffer => {
+    if (!this._isWellFormed(sig)) {
+      throw new Error('Error - AVMKeyPair.normalizeSignature: malformed signature');
+    }
+    const sigObj:elliptic.ec.SignatureOptions = this._sigFromSigBuffer(sig);
+    if (sigObj.s.lte(halfOrder)) {
+      return bintools.copyFrom(sig);
+    }
+    const s:Buffer = Buffer.from(ecparams.n.sub(sigObj.s).toArray('be', 32));
+    const recovery:Buffer = Buffer.alloc(1);
+    recovery.writeUInt8(sigObj.recoveryParam % 2 === 0 ? sigObj.recoveryParam + 1 : sigObj.recoveryParam - 1, 0);
+    return Buffer.concat([bintools.copyFrom(sig, 0, 32), s, recovery], 65);
+  };
+
+  /**
+     * Returns true if [[verify]] and [[recover]] only accept canonical signatures, which is the default.
+     */
+  isStrict = ():boolean => this.strict;
+
+  /**
+     * Sets whether [[verify]] and [[recover]] only accept canonical signatures.
+     *
+     * @param strict If true, [[verify]] rejects signatures which are not canonical or whose recovery id does not
+     * recover this keypair's public key, and [[recover]] throws on signatures which are not canonical. If false, any
+     * well-formed signature is accepted.
+     */
+  setStrict = (strict:boolean):void => {
+    this.strict = strict;
   };
 
   /**
@@ -164,8 +249,14 @@ export class AVMKeyPair extends KeyPair {
      * @returns True on success, false on failure
      */
   verify = (msg:Buffer, sig:Buffer):boolean => {
+    if (!this._isWellFormed(sig) || (this.strict && !this.isCanonicalSignature(sig))) {
+      return false;
+    }
     const sigObj:elliptic.ec.SignatureOptions = this._sigFromSigBuffer(sig);
-    return ec.verify(msg, sigObj, this.keypair);
+    if (!ec.verify(msg, sigObj, this.keypair)) {
+      return false;
+    }
+    return !this.strict || this.recover(msg, sig).toString('hex') === this.pubk.toString('hex');
   };
 
   /**
@@ -177,11 +268,95 @@ export class AVMKeyPair extends KeyPair {
      * @returns A {@link https://github.com/feross/buffer|Buffer} containing the public key of the signer
      */
   recover = (msg:Buffer, sig:Buffer):Buffer => {
+    if (!this._isWellFormed(sig)) {
+      throw new Error('Error - AVMKeyPair.recover: malformed signature');
+    }
+    if (this.strict && !this.isCanonicalSignature(sig)) {
+      throw new Error('Error - AVMKeyPair.recover: signature is not canonical');
+    }
     const sigObj:elliptic.ec.SignatureOptions = this._sigFromSigBuffer(sig);
     const pubk = ec.recoverPubKey(msg, sigObj, sigObj.recoveryParam);
     return Buffer.from(pubk.encodeCompressed());
   };
 
+  /**
+     * Signs an off-chain message, proving control of the keypair's address without a transaction.
+     *
+     * @param message A {@link https://github.com/feross/buffer|Buffer} or utf8 string holding the message
+     *
+     * @returns The AVA serialized signature of the message's [[AVMKeyPair.digestMessage]] digest
+     */
+  signMessage = (message:Buffer | string):string => bintools.avaSerialize(this.sign(AVMKeyPair.digestMessage(message)));
+
+  /**
+     * Checks that a message was signed with [[signMessage]] by this keypair.
+     *
+     * @param message A {@link https://github.com/feross/buffer|Buffer} or utf8 string holding the message
+     * @param signature The AVA serialized signature
+     *
+     * @returns True if the signature is valid and recovers to this keypair's address
+     */
+  verifyMessage = (message:Buffer | string, signature:string):boolean => {
+    let sig:Buffer;
+    try {
+      sig = bintools.avaDeserialize(signature);
+    } catch (e) {
+      return false;
+    }
+    return this.verify(AVMKeyPair.digestMessage(message), sig);
+  };
+
+  /**
+     * Returns the digest signed by [[signMessage]]: the SHA256 of "\x1AAvalanche Signed Message:\n", the message
+     * length as a 4-byte big-endian integer, and the message.
+     *
+     * @param message A {@link https://github.com/feross/buffer|Buffer} or utf8 string holding the message
+     *
+     * @remarks
+     * The prefix keeps signed messages from ever being valid transaction signatures. The digest may also be passed to
+     * a [[Signer]] to sign messages with an external signer.
+     */
+  static digestMessage(message:Buffer | string):Buffer {
+    const msgbuff:Buffer = typeof message === 'string' ? Buffer.from(message, 'utf8') : message;
+    const size:Buffer = Buffer.alloc(4);
+    size.writeUInt32BE(msgbuff.length, 0);
+    return Buffer.from(createHash('sha256').update(Buffer.concat([messagePrefix, size, msgbuff])).digest());
+  }
+
+  /**
+     * Recovers the address which signed a message with [[signMessage]]. No private key or node connection is needed.
+     *
+     * @param message A {@link https://github.com/feross/buffer|Buffer} or utf8 string holding the message
+     * @param signature The AVA serialized signature
+     *
+     * @returns A {@link https://github.com/feross/buffer|Buffer} for the address of the signer
+     */
+  static recoverMessageAddress(message:Buffer | string, signature:string):Buffer {
+    const keypair:AVMKeyPair = new AVMKeyPair('');
+    const pubk:Buffer = keypair.recover(AVMKeyPair.digestMessage(message), bintools.avaDeserialize(signature));
+    return keypair.addressFromPublicKey(pubk);
+  }
+
+  /**
+     * Checks that a message was signed with [[signMessage]] by the key of an address.
+     *
+     * @param address The address as a {@link https://github.com/feross/buffer|Buffer} or a string such as "X-..."
+     * @param message A {@link https://github.com/feross/buffer|Buffer} or utf8 string holding the message
+     * @param signature The AVA serialized signature
+     * @param codec Optional. The [[AddressCodec]] a string address is encoded with, default base58. Any chain prefix is accepted.
+     *
+     * @returns True if the signature is valid and recovers to the address
+     */
+  static verifyMessageAddress(address:Buffer | string, message:Buffer | string, signature:string, codec:AddressCodec = undefined):boolean {
+    try {
+      const addr:Buffer = typeof address === 'string'
+        ? (codec || new Base58AddressCodec()).decode(address, undefined, AVMConstants.ADDRESSLENGTH) : address;
+      return AVMKeyPair.recoverMessageAddress(message, signature).toString('hex') === addr.toString('hex');
+    } catch (e) {
+      return false;
+    }
+  }
+
   /**
      * Class for representing a private and public keypair in Avalanche.
      */
@@ -197,7 +372,7 @@ export class AVMKeyPair extends KeyPair {
  *
  * @typeparam AVMKeyPair Class extending [[KeyPair]] which is used as the key in [[AVMKeyChain]]
  */
-export class AVMKeyChain extends KeyChain<AVMKeyPair> {
+export class AVMKeyChain extends KeyChain<AVMKeyPair> implements Signer {
   /**
      * Makes a new key pair, returns the address.
      *
@@ -233,6 +408,112 @@ export class AVMKeyChain extends KeyChain<AVMKeyPair> {
     return keypair.getAddress();
   };
 
+  /**
+     * Encrypts every private key in the key chain with a password, for storage in a file or with [[AVMAPI.saveKeyChain]].
+     *
+     * @param password The password protecting the keys
+     * @param iterations Optional. The number of PBKDF2 iterations used to derive the encryption key, default 100000, at most 10000000
+     *
+     * @returns A JSON string holding the encrypted keys and the parameters needed to decrypt them
+     *
+     * @remarks
+     * The encryption key is derived with PBKDF2-HMAC-SHA512 from the password and a random salt, and the keys are
+     * encrypted with AES-256-GCM, so a wrong password or a modified file is detected by [[importEncrypted]].
+     */
+  exportEncrypted = (password:string, iterations:number = AVMConstants.KEYCHAINKDFITERATIONS):string => {
+    if (!Number.isInteger(iterations) || iterations < 1 || iterations > AVMConstants.KEYCHAINKDFMAXITERATIONS) {
+      throw new Error(`Error - AVMKeyChain.exportEncrypted: iterations must be an integer from 1 to ${AVMConstants.KEYCHAINKDFMAXITERATIONS}`);
+    }
+    const salt:Buffer = Buffer.from(crypto.randomBytes(32));
+    const iv:Buffer = Buffer.from(crypto.randomBytes(12));
+    const key:Buffer = Buffer.from(crypto.pbkdf2Sync(Buffer.from(password, 'utf8'), salt, iterations, 32, 'sha512'));
+    const plaintext:Buffer = Buffer.from(JSON.stringify({
+      keys: Object.values(this.keys).map((kp) => kp.getPrivateKeyString()),
+    }), 'utf8');
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext:Buffer = Buffer.concat([Buffer.from(cipher.update(plaintext)), Buffer.from(cipher.final())]);
+    return JSON.stringify({
+      version: AVMConstants.KEYCHAINFILEVERSION,
+      kdf: 'pbkdf2-sha512',
+      iterations,
+      salt: bintools.avaSerialize(salt),
+      cipher: 'aes-256-gcm',
+      iv: bintools.avaSerialize(iv),
+      tag: bintools.avaSerialize(Buffer.from(cipher.getAuthTag())),
+      ciphertext: bintools.avaSerialize(ciphertext),
+    });
+  };
+
+  /**
+     * Decrypts keys exported with [[exportEncrypted]] and adds them to the key chain.
+     *
+     * @param serialized The JSON string returned by [[exportEncrypted]]
+     * @param password The password the keys were encrypted with
+     *
+     * @returns The addresses of the imported keys
+     *
+     * @remarks
+     * The key derivation parameters are checked before any work is done: a file with an iteration count which is not
+     * an integer from 1 to [[AVMConstants.KEYCHAINKDFMAXITERATIONS]], or with a salt, iv or tag which is malformed or
+     * not 32, 12 and 16 bytes long, is rejected as corrupted. A file which is not JSON is rejected as well.
+     */
+  importEncrypted = (serialized:string, password:string):Array<Buffer> => {
+    let json:any;
+    try {
+      json = JSON.parse(serialized);
+    } catch (e) {
+      throw new Error('Error - AVMKeyChain.importEncrypted: the file is not valid JSON');
+    }
+    if (typeof json !== 'object' || json === null) {
+      throw new Error('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    }
+    if (json.version !== AVMConstants.KEYCHAINFILEVERSION || json.kdf !== 'pbkdf2-sha512' || json.cipher !== 'aes-256-gcm') {
+      throw new Error(`Error - AVMKeyChain.importEncrypted: unsupported file version ${json.version}`);
+    }
+    let salt:Buffer;
+    let iv:Buffer;
+    let tag:Buffer;
+    let ciphertext:Buffer;
+    try {
+      salt = bintools.avaDeserialize(json.salt);
+      iv = bintools.avaDeserialize(json.iv);
+      tag = bintools.avaDeserialize(json.tag);
+      ciphertext = bintools.avaDeserialize(json.ciphertext);
+    } catch (e) {
+      throw new Error('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    }
+    if (!Number.isInteger(json.iterations) || json.iterations < 1 || json.iterations > AVMConstants.KEYCHAINKDFMAXITERATIONS
+      || salt.length !== 32 || iv.length !== 12 || tag.length !== 16) {
+      throw new Error('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    }
+    const key:Buffer = Buffer.from(crypto.pbkdf2Sync(Buffer.from(password, 'utf8'), salt, json.iterations, 32, 'sha512'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    let plaintext:Buffer;
+    try {
+      plaintext = Buffer.concat([Buffer.from(decipher.update(ciphertext)), Buffer.from(decipher.final())]);
+    } catch (e) {
+      throw new Error('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    }
+    const privks:Array<string> = JSON.parse(plaintext.toString('utf8')).keys;
+    return privks.map((privk) => this.importKey(privk));
+  };
+
+  /**
+     * Signs a digest with the key of an address, as required by the [[Signer]] interface.
+     *
+     * @param digest The 32-byte digest to sign
+     * @param address The address whose key signs the digest
+     *
+     * @returns A promise for the 65-byte signature
+     */
+  signDigest = async (digest:Buffer, address:Buffer):Promise<Buffer> => {
+    if (!this.hasKey(address)) {
+      throw new Error(`Error - AVMKeyChain.signDigest: no key for address ${bintools.addressToString(this.chainid, address)}`);
+    }
+    return this.getKey(address).sign(digest);
+  };
+
   /**
      * DEPRECATED: use UnsignedTx.sign(keychain) instead
      * Signs a [[UnsignedTx]] and returns signed [[Tx]]
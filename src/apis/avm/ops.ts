@@ -4,8 +4,11 @@
  */
 import { Buffer } from 'buffer/';
 import BinTools from '../../utils/bintools';
+import { AddressCodec } from '../../utils/addresscodec';
 import { UTXOID, AVMConstants, SigIdx } from './types';
-import { NFTTransferOutput } from './outputs';
+import {
+  NFTTransferOutput, OutputOwners, SecpMintOutput, SecpOutput,
+} from './outputs';
 
 const bintools = BinTools.getInstance();
 
@@ -17,7 +20,13 @@ const bintools = BinTools.getInstance();
  * @returns An instance of an [[Operation]]-extended class.
  */
 export const SelectOperationClass = (opid:number, ...args:Array<any>):Operation => {
-  if (opid === AVMConstants.NFTXFEROP) {
+  if (opid === AVMConstants.SECPMINTOP) {
+    const secpmintop:SecpMintOperation = new SecpMintOperation(...args);
+    return secpmintop;
+  } if (opid === AVMConstants.NFTMINTOP) {
+    const nftmintop:NFTMintOperation = new NFTMintOperation(...args);
+    return nftmintop;
+  } if (opid === AVMConstants.NFTXFEROP) {
     const nftop:NFTTransferOperation = new NFTTransferOperation(...args);
     return nftop;
   }
@@ -85,6 +94,55 @@ export abstract class Operation {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns the JSON representation of the [[Operation]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():any {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[Operation]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  abstract serialize(chainid?:string, codec?:AddressCodec):any;
+
+  /**
+     * @ignore
+     */
+  protected _toJSONBase():any {
+    return {
+      operationID: this.getOperationID(),
+      sigIdxs: this.sigIdxs.map((sigidx) => sigidx.toBuffer().readUInt32BE(0)),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[Operation]] as returned by [[Operation.serialize]].
+     *
+     * @param json The JSON representation
+     * @param codec Optional. The [[AddressCodec]] the addresses are encoded with, default base58
+     */
+  abstract fromJSON(json:any, codec?:AddressCodec):this;
+
+  /**
+     * @ignore
+     */
+  protected _fromJSONBase(json:any):void {
+    this.sigIdxs = [];
+    for (let i:number = 0; i < json.sigIdxs.length; i++) {
+      const sigidx:SigIdx = new SigIdx();
+      const b:Buffer = Buffer.alloc(4);
+      b.writeUInt32BE(json.sigIdxs[i], 0);
+      sigidx.fromBuffer(b);
+      this.sigIdxs.push(sigidx);
+    }
+    this.sigCount = Buffer.alloc(4);
+    this.sigCount.writeUInt32BE(this.sigIdxs.length, 0);
+  }
+
   static comparator = ():(a:Operation, b:Operation) => (1|-1|0) => (a:Operation, b:Operation):(1|-1|0) => {
     const aoutid:Buffer = Buffer.alloc(4);
     aoutid.writeUInt32BE(a.getOperationID(), 0);
@@ -150,6 +208,41 @@ export class TransferableOperation {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns the JSON representation of the [[TransferableOperation]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():any {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[TransferableOperation]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      assetID: bintools.avaSerialize(this.assetid),
+      utxoIDs: this.utxoIDs.map((utxoid) => utxoid.toString()),
+      operation: this.operation.serialize(chainid, codec),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[TransferableOperation]] as returned by [[TransferableOperation.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.assetid = bintools.avaDeserialize(json.assetID);
+    this.utxoIDs = json.utxoIDs.map((id:string) => {
+      const utxoid:UTXOID = new UTXOID();
+      utxoid.fromString(id);
+      return utxoid;
+    });
+    this.operation = SelectOperationClass(json.operation.operationID).fromJSON(json.operation, codec);
+    return this;
+  }
+
   /**
      * Returns the assetID as a {@link https://github.com/feross/buffer|Buffer}.
      */
@@ -188,6 +281,234 @@ export class TransferableOperation {
   }
 }
 
+/**
+ * An [[Operation]] class which mints new tokens on an assetID using the secp256k1 signature scheme.
+ */
+export class SecpMintOperation extends Operation {
+  protected mintOutput:SecpMintOutput = undefined;
+
+  protected transferOutput:SecpOutput = undefined;
+
+  /**
+     * Returns the operation ID.
+     */
+  getOperationID():number {
+    return AVMConstants.SECPMINTOP;
+  }
+
+  /**
+     * Returns the credential ID.
+     */
+  getCredentialID = ():number => AVMConstants.SECPCREDENTIAL;
+
+  /**
+     * Returns the [[SecpMintOutput]] which carries the minting rights forward.
+     */
+  getMintOutput = ():SecpMintOutput => this.mintOutput;
+
+  /**
+     * Returns the [[SecpOutput]] which receives the newly minted tokens.
+     */
+  getTransferOutput = ():SecpOutput => this.transferOutput;
+
+  /**
+     * Popuates the instance from a {@link https://github.com/feross/buffer|Buffer} representing the [[SecpMintOperation]] and returns the size of the output.
+     */
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    offset = super.fromBuffer(bytes, offset);
+    this.mintOutput = new SecpMintOutput();
+    offset = this.mintOutput.fromBuffer(bytes, offset);
+    this.transferOutput = new SecpOutput();
+    return this.transferOutput.fromBuffer(bytes, offset);
+  }
+
+  /**
+     * Returns the buffer representing the [[SecpMintOperation]] instance.
+     */
+  toBuffer():Buffer {
+    const superbuff:Buffer = super.toBuffer();
+    const mintoutbuff:Buffer = this.mintOutput.toBuffer();
+    const transferoutbuff:Buffer = this.transferOutput.toBuffer();
+    const bsize:number = superbuff.length + mintoutbuff.length + transferoutbuff.length;
+    const barr:Array<Buffer> = [superbuff, mintoutbuff, transferoutbuff];
+    return Buffer.concat(barr, bsize);
+  }
+
+  /**
+     * Returns a JSON representation of the [[SecpMintOperation]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      ...this._toJSONBase(),
+      mintOutput: this.mintOutput.serialize(chainid, codec),
+      transferOutput: this.transferOutput.serialize(chainid, codec),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[SecpMintOperation]] as returned by [[SecpMintOperation.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.mintOutput = new SecpMintOutput().fromJSON(json.mintOutput, codec);
+    this.transferOutput = new SecpOutput().fromJSON(json.transferOutput, codec);
+    this._fromJSONBase(json);
+    return this;
+  }
+
+  /**
+     * Returns a base-58 string representing the [[SecpMintOperation]].
+     */
+  toString():string {
+    return bintools.bufferToB58(this.toBuffer());
+  }
+
+  /**
+     * An [[Operation]] class which mints new tokens on an assetID.
+     *
+     * @param mintOutput The [[SecpMintOutput]] which will be the new owner of the minting rights
+     * @param transferOutput The [[SecpOutput]] which receives the minted tokens
+     */
+  constructor(mintOutput:SecpMintOutput = undefined, transferOutput:SecpOutput = undefined) {
+    super();
+    if (typeof mintOutput !== 'undefined' && typeof transferOutput !== 'undefined') {
+      this.mintOutput = mintOutput;
+      this.transferOutput = transferOutput;
+    }
+  }
+}
+
+/**
+ * An [[Operation]] class which mints new NFTs of a groupID on an assetID.
+ */
+export class NFTMintOperation extends Operation {
+  protected groupID:Buffer = Buffer.alloc(4);
+
+  protected sizePayload:Buffer = Buffer.alloc(4);
+
+  protected payload:Buffer = Buffer.alloc(0);
+
+  protected outputOwners:Array<OutputOwners> = [];
+
+  /**
+     * Returns the operation ID.
+     */
+  getOperationID():number {
+    return AVMConstants.NFTMINTOP;
+  }
+
+  /**
+     * Returns the groupID as a number.
+     */
+  getGroupID = ():number => this.groupID.readUInt32BE(0);
+
+  /**
+     * Returns the payload as a {@link https://github.com/feross/buffer|Buffer}
+     */
+  getPayload = ():Buffer => bintools.copyFrom(this.payload);
+
+  /**
+     * Returns the array of [[OutputOwners]] which each receive a newly minted NFT.
+     */
+  getOutputOwners = ():Array<OutputOwners> => this.outputOwners;
+
+  /**
+     * Popuates the instance from a {@link https://github.com/feross/buffer|Buffer} representing the [[NFTMintOperation]] and returns the size of the output.
+     */
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    offset = super.fromBuffer(bytes, offset);
+    this.groupID = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    this.sizePayload = bintools.copyFrom(bytes, offset, offset + 4);
+    const psize:number = this.sizePayload.readUInt32BE(0);
+    offset += 4;
+    this.payload = bintools.copyFrom(bytes, offset, offset + psize);
+    offset += psize;
+    const numowners:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    this.outputOwners = [];
+    for (let i:number = 0; i < numowners; i++) {
+      const owners:OutputOwners = new OutputOwners();
+      offset = owners.fromBuffer(bytes, offset);
+      this.outputOwners.push(owners);
+    }
+    return offset;
+  }
+
+  /**
+     * Returns the buffer representing the [[NFTMintOperation]] instance.
+     */
+  toBuffer():Buffer {
+    const superbuff:Buffer = super.toBuffer();
+    this.sizePayload.writeUInt32BE(this.payload.length, 0);
+    const numowners:Buffer = Buffer.alloc(4);
+    numowners.writeUInt32BE(this.outputOwners.length, 0);
+    let bsize:number = superbuff.length + this.groupID.length + this.sizePayload.length + this.payload.length + numowners.length;
+    const barr:Array<Buffer> = [superbuff, this.groupID, this.sizePayload, this.payload, numowners];
+    for (let i:number = 0; i < this.outputOwners.length; i++) {
+      const b:Buffer = this.outputOwners[i].toBuffer();
+      barr.push(b);
+      bsize += b.length;
+    }
+    return Buffer.concat(barr, bsize);
+  }
+
+  /**
+     * Returns a JSON representation of the [[NFTMintOperation]], with the payload in AVA serialization format.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      ...this._toJSONBase(),
+      groupID: this.getGroupID(),
+      payload: bintools.avaSerialize(this.payload),
+      outputOwners: this.outputOwners.map((owners) => owners.serialize(chainid, codec)),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[NFTMintOperation]] as returned by [[NFTMintOperation.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.groupID = Buffer.alloc(4);
+    this.groupID.writeUInt32BE(json.groupID, 0);
+    this.payload = bintools.avaDeserialize(json.payload);
+    this.sizePayload = Buffer.alloc(4);
+    this.sizePayload.writeUInt32BE(this.payload.length, 0);
+    this.outputOwners = json.outputOwners.map((owners:any) => new OutputOwners().fromJSON(owners, codec));
+    this._fromJSONBase(json);
+    return this;
+  }
+
+  /**
+     * Returns a base-58 string representing the [[NFTMintOperation]].
+     */
+  toString():string {
+    return bintools.bufferToB58(this.toBuffer());
+  }
+
+  /**
+     * An [[Operation]] class which mints NFTs on an assetID.
+     *
+     * @param groupID The number of the NFT group being minted, must match the spent [[NFTMintOutput]]
+     * @param payload A {@link https://github.com/feross/buffer|Buffer} of max length 1024 carried by each minted NFT
+     * @param outputOwners An array of [[OutputOwners]], one per NFT to mint
+     */
+  constructor(groupID:number = undefined, payload:Buffer = undefined, outputOwners:Array<OutputOwners> = undefined) {
+    super();
+    if (typeof groupID !== 'undefined' && typeof payload !== 'undefined' && typeof outputOwners !== 'undefined') {
+      this.groupID.writeUInt32BE(groupID, 0);
+      this.sizePayload.writeUInt32BE(payload.length, 0);
+      this.payload = bintools.copyFrom(payload, 0, payload.length);
+      this.outputOwners = outputOwners;
+    }
+  }
+}
+
 /**
  * A [[Operation]] class which specifies a NFT Transfer Op.
  */
@@ -223,6 +544,25 @@ export class NFTTransferOperation extends Operation {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns a JSON representation of the [[NFTTransferOperation]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return { ...this._toJSONBase(), output: this.output.serialize(chainid, codec) };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[NFTTransferOperation]] as returned by [[NFTTransferOperation.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.output = new NFTTransferOutput().fromJSON(json.output, codec);
+    this._fromJSONBase(json);
+    return this;
+  }
+
   /**
      * Returns a base-58 string representing the [[NFTTransferOperation]].
      */
@@ -5,10 +5,16 @@
 import { Buffer } from 'buffer/';
 import BN from 'bn.js';
 import BinTools from '../../utils/bintools';
+import { AddressCodec, Base58AddressCodec } from '../../utils/addresscodec';
 import { Address, UnixNow, AVMConstants } from './types';
 
 const bintools = BinTools.getInstance();
 
+/**
+ * @ignore
+ */
+const base58:AddressCodec = new Base58AddressCodec();
+
 /**
  * Takes a buffer representing the output and returns the proper Output instance.
  *
@@ -20,6 +26,12 @@ export const SelectOutputClass = (outputid:number, ...args:Array<any>):Output =>
   if (outputid === AVMConstants.SECPOUTPUTID) {
     const secpout:SecpOutput = new SecpOutput(...args);
     return secpout;
+  } if (outputid === AVMConstants.SECPMINTOUTPUTID) {
+    const secpmintout:SecpMintOutput = new SecpMintOutput(...args);
+    return secpmintout;
+  } if (outputid === AVMConstants.NFTMINTOUTPUTID) {
+    const nftmintout:NFTMintOutput = new NFTMintOutput(...args);
+    return nftmintout;
   } if (outputid === AVMConstants.NFTXFEROUTPUTID) {
     const nftout:NFTTransferOutput = new NFTTransferOutput(...args);
     return nftout;
@@ -27,7 +39,10 @@ export const SelectOutputClass = (outputid:number, ...args:Array<any>):Output =>
   throw new Error(`Error - SelectOutputClass: unknown outputid ${outputid}`);
 };
 
-export abstract class Output {
+/**
+ * Class representing the owners of an output: a locktime, a threshold, and the addresses which may spend it.
+ */
+export class OutputOwners {
   protected locktime:Buffer = Buffer.alloc(8);
 
   protected threshold:Buffer = Buffer.alloc(4);
@@ -36,11 +51,6 @@ export abstract class Output {
 
   protected addresses:Array<Address> = [];
 
-  /**
-     * Returns the outputID for the output which tells parsers what type it is
-     */
-  abstract getOutputID():number;
-
   /**
      * Returns the threshold of signers required to spend this output.
      */
@@ -142,7 +152,7 @@ export abstract class Output {
   };
 
   /**
-     * Returns a base-58 string representing the [[Output]].
+     * Popuates the instance from a {@link https://github.com/feross/buffer|Buffer} representing the [[OutputOwners]] and returns the size of the output.
      */
   fromBuffer(bytes:Buffer, offset:number = 0):number {
     this.locktime = bintools.copyFrom(bytes, offset, offset + 8);
@@ -163,7 +173,7 @@ export abstract class Output {
   }
 
   /**
-     * Returns the buffer representing the [[Output]] instance.
+     * Returns the buffer representing the [[OutputOwners]] instance.
      */
   toBuffer():Buffer {
     this.addresses.sort(Address.comparitor());
@@ -179,36 +189,60 @@ export abstract class Output {
   }
 
   /**
-     * Returns a base-58 string representing the [[Output]].
+     * Returns a base-58 string representing the [[OutputOwners]].
      */
   toString():string {
     return bintools.bufferToB58(this.toBuffer());
   }
 
   /**
+     * Returns the JSON representation of the [[OutputOwners]] for the 'X' chain, see [[serialize]].
      *
-     * @param assetID An assetID which is wrapped around the Buffer of the Output
+     * @remarks
+     * This is what JSON.stringify calls. It takes no chain alias because JSON.stringify passes the property key
+     * instead, use [[serialize]] to format addresses for another chain.
      */
-  makeTransferable(assetID:Buffer):TransferableOutput {
-    return new TransferableOutput(assetID, this);
+  toJSON():any {
+    return this.serialize();
   }
 
-  static comparator = ():(a:Output, b:Output) => (1|-1|0) => (a:Output, b:Output):(1|-1|0) => {
-    const aoutid:Buffer = Buffer.alloc(4);
-    aoutid.writeUInt32BE(a.getOutputID(), 0);
-    const abuff:Buffer = a.toBuffer();
-
-    const boutid:Buffer = Buffer.alloc(4);
-    boutid.writeUInt32BE(b.getOutputID(), 0);
-    const bbuff:Buffer = b.toBuffer();
+  /**
+     * Returns a JSON representation of the [[OutputOwners]], with the locktime as a decimal string.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      locktime: this.getLocktime().toString(10),
+      threshold: this.getThreshold(),
+      addresses: this.getAddresses().map((a) => (codec || base58).encode(chainid, a)),
+    };
+  }
 
-    const asort:Buffer = Buffer.concat([aoutid, abuff], aoutid.length + abuff.length);
-    const bsort:Buffer = Buffer.concat([boutid, bbuff], boutid.length + bbuff.length);
-    return Buffer.compare(asort, bsort) as (1|-1|0);
-  };
+  /**
+     * Popuates the instance from a JSON representation of the [[OutputOwners]] as returned by [[OutputOwners.serialize]].
+     *
+     * @param json The JSON representation
+     * @param codec Optional. The [[AddressCodec]] the addresses are encoded with, default base58. Any chain prefix is accepted.
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.locktime = bintools.fromBNToBuffer(new BN(json.locktime, 10), 8);
+    this.threshold = Buffer.alloc(4);
+    this.threshold.writeUInt32BE(json.threshold, 0);
+    this.addresses = json.addresses.map((a:string) => {
+      const addr:Address = new Address();
+      addr.fromBuffer((codec || base58).decode(a, undefined, AVMConstants.ADDRESSLENGTH));
+      return addr;
+    });
+    this.addresses.sort(Address.comparitor());
+    this.numaddrs = Buffer.alloc(4);
+    this.numaddrs.writeUInt32BE(this.addresses.length, 0);
+    return this;
+  }
 
   /**
-     * An [[Output]] class which contains locktimes, thresholds, and addresses.
+     * Class representing the owners of an output.
      *
      * @param locktime A {@link https://github.com/indutny/bn.js/|BN} representing the locktime
      * @param threshold A number representing the the threshold number of signers required to sign the transaction
@@ -234,6 +268,56 @@ export abstract class Output {
   }
 }
 
+export abstract class Output extends OutputOwners {
+  /**
+     * Returns the outputID for the output which tells parsers what type it is
+     */
+  abstract getOutputID():number;
+
+  /**
+     *
+     * @param assetID An assetID which is wrapped around the Buffer of the Output
+     */
+  makeTransferable(assetID:Buffer):TransferableOutput {
+    return new TransferableOutput(assetID, this);
+  }
+
+  /**
+     * Returns a JSON representation of the [[Output]], including its outputID.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return { outputID: this.getOutputID(), ...super.serialize(chainid, codec) };
+  }
+
+  static comparator = ():(a:Output, b:Output) => (1|-1|0) => (a:Output, b:Output):(1|-1|0) => {
+    const aoutid:Buffer = Buffer.alloc(4);
+    aoutid.writeUInt32BE(a.getOutputID(), 0);
+    const abuff:Buffer = a.toBuffer();
+
+    const boutid:Buffer = Buffer.alloc(4);
+    boutid.writeUInt32BE(b.getOutputID(), 0);
+    const bbuff:Buffer = b.toBuffer();
+
+    const asort:Buffer = Buffer.concat([aoutid, abuff], aoutid.length + abuff.length);
+    const bsort:Buffer = Buffer.concat([boutid, bbuff], boutid.length + bbuff.length);
+    return Buffer.compare(asort, bsort) as (1|-1|0);
+  };
+
+  /**
+     * An [[Output]] class which contains locktimes, thresholds, and addresses.
+     *
+     * @param locktime A {@link https://github.com/indutny/bn.js/|BN} representing the locktime
+     * @param threshold A number representing the the threshold number of signers required to sign the transaction
+     * @param addresses An array of {@link https://github.com/feross/buffer|Buffer}s representing addresses
+     */
+  constructor(locktime:BN = undefined, threshold:number = undefined, addresses:Array<Buffer> = undefined) {
+    super(locktime, threshold, addresses);
+  }
+}
+
 export class TransferableOutput {
   protected assetID:Buffer = Buffer.alloc(AVMConstants.ASSETIDLEN);
 
@@ -269,6 +353,35 @@ export class TransferableOutput {
     return Buffer.concat(barr, this.assetID.length + outid.length + outbuff.length);
   }
 
+  /**
+     * Returns the JSON representation of the [[TransferableOutput]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():any {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[TransferableOutput]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      assetID: bintools.avaSerialize(this.assetID),
+      output: this.output.serialize(chainid, codec),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[TransferableOutput]] as returned by [[TransferableOutput.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.assetID = bintools.avaDeserialize(json.assetID);
+    this.output = SelectOutputClass(json.output.outputID).fromJSON(json.output, codec);
+    return this;
+  }
+
   /**
      * Class representing an [[TransferableOutput]] for a transaction.
      *
@@ -317,6 +430,25 @@ export abstract class AmountOutput extends Output {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns a JSON representation of the [[AmountOutput]], with the amount as a decimal string.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return { ...super.serialize(chainid, codec), amount: this.amountValue.toString(10) };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[AmountOutput]] as returned by [[AmountOutput.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.amountValue = new BN(json.amount, 10);
+    this.amount = bintools.fromBNToBuffer(this.amountValue, 8);
+    return super.fromJSON(json, codec);
+  }
+
   /**
      * An [[AmountOutput]] class which issues a payment on an assetID.
      *
@@ -346,6 +478,90 @@ export class SecpOutput extends AmountOutput {
   }
 }
 
+/**
+ * An [[Output]] class which specifies who may mint more of a variable-cap asset using the secp256k1 signature scheme.
+ */
+export class SecpMintOutput extends Output {
+  /**
+     * Returns the outputID for this output
+     */
+  getOutputID():number {
+    return AVMConstants.SECPMINTOUTPUTID;
+  }
+}
+
+/**
+ * An [[Output]] class which specifies who may mint NFTs of a groupID on an assetID.
+ */
+export class NFTMintOutput extends Output {
+  protected groupID:Buffer = Buffer.alloc(4);
+
+  /**
+     * Returns the outputID for this output
+     */
+  getOutputID():number {
+    return AVMConstants.NFTMINTOUTPUTID;
+  }
+
+  /**
+     * Returns the groupID as a number.
+     */
+  getGroupID = ():number => this.groupID.readUInt32BE(0);
+
+  /**
+     * Popuates the instance from a {@link https://github.com/feross/buffer|Buffer} representing the [[NFTMintOutput]] and returns the size of the output.
+     */
+  fromBuffer(utxobuff:Buffer, offset:number = 0):number {
+    this.groupID = bintools.copyFrom(utxobuff, offset, offset + 4);
+    offset += 4;
+    return super.fromBuffer(utxobuff, offset);
+  }
+
+  /**
+     * Returns the buffer representing the [[NFTMintOutput]] instance.
+     */
+  toBuffer():Buffer {
+    const superbuff:Buffer = super.toBuffer();
+    const bsize:number = this.groupID.length + superbuff.length;
+    const barr:Array<Buffer> = [this.groupID, superbuff];
+    return Buffer.concat(barr, bsize);
+  }
+
+  /**
+     * Returns a JSON representation of the [[NFTMintOutput]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return { ...super.serialize(chainid, codec), groupID: this.getGroupID() };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[NFTMintOutput]] as returned by [[NFTMintOutput.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.groupID = Buffer.alloc(4);
+    this.groupID.writeUInt32BE(json.groupID, 0);
+    return super.fromJSON(json, codec);
+  }
+
+  /**
+     * An [[Output]] class which contains the minting rights of an NFT group.
+     *
+     * @param groupID A number representing the group of NFTs which may be minted
+     * @param locktime A {@link https://github.com/indutny/bn.js/|BN} representing the locktime
+     * @param threshold A number representing the the threshold number of signers required to sign the transaction
+     * @param addresses An array of {@link https://github.com/feross/buffer|Buffer}s representing addresses
+     */
+  constructor(groupID:number = undefined, locktime:BN = undefined, threshold:number = undefined, addresses:Array<Buffer> = undefined) {
+    super(locktime, threshold, addresses);
+    if (typeof groupID !== 'undefined') {
+      this.groupID.writeUInt32BE(groupID, 0);
+    }
+  }
+}
+
 /**
  * An [[Output]] class which specifies an NFT.
  */
@@ -391,6 +607,28 @@ export abstract class NFTOutBase extends Output {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns a JSON representation of the [[NFTOutBase]], with the payload in AVA serialization format.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return { ...super.serialize(chainid, codec), groupID: this.getGroupID(), payload: bintools.avaSerialize(this.payload) };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[NFTOutBase]] as returned by [[NFTOutBase.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.groupID = Buffer.alloc(4);
+    this.groupID.writeUInt32BE(json.groupID, 0);
+    this.payload = bintools.avaDeserialize(json.payload);
+    this.sizePayload = Buffer.alloc(4);
+    this.sizePayload.writeUInt32BE(this.payload.length, 0);
+    return super.fromJSON(json, codec);
+  }
+
   /**
      * An [[Output]] class which contains an NFT on an assetID.
      *
@@ -0,0 +1,109 @@
+/**
+ * @packageDocumentation
+ * @module AVMAPI-Scanner
+ */
+import AVMAPI from './api';
+import { AVMKeyPair, AVMKeyChain } from './keychain';
+import { UTXOSet } from './utxos';
+
+/**
+ * Class for discovering the used addresses of a deterministic wallet, such as an [[HDKeyChain]], when restoring it.
+ *
+ * ```js
+ * const hd = new HDKeyChain("X", phrase);
+ * const scanner = new AddressScanner(avalanche.AVM(), hd.deriveKeyPair);
+ * const { keychain, utxos, nextIndex } = await scanner.scan();
+ * ```
+ *
+ * @remarks
+ * Addresses are generated in batches, and the UTXOs of each batch are fetched with a single [[AVMAPI.getUTXOs]] call.
+ * An address is considered used when it owns at least one UTXO. Scanning stops once the gap limit of consecutive
+ * unused addresses has been reached.
+ */
+export class AddressScanner {
+  protected api:AVMAPI;
+
+  protected generator:(index:number) => AVMKeyPair;
+
+  protected gapLimit:number;
+
+  protected batchSize:number;
+
+  /**
+     * Returns the number of consecutive unused addresses after which scanning stops.
+     */
+  getGapLimit = ():number => this.gapLimit;
+
+  /**
+     * Returns the number of addresses queried per [[AVMAPI.getUTXOs]] call.
+     */
+  getBatchSize = ():number => this.batchSize;
+
+  /**
+     * Scans the wallet for used addresses.
+     *
+     * @param startIndex Optional. The first index to generate, default 0
+     *
+     * @returns A promise for an object holding:
+     *   * keychain: an [[AVMKeyChain]] with every key from startIndex up to the last used address
+     *   * utxos: a [[UTXOSet]] with the UTXOs of all scanned addresses
+     *   * nextIndex: the index following the last used address, or startIndex if none was used
+     */
+  scan = async (startIndex:number = 0):Promise<{keychain:AVMKeyChain; utxos:UTXOSet; nextIndex:number}> => {
+    const keychain:AVMKeyChain = new AVMKeyChain(this.api.getBlockchainAlias() ? this.api.getBlockchainAlias() : this.api.getBlockchainID());
+    const utxos:UTXOSet = new UTXOSet();
+    const pending:Array<AVMKeyPair> = [];
+    // batches are fetched one after another, as whether to fetch the next one depends on the previous results
+    const scanBatch = async (index:number, gap:number):Promise<number> => {
+      if (gap >= this.gapLimit) {
+        return index;
+      }
+      const batch:Array<AVMKeyPair> = [];
+      for (let i:number = 0; i < this.batchSize; i++) {
+        batch.push(this.generator(index + i));
+      }
+      const found:UTXOSet = await this.api.getUTXOs(batch.map((kp) => kp.getAddress()));
+      utxos.addArray(found.getAllUTXOs());
+      const used:Array<string> = found.getAddresses().map((a) => a.toString('hex'));
+      let newgap:number = gap;
+      for (let i:number = 0; i < batch.length; i++) {
+        pending.push(batch[i]);
+        if (used.indexOf(batch[i].getAddress().toString('hex')) !== -1) {
+          // keys of unused addresses below a used one are kept, as they belong to the same wallet
+          pending.forEach((kp) => keychain.addKey(kp));
+          pending.length = 0;
+          newgap = 0;
+        } else {
+          newgap += 1;
+        }
+      }
+      return scanBatch(index + this.batchSize, newgap);
+    };
+    const index:number = await scanBatch(startIndex, 0);
+    return {
+      keychain,
+      utxos,
+      nextIndex: index - pending.length,
+    };
+  };
+
+  /**
+     * Class representing an address scanner.
+     *
+     * @param api The [[AVMAPI]] used to fetch UTXOs
+     * @param generator A function returning the [[AVMKeyPair]] of the wallet at an index, such as [[HDKeyChain.deriveKeyPair]]
+     * @param gapLimit Optional. The number of consecutive unused addresses after which scanning stops, default 20
+     * @param batchSize Optional. The number of addresses queried per call, default the gap limit
+     */
+  constructor(api:AVMAPI, generator:(index:number) => AVMKeyPair, gapLimit:number = 20, batchSize:number = gapLimit) {
+    if (gapLimit < 1 || batchSize < 1) {
+      throw new Error('Error - AddressScanner.constructor: gapLimit and batchSize must be at least 1');
+    }
+    this.api = api;
+    this.generator = generator;
+    this.gapLimit = gapLimit;
+    this.batchSize = batchSize;
+  }
+}
+
+export default AddressScanner;
@@ -0,0 +1,187 @@
+/**
+ * @packageDocumentation
+ * @module AVMAPI-Selectors
+ */
+import BN from 'bn.js';
+import { AmountOutput } from './outputs';
+import { UTXO } from './utxos';
+
+/**
+ * @ignore
+ */
+const getAmount = (utxo:UTXO):BN => (utxo.getOutput() as AmountOutput).getAmount();
+
+/**
+ * @ignore
+ */
+const compareUTXOIDs = (a:UTXO, b:UTXO):number => {
+  const aid:string = a.getUTXOID();
+  const bid:string = b.getUTXOID();
+  if (aid < bid) {
+    return -1;
+  }
+  return aid > bid ? 1 : 0;
+};
+
+/**
+ * @ignore
+ */
+const takeUntil = (utxos:Array<UTXO>, amount:BN):Array<UTXO> => {
+  const results:Array<UTXO> = [];
+  let total:BN = new BN(0);
+  for (let i = 0; i < utxos.length && total.lt(amount); i++) {
+    results.push(utxos[i]);
+    total = total.add(getAmount(utxos[i]));
+  }
+  return results;
+};
+
+/**
+ * Abstract class for choosing which [[UTXO]]s are spent to cover an amount.
+ *
+ * @remarks
+ * The [[UTXOSet]] builders only hand a [[CoinSelector]] UTXOs which hold an [[AmountOutput]] of the right asset
+ * and which the sender can spend. Implementations must be deterministic for a given input.
+ */
+export abstract class CoinSelector {
+  /**
+     * Returns the [[UTXO]]s to spend, in order.
+     *
+     * @param utxos The candidate [[UTXO]]s, each holding an [[AmountOutput]]
+     * @param amount The amount which the selected [[UTXO]]s must at least add up to
+     *
+     * @returns An array of [[UTXO]]s. If the candidates cannot cover the amount, any subset may be returned.
+     */
+  abstract select(utxos:Array<UTXO>, amount:BN):Array<UTXO>;
+}
+
+/**
+ * Spends the largest [[UTXO]]s first, minimizing the number of inputs.
+ */
+export class LargestFirstSelector extends CoinSelector {
+  select(utxos:Array<UTXO>, amount:BN):Array<UTXO> {
+    const sorted:Array<UTXO> = utxos.slice().sort((a, b) => getAmount(b).cmp(getAmount(a)) || compareUTXOIDs(a, b));
+    return takeUntil(sorted, amount);
+  }
+}
+
+/**
+ * Spends the smallest [[UTXO]]s first, cleaning up dust along the way.
+ */
+export class SmallestFirstSelector extends CoinSelector {
+  select(utxos:Array<UTXO>, amount:BN):Array<UTXO> {
+    const sorted:Array<UTXO> = utxos.slice().sort((a, b) => getAmount(a).cmp(getAmount(b)) || compareUTXOIDs(a, b));
+    return takeUntil(sorted, amount);
+  }
+}
+
+/**
+ * Spends the [[UTXO]]s with the earliest locktime first.
+ */
+export class OldestFirstSelector extends CoinSelector {
+  select(utxos:Array<UTXO>, amount:BN):Array<UTXO> {
+    const sorted:Array<UTXO> = utxos.slice().sort(
+      (a, b) => a.getOutput().getLocktime().cmp(b.getOutput().getLocktime()) || compareUTXOIDs(a, b),
+    );
+    return takeUntil(sorted, amount);
+  }
+}
+
+/**
+ * Searches for a set of [[UTXO]]s adding up to exactly the amount, so no change output is needed.
+ * Falls back to [[LargestFirstSelector]] when no exact match is found within the search limit.
+ */
+export class BranchAndBoundSelector extends CoinSelector {
+  protected maxTries:number;
+
+  select(utxos:Array<UTXO>, amount:BN):Array<UTXO> {
+    const sorted:Array<UTXO> = utxos.slice().sort((a, b) => getAmount(b).cmp(getAmount(a)) || compareUTXOIDs(a, b));
+    // remaining[i] is the sum of all amounts from index i onwards, used to prune branches that cannot reach the amount
+    const remaining:Array<BN> = new Array(sorted.length + 1);
+    remaining[sorted.length] = new BN(0);
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      remaining[i] = remaining[i + 1].add(getAmount(sorted[i]));
+    }
+
+    let tries:number = 0;
+    const chosen:Array<number> = [];
+    const search = (idx:number, total:BN):boolean => {
+      if (total.eq(amount)) {
+        return true;
+      }
+      tries += 1;
+      if (idx >= sorted.length || tries > this.maxTries || total.add(remaining[idx]).lt(amount)) {
+        return false;
+      }
+      const withAmt:BN = total.add(getAmount(sorted[idx]));
+      if (withAmt.lte(amount)) {
+        chosen.push(idx);
+        if (search(idx + 1, withAmt)) {
+          return true;
+        }
+        chosen.pop();
+      }
+      return search(idx + 1, total);
+    };
+
+    if (search(0, new BN(0))) {
+      return chosen.map((i) => sorted[i]);
+    }
+    return takeUntil(sorted, amount);
+  }
+
+  /**
+     * @param maxTries Optional. The number of branches explored before giving up on an exact match, default 100000
+     */
+  constructor(maxTries:number = 100000) {
+    super();
+    this.maxTries = maxTries;
+  }
+}
+
+/**
+ * Spends [[UTXO]]s owned by as few distinct address sets as possible, so that a transaction links together as few
+ * addresses as possible.
+ *
+ * @remarks
+ * If a single address set can cover the amount, the one with the smallest sufficient balance is used. Otherwise
+ * address sets are spent largest balance first.
+ */
+export class PrivacySelector extends CoinSelector {
+  select(utxos:Array<UTXO>, amount:BN):Array<UTXO> {
+    const groups:{[owners: string]: Array<UTXO>} = {};
+    for (let i = 0; i < utxos.length; i++) {
+      const owners:string = utxos[i].getOutput().getAddresses()
+        .map((a) => a.toString('hex'))
+        .sort()
+        .join(':');
+      if (!(owners in groups)) {
+        groups[owners] = [];
+      }
+      groups[owners].push(utxos[i]);
+    }
+
+    const keys:Array<string> = Object.keys(groups).sort();
+    const totals:{[owners: string]: BN} = {};
+    for (let i = 0; i < keys.length; i++) {
+      totals[keys[i]] = groups[keys[i]].reduce((sum:BN, u:UTXO) => sum.add(getAmount(u)), new BN(0));
+    }
+    const largestFirst:LargestFirstSelector = new LargestFirstSelector();
+
+    const sufficient:Array<string> = keys.filter((k) => totals[k].gte(amount))
+      .sort((a, b) => totals[a].cmp(totals[b]));
+    if (sufficient.length > 0) {
+      return largestFirst.select(groups[sufficient[0]], amount);
+    }
+
+    const byTotal:Array<string> = keys.slice().sort((a, b) => totals[b].cmp(totals[a]));
+    let results:Array<UTXO> = [];
+    let total:BN = new BN(0);
+    for (let i = 0; i < byTotal.length && total.lt(amount); i++) {
+      const picked:Array<UTXO> = largestFirst.select(groups[byTotal[i]], amount.sub(total));
+      results = results.concat(picked);
+      total = picked.reduce((sum:BN, u:UTXO) => sum.add(getAmount(u)), total);
+    }
+    return results;
+  }
+}
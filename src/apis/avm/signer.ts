@@ -0,0 +1,32 @@
+/**
+ * @packageDocumentation
+ * @module AVMAPI-Signer
+ */
+import { Buffer } from 'buffer/';
+
+/**
+ * Interface for anything able to sign transactions for a set of addresses, such as an [[AVMKeyChain]], a hardware
+ * wallet or a remote signing service.
+ *
+ * @remarks
+ * [[UnsignedTx.sign]] and [[PartiallySignedTx.sign]] accept a [[Signer]] and request one signature at a time, in
+ * the order of the transaction's credentials, so that devices which cannot sign concurrently are supported.
+ */
+export interface Signer {
+  /**
+     * Returns the addresses the signer can sign for.
+     */
+  getAddresses():Array<Buffer>;
+
+  /**
+     * Signs a digest with the key of an address.
+     *
+     * @param digest The 32-byte SHA256 digest of the bytes to sign
+     * @param address The address whose key signs the digest
+     *
+     * @returns A promise for the 65-byte recoverable secp256k1 signature, as r, s and the recovery byte
+     */
+  signDigest(digest:Buffer, address:Buffer):Promise<Buffer>;
+}
+
+export default Signer;
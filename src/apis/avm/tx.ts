@@ -5,6 +5,7 @@
 import { Buffer } from 'buffer/';
 import createHash from 'create-hash';
 import BinTools from '../../utils/bintools';
+import { AddressCodec } from '../../utils/addresscodec';
 import {
   AVMConstants, InitialStates, Signature, SigIdx,
 } from './types';
@@ -13,12 +14,27 @@ import { TransferableInput } from './inputs';
 import { TransferableOperation } from './ops';
 import { Credential, SelectCredentialClass } from './credentials';
 import { AVMKeyChain, AVMKeyPair } from './keychain';
+import { Signer } from './signer';
+import { UTXO, UTXOSet } from './utxos';
 
 /**
  * @ignore
  */
 const bintools = BinTools.getInstance();
 
+/**
+ * @ignore
+ */
+const requestSignature = async (signer:Signer, msg:Buffer, source:Buffer, caller:string):Promise<Signature> => {
+  const signval:Buffer = await signer.signDigest(msg, source);
+  const sig:Signature = new Signature();
+  if (signval.length !== sig.getSize()) {
+    throw new Error(`Error - ${caller}: signer returned a signature of ${signval.length} bytes for address ${source.toString('hex')}`);
+  }
+  sig.fromBuffer(signval);
+  return sig;
+};
+
 /**
  * Class representing a base for all transactions.
  */
@@ -35,6 +51,8 @@ export class BaseTx {
 
   protected ins:Array<TransferableInput>;
 
+  protected memo:Buffer = Buffer.alloc(0);
+
   /**
      * Returns the id of the [[BaseTx]]
      */
@@ -62,6 +80,11 @@ export class BaseTx {
      */
   getOuts = ():Array<TransferableOutput> => this.outs;
 
+  /**
+     * Returns the memo as a {@link https://github.com/feross/buffer|Buffer}
+     */
+  getMemo = ():Buffer => bintools.copyFrom(this.memo);
+
   /**
      * Takes a {@link https://github.com/feross/buffer|Buffer} containing an [[BaseTx]], parses it, populates the class, and returns the length of the BaseTx in bytes.
      *
@@ -95,6 +118,11 @@ export class BaseTx {
       offset = xferin.fromBuffer(bytes, offset);
       this.ins.push(xferin);
     }
+
+    const memolen:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    this.memo = bintools.copyFrom(bytes, offset, offset + memolen);
+    offset += memolen;
     return offset;
   }
 
@@ -120,6 +148,10 @@ export class BaseTx {
       barr.push(b);
       bsize += b.length;
     }
+    const memolen:Buffer = Buffer.alloc(4);
+    memolen.writeUInt32BE(this.memo.length, 0);
+    barr.push(memolen, this.memo);
+    bsize += memolen.length + this.memo.length;
     const buff:Buffer = Buffer.concat(barr, bsize);
     return buff;
   }
@@ -131,6 +163,72 @@ export class BaseTx {
     return bintools.bufferToB58(this.toBuffer());
   }
 
+  /**
+     * Returns the JSON representation of the [[BaseTx]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():any {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[BaseTx]], with IDs and the memo in AVA serialization format.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      txType: this.getTxType(),
+      networkID: this.getNetworkID(),
+      blockchainID: bintools.avaSerialize(this.blockchainid),
+      outputs: this.outs.map((xferout) => xferout.serialize(chainid, codec)),
+      inputs: this.ins.map((xferin) => xferin.toJSON()),
+      memo: bintools.avaSerialize(this.memo),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[BaseTx]] as returned by [[BaseTx.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    const memo:Buffer = bintools.avaDeserialize(json.memo);
+    if (memo.length > AVMConstants.MEMOMAXLEN) {
+      throw new Error(`Error - BaseTx.fromJSON: memo may not exceed length of ${AVMConstants.MEMOMAXLEN}`);
+    }
+    this.networkid = Buffer.alloc(4);
+    this.networkid.writeUInt32BE(json.networkID, 0);
+    this.blockchainid = bintools.avaDeserialize(json.blockchainID);
+    this.outs = json.outputs.map((xferout:any) => new TransferableOutput().fromJSON(xferout, codec));
+    this.ins = json.inputs.map((xferin:any) => new TransferableInput().fromJSON(xferin));
+    this.numouts = Buffer.alloc(4);
+    this.numouts.writeUInt32BE(this.outs.length, 0);
+    this.numins = Buffer.alloc(4);
+    this.numins.writeUInt32BE(this.ins.length, 0);
+    this.memo = memo;
+    return this;
+  }
+
+  /**
+     * Returns the [[SigIdx]]s which each [[Credential]] of the signed transaction must satisfy, in order.
+     */
+  getSigIdxs():Array<Array<SigIdx>> {
+    return this.ins.map((xferin) => xferin.getInput().getSigIdxs());
+  }
+
+  /**
+     * Returns the credential ID of each [[Credential]] of the signed transaction, in order.
+     */
+  getCredentialIDs():Array<number> {
+    return this.ins.map((xferin) => xferin.getInput().getCredentialID());
+  }
+
+  /**
+     * Returns the number of signatures held by each [[Credential]] of the signed transaction, in order.
+     */
+  getSigCounts():Array<number> {
+    return this.getSigIdxs().map((sigidxs) => sigidxs.length);
+  }
+
   /**
      * Takes the bytes of an [[UnsignedTx]] and returns an array of [[Credential]]s
      *
@@ -163,10 +261,21 @@ export class BaseTx {
      * @param blockchainid Optional blockchainid, default Buffer.alloc(32, 16)
      * @param outs Optional array of the [[TransferableOutput]]s
      * @param ins Optional array of the [[TransferableInput]]s
+     * @param memo Optional {@link https://github.com/feross/buffer|Buffer} of arbitrary data, max length 256
      */
-  constructor(networkid:number = 3, blockchainid:Buffer = Buffer.alloc(32, 16), outs:Array<TransferableOutput> = undefined, ins:Array<TransferableInput> = undefined) {
+  constructor(
+    networkid:number = 3, blockchainid:Buffer = Buffer.alloc(32, 16),
+    outs:Array<TransferableOutput> = undefined, ins:Array<TransferableInput> = undefined,
+    memo:Buffer = undefined,
+  ) {
     this.networkid.writeUInt32BE(networkid, 0);
     this.blockchainid = blockchainid;
+    if (typeof memo !== 'undefined') {
+      if (memo.length > AVMConstants.MEMOMAXLEN) {
+        throw new Error(`Error - BaseTx.constructor: memo may not exceed length of ${AVMConstants.MEMOMAXLEN}`);
+      }
+      this.memo = bintools.copyFrom(memo);
+    }
     if (typeof ins !== 'undefined' && typeof outs !== 'undefined') {
       this.numouts.writeUInt32BE(outs.length, 0);
       this.outs = outs.sort(TransferableOutput.comparator());
@@ -271,6 +380,35 @@ export class CreateAssetTx extends BaseTx {
     return Buffer.concat(barr, bsize);
   }
 
+  /**
+     * Returns a JSON representation of the [[CreateAssetTx]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      ...super.serialize(chainid, codec),
+      name: this.name,
+      symbol: this.symbol,
+      denomination: this.getDenomination(),
+      initialStates: this.initialstate.serialize(chainid, codec),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[CreateAssetTx]] as returned by [[CreateAssetTx.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    super.fromJSON(json, codec);
+    this.name = json.name;
+    this.symbol = json.symbol;
+    this.denomination = Buffer.alloc(1);
+    this.denomination.writeUInt8(json.denomination, 0);
+    this.initialstate = new InitialStates().fromJSON(json.initialStates, codec);
+    return this;
+  }
+
   /**
      * Class representing an unsigned Create Asset transaction.
      *
@@ -282,14 +420,15 @@ export class CreateAssetTx extends BaseTx {
      * @param symbol String for the ticker symbol of the asset
      * @param denomination Optional number for the denomination which is 10^D. D must be >= 0 and <= 32. Ex: $1 AVA = 10^9 $nAVA
      * @param initialstate Optional [[InitialStates]] that represent the intial state of a created asset
+     * @param memo Optional {@link https://github.com/feross/buffer|Buffer} of arbitrary data, max length 256
      */
   constructor(
     networkid:number = 3, blockchainid:Buffer = Buffer.alloc(32, 16),
     outs:Array<TransferableOutput> = undefined, ins:Array<TransferableInput> = undefined,
     name:string = undefined, symbol:string = undefined, denomination:number = undefined,
-    initialstate:InitialStates = undefined,
+    initialstate:InitialStates = undefined, memo:Buffer = undefined,
   ) {
-    super(networkid, blockchainid, outs, ins);
+    super(networkid, blockchainid, outs, ins, memo);
     if (
       typeof name === 'string' && typeof symbol === 'string' && typeof denomination === 'number'
             && denomination >= 0 && denomination <= 32 && typeof initialstate !== 'undefined'
@@ -351,6 +490,27 @@ export class OperationTx extends BaseTx {
     return Buffer.concat(barr);
   }
 
+  /**
+     * Returns a JSON representation of the [[OperationTx]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return { ...super.serialize(chainid, codec), operations: this.ops.map((op) => op.serialize(chainid, codec)) };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[OperationTx]] as returned by [[OperationTx.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    super.fromJSON(json, codec);
+    this.ops = json.operations.map((op:any) => new TransferableOperation().fromJSON(op, codec));
+    this.numOps = Buffer.alloc(4);
+    this.numOps.writeUInt32BE(this.ops.length, 0);
+    return this;
+  }
+
   /**
      * Returns an array of [[Operation]]s in this transaction.
      */
@@ -358,6 +518,20 @@ export class OperationTx extends BaseTx {
     return this.ops;
   }
 
+  /**
+     * Returns the [[SigIdx]]s which each [[Credential]] of the signed transaction must satisfy, in order.
+     */
+  getSigIdxs():Array<Array<SigIdx>> {
+    return super.getSigIdxs().concat(this.ops.map((op) => op.getOperation().getSigIdxs()));
+  }
+
+  /**
+     * Returns the credential ID of each [[Credential]] of the signed transaction, in order.
+     */
+  getCredentialIDs():Array<number> {
+    return super.getCredentialIDs().concat(this.ops.map((op) => op.getOperation().getCredentialID()));
+  }
+
   /**
      * Takes the bytes of an [[UnsignedTx]] and returns an array of [[Credential]]s
      *
@@ -391,13 +565,14 @@ export class OperationTx extends BaseTx {
      * @param outs Optional array of the [[TransferableOutput]]s
      * @param ins Optional array of the [[TransferableInput]]s
      * @param ops Array of [[Operation]]s used in the transaction
+     * @param memo Optional {@link https://github.com/feross/buffer|Buffer} of arbitrary data, max length 256
      */
   constructor(
     networkid:number = 3, blockchainid:Buffer = Buffer.alloc(32, 16),
     outs:Array<TransferableOutput> = undefined, ins:Array<TransferableInput> = undefined,
-    ops:Array<TransferableOperation> = undefined,
+    ops:Array<TransferableOperation> = undefined, memo:Buffer = undefined,
   ) {
-    super(networkid, blockchainid, outs, ins);
+    super(networkid, blockchainid, outs, ins, memo);
     if (typeof ops !== 'undefined' && Array.isArray(ops)) {
       for (let i = 0; i < ops.length; i++) {
         if (!(ops[i] instanceof TransferableOperation)) {
@@ -431,6 +606,44 @@ export class UnsignedTx {
     return Buffer.concat([txtype, basebuff], txtype.length + basebuff.length);
   }
 
+  /**
+     * Returns the JSON representation of the [[UnsignedTx]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():any {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[UnsignedTx]], which is that of its transaction.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return this.transaction.serialize(chainid, codec);
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[UnsignedTx]] as returned by [[UnsignedTx.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.transaction = SelectTxClass(json.txType).fromJSON(json, codec);
+    return this;
+  }
+
+  /**
+     * Returns the exact size in bytes of the [[Tx]] resulting from signing this [[UnsignedTx]].
+     *
+     * @remarks
+     * Each [[Credential]] is serialized as its ID, its signature count and its signatures.
+     */
+  getSignedSize():number {
+    const sigsize:number = new Signature().getSize();
+    const credsize:number = this.transaction.getSigCounts()
+      .reduce((size:number, numsigs:number) => size + 8 + numsigs * sigsize, 0);
+    return this.toBuffer().length + 4 + credsize;
+  }
+
   /**
      * Signs this [[UnsignedTx]] and returns signed [[Tx]]
      *
@@ -438,11 +651,36 @@ export class UnsignedTx {
      *
      * @returns A signed [[Tx]]
      */
-  sign(kc:AVMKeyChain):Tx {
+  sign(kc:AVMKeyChain):Tx;
+
+  /**
+     * Signs this [[UnsignedTx]] with a [[Signer]], requesting one signature at a time.
+     *
+     * @param signer A [[Signer]] able to sign for every address in the transaction's [[SigIdx]]s
+     *
+     * @returns A promise for the signed [[Tx]]
+     */
+  sign(signer:Signer):Promise<Tx>;
+
+  sign(signer:AVMKeyChain | Signer):Tx | Promise<Tx> {
     const txbuff = this.toBuffer();
     const msg:Buffer = Buffer.from(createHash('sha256').update(txbuff).digest());
-    const sigs:Array<Credential> = this.transaction.sign(msg, kc);
-    return new Tx(this, sigs);
+    if (signer instanceof AVMKeyChain) {
+      const sigs:Array<Credential> = this.transaction.sign(msg, signer);
+      return new Tx(this, sigs);
+    }
+    const creds:Array<Credential> = this.transaction.getCredentialIDs().map((credid) => SelectCredentialClass(credid));
+    const sigidxs:Array<Array<SigIdx>> = this.transaction.getSigIdxs();
+    let chain:Promise<void> = Promise.resolve();
+    for (let i = 0; i < sigidxs.length; i++) {
+      for (let j = 0; j < sigidxs[i].length; j++) {
+        chain = chain.then(() => requestSignature(signer, msg, sigidxs[i][j].getSource(), 'UnsignedTx.sign'))
+          .then((sig:Signature) => {
+            creds[i].addSignature(sig);
+          });
+      }
+    }
+    return chain.then(() => new Tx(this, creds));
   }
 
   constructor(transaction:BaseTx = undefined) {
@@ -458,6 +696,70 @@ export class Tx {
 
   protected credentials:Array<Credential> = [];
 
+  /**
+     * Returns the [[UnsignedTx]] of the [[Tx]]
+     */
+  getUnsignedTx = ():UnsignedTx => this.unsignedTx;
+
+  /**
+     * Returns the array of [[Credential]]s of the [[Tx]]
+     */
+  getCredentials = ():Array<Credential> => this.credentials;
+
+  /**
+     * Recovers the address of every signer from the [[Credential]]s, one array per [[Credential]] in the same order as its signatures.
+     */
+  getSigners():Array<Array<Buffer>> {
+    const msg:Buffer = Buffer.from(createHash('sha256').update(this.unsignedTx.toBuffer()).digest());
+    const keypair:AVMKeyPair = new AVMKeyPair('');
+    return this.credentials.map((cred) => cred.getSignatures()
+      .map((sig) => keypair.addressFromPublicKey(keypair.recover(msg, sig.toBuffer()))));
+  }
+
+  /**
+     * Checks that the [[Tx]] holds one [[Credential]] per input and operation, with one valid signature per [[SigIdx]].
+     *
+     * @returns True if the credentials are well formed, the [[SigIdx]]s of every input and operation are strictly
+     * increasing, and every signature is canonical and recovers to a public key
+     *
+     * @remarks
+     * As on the AVM, an owner may not be referenced twice by the same input or operation, otherwise a single signer
+     * could be counted more than once towards an output's threshold.
+     *
+     * The [[SigIdx]]s of a parsed [[Tx]] only hold indices into the spent outputs' addresses, so the signers can only
+     * be matched against the spent UTXOs' owners with [[UTXOSet.verifyTx]]. When the [[SigIdx]]s carry their source
+     * address, as they do for transactions built by a [[UTXOSet]], the signers are also checked against them.
+     */
+  verify():boolean {
+    const basetx:BaseTx = this.unsignedTx.getTransaction();
+    let signers:Array<Array<Buffer>>;
+    try {
+      signers = this.getSigners();
+    } catch (e) {
+      return false;
+    }
+    const sigidxs:Array<Array<SigIdx>> = basetx.getSigIdxs();
+    const credids:Array<number> = basetx.getCredentialIDs();
+    if (this.credentials.length !== sigidxs.length) {
+      return false;
+    }
+    for (let i = 0; i < sigidxs.length; i++) {
+      if (this.credentials[i].getCredentialID() !== credids[i] || signers[i].length !== sigidxs[i].length) {
+        return false;
+      }
+      for (let j = 0; j < sigidxs[i].length; j++) {
+        if (j > 0 && sigidxs[i][j].toBuffer().readUInt32BE(0) <= sigidxs[i][j - 1].toBuffer().readUInt32BE(0)) {
+          return false;
+        }
+        const source:Buffer = sigidxs[i][j].getSource();
+        if (typeof source !== 'undefined' && source.compare(signers[i][j]) !== 0) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
   /**
      * Takes a {@link https://github.com/feross/buffer|Buffer} containing an [[Tx]], parses it, populates the class, and returns the length of the Tx in bytes.
      *
@@ -529,6 +831,39 @@ export class Tx {
     return bintools.avaSerialize(this.toBuffer());
   }
 
+  /**
+     * Returns the JSON representation of the [[Tx]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():any {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[Tx]].
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     *
+     * @remarks
+     * Addresses are formatted with the [[AddressCodec]], amounts and locktimes are decimal strings, and IDs,
+     * payloads, memos and signatures are in AVA serialization format.
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      unsignedTx: this.unsignedTx.serialize(chainid, codec),
+      credentials: this.credentials.map((cred) => cred.toJSON()),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[Tx]] as returned by [[Tx.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.unsignedTx = new UnsignedTx().fromJSON(json.unsignedTx, codec);
+    this.credentials = json.credentials.map((cred:any) => SelectCredentialClass(cred.credentialID).fromJSON(cred));
+    return this;
+  }
+
   /**
      * Class representing a signed transaction.
      *
@@ -545,6 +880,317 @@ export class Tx {
   }
 }
 
+/**
+ * Class representing a transaction signed by some, but not necessarily all, of its required signers.
+ *
+ * @remarks
+ * Each signer calls [[PartiallySignedTx.sign]] with their own [[AVMKeyChain]] or [[Signer]], the copies are combined with
+ * [[PartiallySignedTx.merge]], and [[PartiallySignedTx.finalize]] returns the [[Tx]] once every signature is present.
+ */
+export class PartiallySignedTx {
+  protected unsignedTx:UnsignedTx = new UnsignedTx();
+
+  protected credentialIDs:Array<number> = [];
+
+  protected sigIdxs:Array<Array<SigIdx>> = [];
+
+  protected signatures:Array<Array<Signature>> = [];
+
+  /**
+     * Returns the [[UnsignedTx]] being signed
+     */
+  getUnsignedTx = ():UnsignedTx => this.unsignedTx;
+
+  /**
+     * Returns the addresses whose signatures are still missing.
+     */
+  getMissingSigners = ():Array<Buffer> => {
+    const missing:{[address: string]: Buffer} = {};
+    for (let i = 0; i < this.sigIdxs.length; i++) {
+      for (let j = 0; j < this.sigIdxs[i].length; j++) {
+        if (typeof this.signatures[i][j] === 'undefined') {
+          const source:Buffer = this.sigIdxs[i][j].getSource();
+          missing[source.toString('hex')] = source;
+        }
+      }
+    }
+    return Object.values(missing);
+  };
+
+  /**
+     * Returns true if every required signature is present.
+     */
+  isComplete = ():boolean => this.signatures.every((sigs) => sigs.every((sig) => typeof sig !== 'undefined'));
+
+  /**
+     * Adds every missing signature for which the [[AVMKeyChain]] holds a key.
+     *
+     * @param kc An [[AVMKeyChain]] holding some of the required keys
+     *
+     * @returns The number of signatures added
+     */
+  sign(kc:AVMKeyChain):number;
+
+  /**
+     * Adds every missing signature for which the [[Signer]] holds a key, requesting one signature at a time.
+     *
+     * @param signer A [[Signer]] holding some of the required keys
+     *
+     * @returns A promise for the number of signatures added
+     */
+  sign(signer:Signer):Promise<number>;
+
+  sign(signer:AVMKeyChain | Signer):number | Promise<number> {
+    const msg:Buffer = Buffer.from(createHash('sha256').update(this.unsignedTx.toBuffer()).digest());
+    if (signer instanceof AVMKeyChain) {
+      let added:number = 0;
+      for (let i = 0; i < this.sigIdxs.length; i++) {
+        for (let j = 0; j < this.sigIdxs[i].length; j++) {
+          const source:Buffer = this.sigIdxs[i][j].getSource();
+          if (typeof this.signatures[i][j] === 'undefined' && signer.hasKey(source)) {
+            const sig:Signature = new Signature();
+            sig.fromBuffer(signer.getKey(source).sign(msg));
+            this.signatures[i][j] = sig;
+            added += 1;
+          }
+        }
+      }
+      return added;
+    }
+    const held:Array<string> = signer.getAddresses().map((a) => a.toString('hex'));
+    let chain:Promise<number> = Promise.resolve(0);
+    for (let i = 0; i < this.sigIdxs.length; i++) {
+      for (let j = 0; j < this.sigIdxs[i].length; j++) {
+        const source:Buffer = this.sigIdxs[i][j].getSource();
+        if (typeof this.signatures[i][j] === 'undefined' && held.indexOf(source.toString('hex')) !== -1) {
+          chain = chain.then((added:number) => requestSignature(signer, msg, source, 'PartiallySignedTx.sign')
+            .then((sig:Signature) => {
+              this.signatures[i][j] = sig;
+              return added + 1;
+            }));
+        }
+      }
+    }
+    return chain;
+  }
+
+  /**
+     * Copies the signatures of another [[PartiallySignedTx]] for the same [[UnsignedTx]] into this one.
+     *
+     * @param ptx The [[PartiallySignedTx]] to merge
+     *
+     * @remarks
+     * Cosigners may not be trusted, so every copied signature must recover to the source address of its [[SigIdx]].
+     * Nothing is copied if any signature fails this check.
+     */
+  merge(ptx:PartiallySignedTx):void {
+    if (ptx.getUnsignedTx().toBuffer().toString('hex') !== this.unsignedTx.toBuffer().toString('hex')) {
+      throw new Error('Error - PartiallySignedTx.merge: transactions do not match');
+    }
+    const msg:Buffer = Buffer.from(createHash('sha256').update(this.unsignedTx.toBuffer()).digest());
+    const keypair:AVMKeyPair = new AVMKeyPair('');
+    const theirs:Array<Array<Signature>> = ptx.getSignatures();
+    const merged:Array<Array<Signature>> = this.getSignatures();
+    for (let i = 0; i < merged.length; i++) {
+      for (let j = 0; j < merged[i].length; j++) {
+        if (typeof merged[i][j] === 'undefined' && typeof theirs[i][j] !== 'undefined') {
+          const source:Buffer = this.sigIdxs[i][j].getSource();
+          let signer:Buffer;
+          try {
+            signer = keypair.addressFromPublicKey(keypair.recover(msg, theirs[i][j].toBuffer()));
+          } catch (e) {
+            signer = undefined;
+          }
+          if (typeof signer === 'undefined' || signer.compare(source) !== 0) {
+            throw new Error(`Error - PartiallySignedTx.merge: signature ${j} of credential ${i} `
+            + `is not from ${source.toString('hex')}`);
+          }
+          merged[i][j] = theirs[i][j];
+        }
+      }
+    }
+    this.signatures = merged;
+  }
+
+  /**
+     * Returns the signatures collected so far, one array per [[Credential]], with undefined for missing signatures.
+     */
+  getSignatures = ():Array<Array<Signature>> => this.signatures.map((sigs) => sigs.slice());
+
+  /**
+     * Returns the signed [[Tx]] once every required signature is present.
+     */
+  finalize():Tx {
+    if (!this.isComplete()) {
+      throw new Error('Error - PartiallySignedTx.finalize: missing signatures from '
+      + `${this.getMissingSigners().map((a) => a.toString('hex')).join(', ')}`);
+    }
+    const creds:Array<Credential> = [];
+    for (let i = 0; i < this.credentialIDs.length; i++) {
+      const cred:Credential = SelectCredentialClass(this.credentialIDs[i]);
+      for (let j = 0; j < this.signatures[i].length; j++) {
+        cred.addSignature(this.signatures[i][j]);
+      }
+      creds.push(cred);
+    }
+    return new Tx(this.unsignedTx, creds);
+  }
+
+  /**
+     * Takes a {@link https://github.com/feross/buffer|Buffer} containing a [[PartiallySignedTx]], parses it, populates the class, and returns the length of the PartiallySignedTx in bytes.
+     *
+     * @param bytes A {@link https://github.com/feross/buffer|Buffer} containing a raw [[PartiallySignedTx]]
+     * @param offset A number representing the starting point of the bytes to begin parsing
+     *
+     * @returns The length of the raw [[PartiallySignedTx]]
+     */
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.unsignedTx = new UnsignedTx();
+    offset = this.unsignedTx.fromBuffer(bytes, offset);
+    const txsigidxs:Array<Array<SigIdx>> = this.unsignedTx.getTransaction().getSigIdxs();
+    const numcreds:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    if (numcreds !== txsigidxs.length) {
+      throw new Error('Error - PartiallySignedTx.fromBuffer: credential count does not match the transaction');
+    }
+    this.credentialIDs = [];
+    this.sigIdxs = [];
+    this.signatures = [];
+    for (let i = 0; i < numcreds; i++) {
+      const credid:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+      offset += 4;
+      if (credid !== this.unsignedTx.getTransaction().getCredentialIDs()[i]) {
+        throw new Error(`Error - PartiallySignedTx.fromBuffer: credential ID ${credid} does not match the transaction`);
+      }
+      this.credentialIDs.push(credid);
+      const numsigs:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+      offset += 4;
+      if (numsigs !== txsigidxs[i].length) {
+        throw new Error('Error - PartiallySignedTx.fromBuffer: signature count does not match the transaction');
+      }
+      const sigs:Array<Signature> = [];
+      for (let j = 0; j < numsigs; j++) {
+        txsigidxs[i][j].setSource(bintools.copyFrom(bytes, offset, offset + AVMConstants.ADDRESSLENGTH));
+        offset += AVMConstants.ADDRESSLENGTH;
+        const present:number = bintools.copyFrom(bytes, offset, offset + 1).readUInt8(0);
+        offset += 1;
+        if (present) {
+          const sig:Signature = new Signature();
+          offset = sig.fromBuffer(bytes, offset);
+          sigs.push(sig);
+        } else {
+          sigs.push(undefined);
+        }
+      }
+      this.sigIdxs.push(txsigidxs[i]);
+      this.signatures.push(sigs);
+    }
+    return offset;
+  }
+
+  /**
+     * Returns a {@link https://github.com/feross/buffer|Buffer} representation of the [[PartiallySignedTx]].
+     *
+     * @remarks
+     * Unlike a [[Tx]], the source address of every [[SigIdx]] is included so other signers know which keys are needed.
+     */
+  toBuffer():Buffer {
+    const barr:Array<Buffer> = [this.unsignedTx.toBuffer()];
+    const numcreds:Buffer = Buffer.alloc(4);
+    numcreds.writeUInt32BE(this.credentialIDs.length, 0);
+    barr.push(numcreds);
+    for (let i = 0; i < this.credentialIDs.length; i++) {
+      const credhead:Buffer = Buffer.alloc(8);
+      credhead.writeUInt32BE(this.credentialIDs[i], 0);
+      credhead.writeUInt32BE(this.sigIdxs[i].length, 4);
+      barr.push(credhead);
+      for (let j = 0; j < this.sigIdxs[i].length; j++) {
+        const present:Buffer = Buffer.alloc(1);
+        present.writeUInt8(typeof this.signatures[i][j] !== 'undefined' ? 1 : 0, 0);
+        barr.push(this.sigIdxs[i][j].getSource(), present);
+        if (typeof this.signatures[i][j] !== 'undefined') {
+          barr.push(this.signatures[i][j].toBuffer());
+        }
+      }
+    }
+    return Buffer.concat(barr);
+  }
+
+  /**
+     * Takes a base-58 string containing a [[PartiallySignedTx]], parses it, populates the class, and returns the length of the PartiallySignedTx in bytes.
+     *
+     * @param serialized A base-58 string containing a raw [[PartiallySignedTx]]
+     *
+     * @returns The length of the raw [[PartiallySignedTx]]
+     */
+  fromString(serialized:string):number {
+    return this.fromBuffer(bintools.avaDeserialize(serialized));
+  }
+
+  /**
+     * Returns a base-58 AVA-serialized representation of the [[PartiallySignedTx]].
+     */
+  toString():string {
+    return bintools.avaSerialize(this.toBuffer());
+  }
+
+  /**
+     * @ignore
+     */
+  protected _resolveSources(utxoset:UTXOSet):void {
+    const basetx:BaseTx = this.unsignedTx.getTransaction();
+    // the first UTXO spent by each credential, inputs first then operations, matching the order of the credentials
+    const spent:Array<string> = basetx.getIns().map((xferin) => xferin.getUTXOID());
+    if (basetx instanceof OperationTx) {
+      basetx.getOperations().forEach((op) => {
+        spent.push(bintools.bufferToB58(op.getUTXOIDs()[0].toBuffer()));
+      });
+    }
+    for (let i = 0; i < this.sigIdxs.length; i++) {
+      const utxo:UTXO = utxoset.getUTXO(spent[i]);
+      for (let j = 0; j < this.sigIdxs[i].length; j++) {
+        const idx:number = this.sigIdxs[i][j].toBuffer().readUInt32BE(0);
+        if (typeof this.sigIdxs[i][j].getSource() === 'undefined' && typeof utxo !== 'undefined'
+          && idx < utxo.getOutput().getAddresses().length) {
+          this.sigIdxs[i][j].setSource(utxo.getOutput().getAddress(idx));
+        }
+      }
+    }
+  }
+
+  /**
+     * Class representing a partially signed transaction.
+     *
+     * @param unsignedTx Optional [[UnsignedTx]] built by a [[UTXOSet]] builder, so its [[SigIdx]]s know their source addresses
+     * @param utxoset Optional. A [[UTXOSet]] holding the spent UTXOs, used to find the source addresses of an
+     * [[UnsignedTx]] parsed from bytes
+     *
+     * @remarks
+     * Every [[SigIdx]] must have a source address, otherwise the required signers are unknown and an error is thrown.
+     */
+  constructor(unsignedTx:UnsignedTx = undefined, utxoset:UTXOSet = undefined) {
+    if (typeof unsignedTx !== 'undefined') {
+      this.unsignedTx = unsignedTx;
+      // serializing sorts the inputs, which fixes the order of the credentials
+      unsignedTx.toBuffer();
+      this.credentialIDs = unsignedTx.getTransaction().getCredentialIDs();
+      this.sigIdxs = unsignedTx.getTransaction().getSigIdxs();
+      if (typeof utxoset !== 'undefined') {
+        this._resolveSources(utxoset);
+      }
+      for (let i = 0; i < this.sigIdxs.length; i++) {
+        for (let j = 0; j < this.sigIdxs[i].length; j++) {
+          if (typeof this.sigIdxs[i][j].getSource() === 'undefined') {
+            throw new Error(`Error - PartiallySignedTx: signature ${j} of credential ${i} has no source address, `
+            + 'pass the UTXOSet holding the spent UTXOs');
+          }
+        }
+      }
+      this.signatures = this.sigIdxs.map((sigidxs) => sigidxs.map(():Signature => undefined));
+    }
+  }
+}
+
 /**
  * Takes a buffer representing the output and returns the proper [[BaseTx]] instance.
  *
@@ -566,3 +1212,18 @@ export const SelectTxClass = (txtype:number, ...args:Array<any>):BaseTx => {
   /* istanbul ignore next */
   throw new Error(`Error - SelectTxClass: unknown txtype ${txtype}`);
 };
+
+/**
+ * Decodes an AVA-serialized [[Tx]] into a human-readable JSON representation, see [[Tx.serialize]].
+ *
+ * @param serialized A base-58 string containing a raw [[Tx]] in AVA serialization format
+ * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+ * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+ *
+ * @returns A JSON representation of the [[Tx]]
+ */
+export const decodeTx = (serialized:string, chainid:string = 'X', codec:AddressCodec = undefined):any => {
+  const tx:Tx = new Tx();
+  tx.fromString(serialized);
+  return tx.serialize(chainid, codec);
+};
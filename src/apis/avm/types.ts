@@ -5,6 +5,7 @@
 import { Buffer } from 'buffer/';
 import BN from 'bn.js';
 import BinTools from '../../utils/bintools';
+import { AddressCodec } from '../../utils/addresscodec';
 
 import { NBytes } from '../../utils/types';
 import { Output, SelectOutputClass } from './outputs';
@@ -17,12 +18,22 @@ const bintools:BinTools = BinTools.getInstance();
 export class AVMConstants {
   static SECPFXID:number = 0;
 
+  static NFTFXID:number = 1;
+
+  static SECPMINTOUTPUTID:number = 6;
+
   static SECPOUTPUTID:number = 7;
 
+  static NFTMINTOUTPUTID:number = 10;
+
   static NFTXFEROUTPUTID:number = 11;
 
   static SECPINPUTID:number = 5;
 
+  static SECPMINTOP:number = 8;
+
+  static NFTMINTOP:number = 12;
+
   static NFTXFEROP:number = 13;
 
   static BASETX:number = 0;
@@ -44,6 +55,18 @@ export class AVMConstants {
   static ASSETNAMELEN:number = 128;
 
   static ADDRESSLENGTH:number = 20;
+
+  static NFTPAYLOADMAXLEN:number = 1024;
+
+  static MEMOMAXLEN:number = 256;
+
+  static UTXOFILEVERSION:number = 1;
+
+  static KEYCHAINFILEVERSION:number = 1;
+
+  static KEYCHAINKDFITERATIONS:number = 100000;
+
+  static KEYCHAINKDFMAXITERATIONS:number = 10000000;
 }
 
 /**
@@ -261,9 +284,58 @@ export class InitialStates {
     return Buffer.concat(buff);
   }
 
+  /**
+     * Returns the JSON representation of the [[InitialStates]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():any {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[InitialStates]], keyed by FxID.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    const result:any = {};
+    const keys:Array<string> = Object.keys(this.fxs);
+    for (let i = 0; i < keys.length; i++) {
+      result[keys[i]] = this.fxs[keys[i]].map((out:Output) => out.serialize(chainid, codec));
+    }
+    return result;
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[InitialStates]] as returned by [[InitialStates.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.fxs = {};
+    const keys:Array<string> = Object.keys(json);
+    for (let i = 0; i < keys.length; i++) {
+      this.fxs[parseInt(keys[i], 10)] = json[keys[i]].map((out:any) => SelectOutputClass(out.outputID).fromJSON(out, codec));
+    }
+    return this;
+  }
+
   constructor() {}
 }
 
+/**
+ * Class describing a single payment in a batch transaction, see [[UTXOSet.buildBatchTx]].
+ */
+export class Payment {
+  assetID:Buffer;
+
+  amount:BN;
+
+  toAddresses:Array<Buffer>;
+
+  locktime?:BN;
+
+  threshold?:number;
+}
+
 /**
  * Rules used when merging sets
  */
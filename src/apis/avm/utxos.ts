@@ -5,17 +5,23 @@
 import { Buffer } from 'buffer/';
 import BN from 'bn.js';
 import BinTools from '../../utils/bintools';
+import { AddressCodec } from '../../utils/addresscodec';
 import {
   Output, AmountOutput, SelectOutputClass, TransferableOutput, NFTTransferOutput,
+  SecpOutput, SecpMintOutput, NFTMintOutput, OutputOwners,
 } from './outputs';
 import {
-  MergeRule, UnixNow, AVMConstants, InitialStates,
+  MergeRule, UnixNow, AVMConstants, InitialStates, Payment, SigIdx,
 } from './types';
 import {
-  UnsignedTx, CreateAssetTx, OperationTx, BaseTx,
+  UnsignedTx, CreateAssetTx, OperationTx, BaseTx, Tx,
 } from './tx';
 import { SecpInput, TransferableInput } from './inputs';
-import { NFTTransferOperation, TransferableOperation } from './ops';
+import {
+  NFTTransferOperation, NFTMintOperation, SecpMintOperation, TransferableOperation,
+} from './ops';
+import { CoinSelector } from './selectors';
+import { FeePolicy } from './fees';
 
 /**
  * @ignore
@@ -123,6 +129,40 @@ export class UTXO {
     return bintools.avaSerialize(this.toBuffer());
   }
 
+  /**
+     * Returns the JSON representation of the [[UTXO]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():any {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[UTXO]], with IDs in AVA serialization format.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):any {
+    return {
+      txID: bintools.avaSerialize(this.txid),
+      outputIndex: this.outputidx.readUInt32BE(0),
+      assetID: bintools.avaSerialize(this.assetid),
+      output: this.output.serialize(chainid, codec),
+    };
+  }
+
+  /**
+     * Popuates the instance from a JSON representation of the [[UTXO]] as returned by [[UTXO.serialize]].
+     */
+  fromJSON(json:any, codec:AddressCodec = undefined):this {
+    this.txid = bintools.avaDeserialize(json.txID);
+    this.outputidx = Buffer.alloc(4);
+    this.outputidx.writeUInt32BE(json.outputIndex, 0);
+    this.assetid = bintools.avaDeserialize(json.assetID);
+    this.output = SelectOutputClass(json.output.outputID).fromJSON(json.output, codec);
+    return this;
+  }
+
   /**
      * Class for representing a single UTXO.
      *
@@ -339,6 +379,34 @@ export class UTXOSet {
     return results;
   };
 
+  /**
+     * Returns the JSON representation of the [[UTXOSet]] for the 'X' chain, as used by JSON.stringify, see [[serialize]].
+     */
+  toJSON():Array<any> {
+    return this.serialize();
+  }
+
+  /**
+     * Returns a JSON representation of the [[UTXOSet]] as an array of [[UTXO]]s, sorted by UTXOID.
+     *
+     * @param chainid Optional. The chain alias prefixed to each address, default 'X'
+     * @param codec Optional. The [[AddressCodec]] formatting the addresses, default base58
+     */
+  serialize(chainid:string = 'X', codec:AddressCodec = undefined):Array<any> {
+    return Object.keys(this.utxos).sort()
+      .map((utxoid) => this.utxos[utxoid].serialize(chainid, codec));
+  }
+
+  /**
+     * Replaces the contents of the [[UTXOSet]] with the [[UTXO]]s of a JSON representation as returned by [[UTXOSet.serialize]].
+     */
+  fromJSON(json:Array<any>, codec:AddressCodec = undefined):this {
+    this.utxos = {};
+    this.addressUTXOs = {};
+    this.addArray(json.map((utxo:any) => new UTXO().fromJSON(utxo, codec)));
+    return this;
+  }
+
   /**
      * Given an address or array of addresses, returns all the UTXOIDs for those addresses
      *
@@ -428,6 +496,82 @@ export class UTXOSet {
     return [...results];
   };
 
+  /**
+     * @ignore
+     */
+  protected _applyFeePolicy(policy:FeePolicy, build:(fee:BN) => UnsignedTx, caller:string):UnsignedTx {
+    // adding inputs to pay a higher fee grows the transaction, so rebuild until the fee paid covers the signed size
+    let fee:BN = policy.getFee(0);
+    for (let i = 0; i < 16; i++) {
+      const utx:UnsignedTx = build(fee);
+      const needed:BN = policy.calculateFee(utx);
+      if (needed.lte(fee)) {
+        return utx;
+      }
+      fee = needed;
+    }
+    /* istanbul ignore next */
+    throw new Error(`Error - UTXOSet.${caller}: fee policy did not converge`);
+  }
+
+  /**
+     * @ignore
+     */
+  protected _makeInput(utxo:UTXO, fromAddresses:Array<Buffer>, asOf:BN, caller:string):TransferableInput {
+    const output:AmountOutput = utxo.getOutput() as AmountOutput;
+    const input:SecpInput = new SecpInput(output.getAmount().clone());
+    const xferin:TransferableInput = new TransferableInput(utxo.getTxID(), utxo.getOutputIdx(), utxo.getAssetID(), input);
+    const spenders:Array<Buffer> = output.getSpenders(fromAddresses, asOf);
+    for (let j = 0; j < spenders.length; j++) {
+      const idx:number = output.getAddressIdx(spenders[j]);
+      if (idx === -1) {
+        /* istanbul ignore next */
+        throw new Error(`Error - UTXOSet.${caller}: no such `
+        + `address in output: ${spenders[j]}`);
+      }
+      xferin.getInput().addSignatureIdx(idx, spenders[j]);
+    }
+    return xferin;
+  }
+
+  /**
+     * @ignore
+     */
+  protected _spendAmount(
+    assetID:Buffer, amount:BN, utxos:Array<UTXO>, fromAddresses:Array<Buffer>, changeAddresses:Array<Buffer>,
+    asOf:BN, outputID:number, ins:Array<TransferableInput>, outs:Array<TransferableOutput>, caller:string,
+    selector:CoinSelector = undefined,
+  ):void {
+    const zero:BN = new BN(0);
+    let spendamount:BN = zero.clone();
+    let selected:Array<UTXO> = utxos.filter((u) => u.getOutput() instanceof AmountOutput
+      && (
+        assetID === undefined
+        || u.getAssetID().compare(assetID) === 0
+      )
+      && u.getOutput().meetsThreshold(fromAddresses, asOf));
+    if (typeof selector !== 'undefined') {
+      selected = selector.select(selected, amount);
+    }
+    for (let i = 0; i < selected.length && spendamount.lt(amount); i++) {
+      spendamount = spendamount.add((selected[i].getOutput() as AmountOutput).getAmount());
+      ins.push(this._makeInput(selected[i], fromAddresses, asOf, caller));
+    }
+
+    if (spendamount.lt(amount)) {
+      const assetStr:string = assetID ? ` of assetID ${bintools.avaSerialize(assetID)}` : '';
+      throw new Error(`Error - UTXOSet.${caller}: insufficient `
+      + `funds${assetStr} to create the transaction`);
+    }
+    const change:BN = spendamount.sub(amount);
+    if (change.gt(zero) && assetID) {
+      const changeout:AmountOutput = SelectOutputClass(outputID,
+        change, zero.clone(),
+        1, changeAddresses) as AmountOutput;
+      outs.push(new TransferableOutput(assetID, changeout));
+    }
+  }
+
   /**
      * Creates an [[UnsignedTx]] wrapping a [[BaseTx]]. For more granular control, you may create your own
      * [[UnsignedTx]] wrapping a [[BaseTx]] manually (with their corresponding [[TransferableInput]]s and [[TransferableOutput]]s).
@@ -442,9 +586,15 @@ export class UTXOSet {
      * @param locktime Optional. The locktime field created in the resulting outputs
      * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
      * @param outputID Optional. The outputID used for this transaction, must implement AmountOutput, default AVMConstants.SECPOUTPUTID
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} of arbitrary data attached to the transaction, max length 256
+     * @param fee Optional. The amount of fees to burn in this transaction, or a [[FeePolicy]] to compute it from the signed size, default 0
+     * @param feeAssetID Optional. The assetID of the fees being burned, defaults to assetID
+     * @param selector Optional. The [[CoinSelector]] choosing which UTXOs are spent, defaults to the first spendable UTXOs found
      *
      * @returns An unsigned transaction created from the passed in parameters.
      *
+     * @remarks
+     * When the fee is paid in a different asset than the one being sent, inputs and change are created for both assets.
      */
   buildBaseTx = (
     networkid:number,
@@ -458,11 +608,19 @@ export class UTXOSet {
     locktime:BN = new BN(0),
     threshold:number = 1,
     outputID = AVMConstants.SECPOUTPUTID,
+    memo:Buffer = undefined,
+    fee:BN | FeePolicy = new BN(0),
+    feeAssetID:Buffer = undefined,
+    selector:CoinSelector = undefined,
   ):UnsignedTx => {
+    if (fee instanceof FeePolicy) {
+      return this._applyFeePolicy(fee, (f:BN) => this.buildBaseTx(
+        networkid, blockchainid, amount, toAddresses, fromAddresses, changeAddresses, assetID,
+        asOf, locktime, threshold, outputID, memo, f, feeAssetID, selector,
+      ), 'buildBaseTx');
+    }
     const zero:BN = new BN(0);
-    let spendamount:BN = zero.clone();
     const utxos:Array<UTXO> = this.getAllUTXOs(this.getUTXOIDs(fromAddresses));
-    let change:BN = zero.clone();
 
     const outs:Array<TransferableOutput> = [];
     const ins:Array<TransferableInput> = [];
@@ -472,6 +630,13 @@ export class UTXOSet {
       + `implement AmountOutput: ${outputID}`);
     }
 
+    const feeSameAsset:boolean = typeof feeAssetID === 'undefined'
+      || (typeof assetID !== 'undefined' && feeAssetID.compare(assetID) === 0);
+    let spendamount:BN = amount.clone();
+    if (feeSameAsset) {
+      spendamount = spendamount.add(fee);
+    }
+
     if (!amount.eq(zero)) {
       const sndout:AmountOutput = SelectOutputClass(outputID,
         amount,
@@ -480,61 +645,254 @@ export class UTXOSet {
         toAddresses) as AmountOutput;
       const mainXferout:TransferableOutput = new TransferableOutput(assetID, sndout);
       outs.push(mainXferout);
-      for (let i = 0; i < utxos.length && spendamount.lt(amount); i++) {
-        if (
-          utxos[i].getOutput() instanceof AmountOutput
-                    && (
-                      assetID === undefined
-                        || utxos[i].getAssetID().compare(assetID) === 0
-                    )
-                    && utxos[i].getOutput().meetsThreshold(fromAddresses, asOf)
-        ) {
-          const output:AmountOutput = utxos[i].getOutput() as AmountOutput;
-          const amt:BN = output.getAmount().clone();
-          spendamount = spendamount.add(amt);
-          change = spendamount.sub(amount);
-          change = change.gt(zero) ? change : zero.clone();
-
-          const txid:Buffer = utxos[i].getTxID();
-          const outputidx:Buffer = utxos[i].getOutputIdx();
-          const input:SecpInput = new SecpInput(amt);
-          const xferin:TransferableInput = new TransferableInput(txid, outputidx, assetID, input);
-          const spenders:Array<Buffer> = output.getSpenders(fromAddresses, asOf);
-          for (let j = 0; j < spenders.length; j++) {
-            const idx:number = output.getAddressIdx(spenders[j]);
-            if (idx === -1) {
-              /* istanbul ignore next */
-              throw new Error('Error - UTXOSet.buildBaseTx: no such '
-              + `address in output: ${spenders[j]}`);
-            }
-            xferin.getInput().addSignatureIdx(idx, spenders[j]);
-          }
-          ins.push(xferin);
-
-          if (change.gt(zero)) {
-            if (assetID) {
-              const changeout:AmountOutput = SelectOutputClass(outputID,
-                change, zero.clone(),
-                1, changeAddresses) as AmountOutput;
-              const xferout:TransferableOutput = new TransferableOutput(assetID, changeout);
-              outs.push(xferout);
-            }
-            break;
-          }
-          /* istanbul ignore next */
-          if (spendamount.gte(amount)) {
-            break;
-          }
-        }
+    }
+    if (!spendamount.eq(zero)) {
+      this._spendAmount(assetID, spendamount, utxos, fromAddresses, changeAddresses, asOf, outputID, ins, outs, 'buildBaseTx', selector);
+    }
+    if (!feeSameAsset && fee.gt(zero)) {
+      this._spendAmount(feeAssetID, fee, utxos, fromAddresses, changeAddresses, asOf, AVMConstants.SECPOUTPUTID, ins, outs, 'buildBaseTx', selector);
+    }
+    const baseTx:BaseTx = new BaseTx(networkid, blockchainid, outs, ins, memo);
+    return new UnsignedTx(baseTx);
+  };
+
+  /**
+     * Creates an [[UnsignedTx]] wrapping a single [[BaseTx]] which pays many recipients, possibly in many assets, at once.
+     *
+     * @param networkid The number representing NetworkID of the node
+     * @param blockchainid The {@link https://github.com/feross/buffer|Buffer} representing the BlockchainID for the transaction
+     * @param payments An array of [[Payment]]s, each resulting in one output
+     * @param fromAddresses The addresses being used to send the funds from the UTXOs {@link https://github.com/feross/buffer|Buffer}
+     * @param changeAddresses The addresses that can spend the change remaining from the spent UTXOs
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} of arbitrary data attached to the transaction, max length 256
+     * @param selector Optional. The [[CoinSelector]] choosing which UTXOs are spent, defaults to the first spendable UTXOs found
+     * @param fee Optional. The amount of fees to burn in this transaction, or a [[FeePolicy]] to compute it from the signed size, default 0
+     * @param feeAssetID Optional. The assetID of the fees being burned, defaults to the assetID of the first payment
+     *
+     * @returns An unsigned transaction created from the passed in parameters.
+     *
+     * @remarks
+     * Inputs are selected for the total of each asset across all payments plus the fee, and one change output is
+     * created per asset. The single fee covers every payment.
+     */
+  buildBatchTx = (
+    networkid:number,
+    blockchainid:Buffer,
+    payments:Array<Payment>,
+    fromAddresses:Array<Buffer>,
+    changeAddresses:Array<Buffer>,
+    asOf:BN = UnixNow(),
+    memo:Buffer = undefined,
+    selector:CoinSelector = undefined,
+    fee:BN | FeePolicy = new BN(0),
+    feeAssetID:Buffer = undefined,
+  ):UnsignedTx => {
+    if (fee instanceof FeePolicy) {
+      return this._applyFeePolicy(fee, (f:BN) => this.buildBatchTx(
+        networkid, blockchainid, payments, fromAddresses, changeAddresses, asOf, memo, selector, f, feeAssetID,
+      ), 'buildBatchTx');
+    }
+    const zero:BN = new BN(0);
+    const outs:Array<TransferableOutput> = [];
+    const ins:Array<TransferableInput> = [];
+    const totals:{[assetID: string]: BN} = {};
+    if (payments.length === 0) {
+      throw new Error('Error - UTXOSet.buildBatchTx: no payments provided');
+    }
+    for (let i = 0; i < payments.length; i++) {
+      const payment:Payment = payments[i];
+      if (!payment.amount.gt(zero)) {
+        throw new Error('Error - UTXOSet.buildBatchTx: payment amounts must be greater than zero');
       }
+      const locktime:BN = typeof payment.locktime !== 'undefined' ? payment.locktime : zero.clone();
+      const threshold:number = typeof payment.threshold !== 'undefined' ? payment.threshold : 1;
+      const sndout:SecpOutput = new SecpOutput(payment.amount, locktime, threshold, payment.toAddresses);
+      outs.push(new TransferableOutput(payment.assetID, sndout));
+      const assetKey:string = payment.assetID.toString('hex');
+      totals[assetKey] = assetKey in totals ? totals[assetKey].add(payment.amount) : payment.amount.clone();
+    }
+    if (fee.gt(zero)) {
+      const feeKey:string = (typeof feeAssetID !== 'undefined' ? feeAssetID : payments[0].assetID).toString('hex');
+      totals[feeKey] = feeKey in totals ? totals[feeKey].add(fee) : fee.clone();
+    }
 
-      if (spendamount.lt(amount)) {
-        /* istanbul ignore next */
-        throw new Error('Error - UTXOSet.buildBaseTx: insufficient'
-        + 'funds to create the transaction');
+    const utxos:Array<UTXO> = this.getAllUTXOs(this.getUTXOIDs(fromAddresses));
+    const assetKeys:Array<string> = Object.keys(totals);
+    for (let i = 0; i < assetKeys.length; i++) {
+      this._spendAmount(
+        Buffer.from(assetKeys[i], 'hex'), totals[assetKeys[i]], utxos, fromAddresses, changeAddresses,
+        asOf, AVMConstants.SECPOUTPUTID, ins, outs, 'buildBatchTx', selector,
+      );
+    }
+    const baseTx:BaseTx = new BaseTx(networkid, blockchainid, outs, ins, memo);
+    return new UnsignedTx(baseTx);
+  };
+
+  /**
+     * Creates an [[UnsignedTx]] wrapping a [[BaseTx]] which splits a balance into many equal outputs, so they can be spent independently.
+     *
+     * @param networkid The number representing NetworkID of the node
+     * @param blockchainid The {@link https://github.com/feross/buffer|Buffer} representing the BlockchainID for the transaction
+     * @param assetID The assetID of the value being split
+     * @param count The number of equal outputs to create
+     * @param amount The amount of each output, or the total to split when amountIsTotal is true
+     * @param toAddresses The addresses which own the resulting outputs
+     * @param fromAddresses The addresses being used to send the funds from the UTXOs {@link https://github.com/feross/buffer|Buffer}
+     * @param changeAddresses The addresses that can spend the change remaining from the spent UTXOs
+     * @param amountIsTotal Optional. When true, amount is divided by count, any remainder is left as change. Default false
+     * @param fee Optional. The amount of fees to burn in this transaction, or a [[FeePolicy]] to compute it from the signed size, default 0
+     * @param feeAssetID Optional. The assetID of the fees being burned, defaults to assetID
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param locktime Optional. The locktime field created in the resulting outputs
+     * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} of arbitrary data attached to the transaction, max length 256
+     * @param selector Optional. The [[CoinSelector]] choosing which UTXOs are spent, defaults to the first spendable UTXOs found
+     *
+     * @returns An unsigned transaction created from the passed in parameters.
+     */
+  buildSplitTx = (
+    networkid:number,
+    blockchainid:Buffer,
+    assetID:Buffer,
+    count:number,
+    amount:BN,
+    toAddresses:Array<Buffer>,
+    fromAddresses:Array<Buffer>,
+    changeAddresses:Array<Buffer>,
+    amountIsTotal:boolean = false,
+    fee:BN | FeePolicy = new BN(0),
+    feeAssetID:Buffer = undefined,
+    asOf:BN = UnixNow(),
+    locktime:BN = new BN(0),
+    threshold:number = 1,
+    memo:Buffer = undefined,
+    selector:CoinSelector = undefined,
+  ):UnsignedTx => {
+    if (fee instanceof FeePolicy) {
+      return this._applyFeePolicy(fee, (f:BN) => this.buildSplitTx(
+        networkid, blockchainid, assetID, count, amount, toAddresses, fromAddresses, changeAddresses,
+        amountIsTotal, f, feeAssetID, asOf, locktime, threshold, memo, selector,
+      ), 'buildSplitTx');
+    }
+    const zero:BN = new BN(0);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Error - UTXOSet.buildSplitTx: count must be a positive integer: ${count}`);
+    }
+    const each:BN = amountIsTotal ? amount.divn(count) : amount.clone();
+    if (!each.gt(zero)) {
+      throw new Error('Error - UTXOSet.buildSplitTx: each output must have an amount greater than zero');
+    }
+
+    const utxos:Array<UTXO> = this.getAllUTXOs(this.getUTXOIDs(fromAddresses));
+    const outs:Array<TransferableOutput> = [];
+    const ins:Array<TransferableInput> = [];
+    for (let i = 0; i < count; i++) {
+      outs.push(new TransferableOutput(assetID, new SecpOutput(each.clone(), locktime, threshold, toAddresses)));
+    }
+
+    const feeSameAsset:boolean = typeof feeAssetID === 'undefined' || feeAssetID.compare(assetID) === 0;
+    let spendamount:BN = each.muln(count);
+    if (feeSameAsset) {
+      spendamount = spendamount.add(fee);
+    }
+    this._spendAmount(assetID, spendamount, utxos, fromAddresses, changeAddresses, asOf, AVMConstants.SECPOUTPUTID, ins, outs, 'buildSplitTx', selector);
+    if (!feeSameAsset && fee.gt(zero)) {
+      this._spendAmount(feeAssetID, fee, utxos, fromAddresses, changeAddresses, asOf, AVMConstants.SECPOUTPUTID, ins, outs, 'buildSplitTx', selector);
+    }
+    const baseTx:BaseTx = new BaseTx(networkid, blockchainid, outs, ins, memo);
+    return new UnsignedTx(baseTx);
+  };
+
+  /**
+     * Creates an [[UnsignedTx]] wrapping a [[BaseTx]] which merges many spendable UTXOs into a single output per asset.
+     *
+     * @param networkid The number representing NetworkID of the node
+     * @param blockchainid The {@link https://github.com/feross/buffer|Buffer} representing the BlockchainID for the transaction
+     * @param fromAddresses The addresses whose UTXOs are consolidated
+     * @param toAddresses The addresses which own the consolidated outputs
+     * @param assetIDs Optional. An array of assetIDs to consolidate, defaults to every asset held by fromAddresses
+     * @param maxInputs Optional. The maximum number of UTXOs spent, a positive integer, defaults to no limit
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param locktime Optional. The locktime field created in the resulting outputs
+     * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} of arbitrary data attached to the transaction, max length 256
+     * @param fee Optional. The amount of fees to burn in this transaction, or a [[FeePolicy]] to compute it from the signed size, default 0
+     * @param feeAssetID Optional. The assetID of the fees being burned, required for a fee unless a single asset is consolidated
+     * @param selector Optional. The [[CoinSelector]] ordering the UTXOs, the first ones being consolidated when maxInputs limits them, defaults to smallest first
+     *
+     * @returns An unsigned transaction created from the passed in parameters.
+     *
+     * @remarks
+     * Only UTXOs holding an [[AmountOutput]] which fromAddresses can spend as of asOf are consolidated. The fee is
+     * deducted from the consolidated output of its asset, so the transaction pays for itself.
+     */
+  buildConsolidationTx = (
+    networkid:number,
+    blockchainid:Buffer,
+    fromAddresses:Array<Buffer>,
+    toAddresses:Array<Buffer>,
+    assetIDs:Array<Buffer> = undefined,
+    maxInputs:number = undefined,
+    asOf:BN = UnixNow(),
+    locktime:BN = new BN(0),
+    threshold:number = 1,
+    memo:Buffer = undefined,
+    fee:BN | FeePolicy = new BN(0),
+    feeAssetID:Buffer = undefined,
+    selector:CoinSelector = undefined,
+  ):UnsignedTx => {
+    if (fee instanceof FeePolicy) {
+      return this._applyFeePolicy(fee, (f:BN) => this.buildConsolidationTx(
+        networkid, blockchainid, fromAddresses, toAddresses, assetIDs, maxInputs, asOf, locktime, threshold, memo, f, feeAssetID, selector,
+      ), 'buildConsolidationTx');
+    }
+    if (typeof maxInputs !== 'undefined' && (!Number.isInteger(maxInputs) || maxInputs < 1)) {
+      throw new Error(`Error - UTXOSet.buildConsolidationTx: maxInputs must be a positive integer: ${maxInputs}`);
+    }
+    const assetKeys:Array<string> = typeof assetIDs !== 'undefined' ? assetIDs.map((a) => a.toString('hex')) : undefined;
+    let utxos:Array<UTXO> = this.getAllUTXOs(this.getUTXOIDs(fromAddresses))
+      .filter((u) => u.getOutput() instanceof AmountOutput
+        && (typeof assetKeys === 'undefined' || assetKeys.includes(u.getAssetID().toString('hex')))
+        && u.getOutput().meetsThreshold(fromAddresses, asOf));
+    if (typeof selector !== 'undefined') {
+      // selecting the total of every candidate orders them all
+      utxos = selector.select(utxos, utxos.reduce((total:BN, u:UTXO) => total.add((u.getOutput() as AmountOutput).getAmount()), new BN(0)));
+    } else {
+      utxos.sort((a, b) => (a.getOutput() as AmountOutput).getAmount().cmp((b.getOutput() as AmountOutput).getAmount())
+        || a.getUTXOID().localeCompare(b.getUTXOID()));
+    }
+    if (typeof maxInputs !== 'undefined') {
+      utxos = utxos.slice(0, maxInputs);
+    }
+    if (utxos.length === 0) {
+      throw new Error('Error - UTXOSet.buildConsolidationTx: no spendable UTXOs to consolidate');
+    }
+
+    const ins:Array<TransferableInput> = [];
+    const totals:{[assetID: string]: BN} = {};
+    for (let i = 0; i < utxos.length; i++) {
+      const assetKey:string = utxos[i].getAssetID().toString('hex');
+      const amt:BN = (utxos[i].getOutput() as AmountOutput).getAmount();
+      totals[assetKey] = assetKey in totals ? totals[assetKey].add(amt) : amt.clone();
+      ins.push(this._makeInput(utxos[i], fromAddresses, asOf, 'buildConsolidationTx'));
+    }
+    if (fee.gt(new BN(0))) {
+      if (typeof feeAssetID === 'undefined' && Object.keys(totals).length > 1) {
+        throw new Error('Error - UTXOSet.buildConsolidationTx: feeAssetID is required to consolidate several assets');
+      }
+      const feeKey:string = typeof feeAssetID !== 'undefined' ? feeAssetID.toString('hex') : Object.keys(totals)[0];
+      if (!(feeKey in totals) || totals[feeKey].lt(fee)) {
+        throw new Error('Error - UTXOSet.buildConsolidationTx: insufficient funds of assetID '
+        + `${bintools.avaSerialize(Buffer.from(feeKey, 'hex'))} to pay the fee`);
       }
+      totals[feeKey] = totals[feeKey].sub(fee);
     }
-    const baseTx:BaseTx = new BaseTx(networkid, blockchainid, outs, ins);
+    const outs:Array<TransferableOutput> = Object.keys(totals).filter((k) => !totals[k].isZero()).map((k) => new TransferableOutput(
+      Buffer.from(k, 'hex'),
+      new SecpOutput(totals[k], locktime, threshold, toAddresses),
+    ));
+    const baseTx:BaseTx = new BaseTx(networkid, blockchainid, outs, ins, memo);
     return new UnsignedTx(baseTx);
   };
 
@@ -544,28 +902,37 @@ export class UTXOSet {
      *
      * @param networkid The number representing NetworkID of the node
      * @param blockchainid The {@link https://github.com/feross/buffer|Buffer} representing the BlockchainID for the transaction
-     * @param fee The amount of AVA to be paid for fees, in $nAVA
+     * @param fee The amount of AVA to be paid for fees, in $nAVA, or a [[FeePolicy]] to compute it from the signed size
      * @param feeSenderAddresses The addresses to send the fees
      * @param initialState The [[InitialStates]]that represent the intial state of a created asset
      * @param name String for the descriptive name of the asset
      * @param symbol String for the ticker symbol of the asset
      * @param denomination Optional number for the denomination which is 10^D. D must be >= 0 and <= 32. Ex: $1 AVA = 10^9 $nAVA
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} of arbitrary data attached to the transaction, max length 256
+     * @param selector Optional. The [[CoinSelector]] choosing which UTXOs pay the fee, defaults to the first spendable UTXOs found
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
      *
      * @returns An unsigned transaction created from the passed in parameters.
      *
      */
   buildCreateAssetTx = (
     networkid:number, blockchainid:Buffer, avaAssetID:Buffer,
-    fee:BN, feeSenderAddresses:Array<Buffer>,
+    fee:BN | FeePolicy, feeSenderAddresses:Array<Buffer>,
     initialState:InitialStates, name:string,
-    symbol:string, denomination:number,
+    symbol:string, denomination:number, memo:Buffer = undefined,
+    selector:CoinSelector = undefined, asOf:BN = UnixNow(),
   ):UnsignedTx => {
-    // Cheating and using buildBaseTx to get Ins and Outs for fees.
-    // Fees are burned, so no toAddresses, only fromAddresses and changeAddresses, both are the feeSenderAddresses
-    const utx:UnsignedTx = this.buildBaseTx(networkid,
-      blockchainid, fee,
-      [], feeSenderAddresses,
-      feeSenderAddresses, avaAssetID);
+    if (fee instanceof FeePolicy) {
+      return this._applyFeePolicy(fee, (f:BN) => this.buildCreateAssetTx(
+        networkid, blockchainid, avaAssetID, f, feeSenderAddresses, initialState,
+        name, symbol, denomination, memo, selector, asOf,
+      ), 'buildCreateAssetTx');
+    }
+    // Nothing is sent, the fee is the difference between the fee inputs and their change
+    const utx:UnsignedTx = this.buildBaseTx(
+      networkid, blockchainid, new BN(0), [], feeSenderAddresses, feeSenderAddresses, avaAssetID,
+      asOf, new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined, fee, avaAssetID, selector,
+    );
     const ins:Array<TransferableInput> = utx.getTransaction().getIns();
     const outs:Array<TransferableOutput> = utx.getTransaction().getOuts();
     const CAtx:CreateAssetTx = new CreateAssetTx(networkid,
@@ -573,7 +940,8 @@ export class UTXOSet {
       outs, ins,
       name, symbol,
       denomination,
-      initialState);
+      initialState,
+      memo);
     return new UnsignedTx(CAtx);
   };
 
@@ -584,7 +952,7 @@ export class UTXOSet {
      * @param networkid The number representing NetworkID of the node
      * @param blockchainid The {@link https://github.com/feross/buffer|Buffer} representing the BlockchainID for the transaction
      * @param feeAssetID The assetID for the AVA fee to be paid
-     * @param fee The amount of AVA to be paid for fees, in $nAVA
+     * @param fee The amount of AVA to be paid for fees, in $nAVA, or a [[FeePolicy]] to compute it from the signed size
      * @param feeSenderAddresses The addresses to send the fees
      * @param toAddresses An array of {@link https://github.com/feross/buffer|Buffer}s which indicate who recieves the NFT
      * @param fromAddresses An array for {@link https://github.com/feross/buffer|Buffer} who owns the NFT
@@ -592,19 +960,28 @@ export class UTXOSet {
      * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
      * @param locktime Optional. The locktime field created in the resulting outputs
      * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} of arbitrary data attached to the transaction, max length 256
+     * @param selector Optional. The [[CoinSelector]] choosing which UTXOs pay the fee, defaults to the first spendable UTXOs found
      * @returns An unsigned transaction created from the passed in parameters.
      *
      */
   buildNFTTransferTx = (
-    networkid:number, blockchainid:Buffer, feeAssetID:Buffer, fee:BN,
+    networkid:number, blockchainid:Buffer, feeAssetID:Buffer, fee:BN | FeePolicy,
     feeSenderAddresses:Array<Buffer>, toAddresses:Array<Buffer>, fromAddresses:Array<Buffer>,
     utxoids:Array<string>, asOf:BN = UnixNow(),
-    locktime:BN = new BN(0), threshold:number = 1,
+    locktime:BN = new BN(0), threshold:number = 1, memo:Buffer = undefined,
+    selector:CoinSelector = undefined,
   ):UnsignedTx => {
-    // Cheating and using buildBaseTx to get Ins and Outs for fees.
-    // Fees are burned, so no toAddresses, only feeSenderAddresses and changeAddresses, both are the feeSenderAddresses
+    if (fee instanceof FeePolicy) {
+      return this._applyFeePolicy(fee, (f:BN) => this.buildNFTTransferTx(
+        networkid, blockchainid, feeAssetID, f, feeSenderAddresses, toAddresses, fromAddresses,
+        utxoids, asOf, locktime, threshold, memo, selector,
+      ), 'buildNFTTransferTx');
+    }
+    // Nothing is sent, the fee is the difference between the fee inputs and their change
     const utx:UnsignedTx = this.buildBaseTx(
-      networkid, blockchainid, fee, [], feeSenderAddresses, feeSenderAddresses, feeAssetID,
+      networkid, blockchainid, new BN(0), [], feeSenderAddresses, feeSenderAddresses, feeAssetID,
+      asOf, new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined, fee, feeAssetID, selector,
     );
     const ins:Array<TransferableInput> = utx.getTransaction().getIns();
     const outs:Array<TransferableOutput> = utx.getTransaction().getOuts();
@@ -635,10 +1012,221 @@ export class UTXOSet {
         op);
       ops.push(xferop);
     }
-    const OpTx:OperationTx = new OperationTx(networkid, blockchainid, outs, ins, ops);
+    const OpTx:OperationTx = new OperationTx(networkid, blockchainid, outs, ins, ops, memo);
     return new UnsignedTx(OpTx);
   };
 
+  /**
+     * Creates an unsigned transaction which mints more of a variable-cap asset. For more granular control, you may create your own
+     * [[SecpMintOperation]] manually (with their corresponding [[TransferableInput]]s, [[TransferableOutput]]s, and [[TransferOperation]]s).
+     *
+     * @param networkid The number representing NetworkID of the node
+     * @param blockchainid The {@link https://github.com/feross/buffer|Buffer} representing the BlockchainID for the transaction
+     * @param feeAssetID The assetID for the AVA fee to be paid
+     * @param fee The amount of AVA to be paid for fees, in $nAVA, or a [[FeePolicy]] to compute it from the signed size
+     * @param feeSenderAddresses The addresses to send the fees
+     * @param assetID The {@link https://github.com/feross/buffer|Buffer} of the variable-cap asset being minted
+     * @param amount The amount of the asset to mint
+     * @param toAddresses An array of {@link https://github.com/feross/buffer|Buffer}s which receive the minted tokens
+     * @param minterAddresses An array of {@link https://github.com/feross/buffer|Buffer}s who own the [[SecpMintOutput]] for the asset
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param locktime Optional. The locktime field created in the resulting outputs
+     * @param threshold Optional. The number of signatures required to spend the funds in the resultant UTXO
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} of arbitrary data attached to the transaction, max length 256
+     * @param selector Optional. The [[CoinSelector]] choosing which UTXOs pay the fee, defaults to the first spendable UTXOs found
+     * @returns An unsigned transaction created from the passed in parameters.
+     *
+     */
+  buildSecpMintTx = (
+    networkid:number, blockchainid:Buffer, feeAssetID:Buffer, fee:BN | FeePolicy,
+    feeSenderAddresses:Array<Buffer>, assetID:Buffer, amount:BN,
+    toAddresses:Array<Buffer>, minterAddresses:Array<Buffer>, asOf:BN = UnixNow(),
+    locktime:BN = new BN(0), threshold:number = 1, memo:Buffer = undefined,
+    selector:CoinSelector = undefined,
+  ):UnsignedTx => {
+    if (fee instanceof FeePolicy) {
+      return this._applyFeePolicy(fee, (f:BN) => this.buildSecpMintTx(
+        networkid, blockchainid, feeAssetID, f, feeSenderAddresses, assetID, amount,
+        toAddresses, minterAddresses, asOf, locktime, threshold, memo, selector,
+      ), 'buildSecpMintTx');
+    }
+    let mintUTXO:UTXO;
+    const utxos:Array<UTXO> = this.getAllUTXOs(this.getUTXOIDs(minterAddresses));
+    for (let i:number = 0; i < utxos.length && typeof mintUTXO === 'undefined'; i++) {
+      if (
+        utxos[i].getOutput() instanceof SecpMintOutput
+        && utxos[i].getAssetID().compare(assetID) === 0
+        && utxos[i].getOutput().meetsThreshold(minterAddresses, asOf)
+      ) {
+        mintUTXO = utxos[i];
+      }
+    }
+    if (typeof mintUTXO === 'undefined') {
+      throw new Error('Error - UTXOSet.buildSecpMintTx: no spendable mint '
+      + `output for assetID ${bintools.avaSerialize(assetID)}`);
+    }
+
+    // Nothing is sent, the fee is the difference between the fee inputs and their change
+    const utx:UnsignedTx = this.buildBaseTx(
+      networkid, blockchainid, new BN(0), [], feeSenderAddresses, feeSenderAddresses, feeAssetID,
+      asOf, new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined, fee, feeAssetID, selector,
+    );
+    const ins:Array<TransferableInput> = utx.getTransaction().getIns();
+    const outs:Array<TransferableOutput> = utx.getTransaction().getOuts();
+
+    const out:SecpMintOutput = mintUTXO.getOutput() as SecpMintOutput;
+    const spenders:Array<Buffer> = out.getSpenders(minterAddresses, asOf);
+
+    // the minting rights are handed back to the same owners
+    const mintOwner:SecpMintOutput = new SecpMintOutput(
+      out.getLocktime(), out.getThreshold(), out.getAddresses(),
+    );
+    const transferOwner:SecpOutput = new SecpOutput(amount, locktime, threshold, toAddresses);
+    const op:SecpMintOperation = new SecpMintOperation(mintOwner, transferOwner);
+
+    for (let j = 0; j < spenders.length; j++) {
+      const idx:number = out.getAddressIdx(spenders[j]);
+      if (idx === -1) {
+        /* istanbul ignore next */
+        throw new Error('Error - UTXOSet.buildSecpMintTx: '
+        + `no such address in output: ${spenders[j]}`);
+      }
+      op.addSignatureIdx(idx, spenders[j]);
+    }
+
+    const xferop:TransferableOperation = new TransferableOperation(assetID,
+      [mintUTXO.getUTXOID()],
+      op);
+    const OpTx:OperationTx = new OperationTx(networkid, blockchainid, outs, ins, [xferop], memo);
+    return new UnsignedTx(OpTx);
+  };
+
+  /**
+     * Creates an unsigned transaction which mints NFTs of a group. For more granular control, you may create your own
+     * [[NFTMintOperation]] manually (with their corresponding [[TransferableInput]]s, [[TransferableOutput]]s, and [[TransferOperation]]s).
+     *
+     * @param networkid The number representing NetworkID of the node
+     * @param blockchainid The {@link https://github.com/feross/buffer|Buffer} representing the BlockchainID for the transaction
+     * @param feeAssetID The assetID for the AVA fee to be paid
+     * @param fee The amount of AVA to be paid for fees, in $nAVA, or a [[FeePolicy]] to compute it from the signed size
+     * @param feeSenderAddresses The addresses to send the fees
+     * @param assetID The {@link https://github.com/feross/buffer|Buffer} of the NFT family being minted
+     * @param groupID The number of the NFT group being minted
+     * @param payload A {@link https://github.com/feross/buffer|Buffer} of max length 1024 carried by each minted NFT
+     * @param owners An array of [[OutputOwners]], one per NFT to mint
+     * @param minterAddresses An array of {@link https://github.com/feross/buffer|Buffer}s who own the [[NFTMintOutput]] for the group
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param memo Optional. A {@link https://github.com/feross/buffer|Buffer} of arbitrary data attached to the transaction, max length 256
+     * @param selector Optional. The [[CoinSelector]] choosing which UTXOs pay the fee, defaults to the first spendable UTXOs found
+     * @returns An unsigned transaction created from the passed in parameters.
+     *
+     * @remarks
+     * The spent [[NFTMintOutput]] is consumed by the operation.
+     */
+  buildNFTMintTx = (
+    networkid:number, blockchainid:Buffer, feeAssetID:Buffer, fee:BN | FeePolicy,
+    feeSenderAddresses:Array<Buffer>, assetID:Buffer, groupID:number, payload:Buffer,
+    owners:Array<OutputOwners>, minterAddresses:Array<Buffer>, asOf:BN = UnixNow(),
+    memo:Buffer = undefined, selector:CoinSelector = undefined,
+  ):UnsignedTx => {
+    if (fee instanceof FeePolicy) {
+      return this._applyFeePolicy(fee, (f:BN) => this.buildNFTMintTx(
+        networkid, blockchainid, feeAssetID, f, feeSenderAddresses, assetID, groupID, payload,
+        owners, minterAddresses, asOf, memo, selector,
+      ), 'buildNFTMintTx');
+    }
+    let mintUTXO:UTXO;
+    const utxos:Array<UTXO> = this.getAllUTXOs(this.getUTXOIDs(minterAddresses));
+    for (let i:number = 0; i < utxos.length && typeof mintUTXO === 'undefined'; i++) {
+      const output:Output = utxos[i].getOutput();
+      if (
+        output instanceof NFTMintOutput
+        && output.getGroupID() === groupID
+        && utxos[i].getAssetID().compare(assetID) === 0
+        && output.meetsThreshold(minterAddresses, asOf)
+      ) {
+        mintUTXO = utxos[i];
+      }
+    }
+    if (typeof mintUTXO === 'undefined') {
+      throw new Error('Error - UTXOSet.buildNFTMintTx: no spendable mint '
+      + `output for groupID ${groupID} of assetID ${bintools.avaSerialize(assetID)}`);
+    }
+
+    // Nothing is sent, the fee is the difference between the fee inputs and their change
+    const utx:UnsignedTx = this.buildBaseTx(
+      networkid, blockchainid, new BN(0), [], feeSenderAddresses, feeSenderAddresses, feeAssetID,
+      asOf, new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined, fee, feeAssetID, selector,
+    );
+    const ins:Array<TransferableInput> = utx.getTransaction().getIns();
+    const outs:Array<TransferableOutput> = utx.getTransaction().getOuts();
+
+    const out:NFTMintOutput = mintUTXO.getOutput() as NFTMintOutput;
+    const spenders:Array<Buffer> = out.getSpenders(minterAddresses, asOf);
+    const op:NFTMintOperation = new NFTMintOperation(groupID, payload, owners);
+
+    for (let j = 0; j < spenders.length; j++) {
+      const idx:number = out.getAddressIdx(spenders[j]);
+      if (idx === -1) {
+        /* istanbul ignore next */
+        throw new Error('Error - UTXOSet.buildNFTMintTx: '
+        + `no such address in output: ${spenders[j]}`);
+      }
+      op.addSignatureIdx(idx, spenders[j]);
+    }
+
+    const xferop:TransferableOperation = new TransferableOperation(assetID,
+      [mintUTXO.getUTXOID()],
+      op);
+    const OpTx:OperationTx = new OperationTx(networkid, blockchainid, outs, ins, [xferop], memo);
+    return new UnsignedTx(OpTx);
+  };
+
+  /**
+     * Verifies a signed [[Tx]] against the UTXOs it spends.
+     *
+     * @param tx The signed [[Tx]] to verify
+     * @param asOf Optional. The timestamp to verify the transaction against as a {@link https://github.com/indutny/bn.js/|BN}
+     *
+     * @returns True if [[Tx.verify]] passes, every spent UTXO is in this set, each signature was made by the owner
+     * referenced by its [[SigIdx]], and the signers meet the threshold and locktime of every spent output. Since
+     * [[Tx.verify]] rejects repeated [[SigIdx]]s, each owner counts once towards the threshold.
+     */
+  verifyTx = (tx:Tx, asOf:BN = UnixNow()):boolean => {
+    if (!tx.verify()) {
+      return false;
+    }
+    const basetx:BaseTx = tx.getUnsignedTx().getTransaction();
+    const signers:Array<Array<Buffer>> = tx.getSigners();
+    const sigidxs:Array<Array<SigIdx>> = basetx.getSigIdxs();
+    // the UTXOIDs spent by each credential, inputs first then operations, matching the order of the credentials
+    const spent:Array<Array<string>> = basetx.getIns().map((xferin) => [xferin.getUTXOID()]);
+    if (basetx instanceof OperationTx) {
+      basetx.getOperations().forEach((op) => {
+        spent.push(op.getUTXOIDs().map((utxoid) => bintools.bufferToB58(utxoid.toBuffer())));
+      });
+    }
+    for (let i = 0; i < spent.length; i++) {
+      for (let j = 0; j < spent[i].length; j++) {
+        const utxo:UTXO = this.getUTXO(spent[i][j]);
+        if (typeof utxo === 'undefined') {
+          return false;
+        }
+        const output:Output = utxo.getOutput();
+        for (let k = 0; k < sigidxs[i].length; k++) {
+          const idx:number = sigidxs[i][k].toBuffer().readUInt32BE(0);
+          if (idx >= output.getAddresses().length || output.getAddress(idx).compare(signers[i][k]) !== 0) {
+            return false;
+          }
+        }
+        if (!output.meetsThreshold(signers[i], asOf)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+
   /**
      * Returns a new set with copy of UTXOs in this and set parameter.
      *
@@ -4,6 +4,21 @@
  */
 import AvalancheCore from '../../avalanche';
 import { JRPCAPI, RequestResponseData } from '../../utils/types';
+import { ResponseParser } from '../../utils/responses';
+
+/**
+ * @ignore
+ */
+const parseResult = (response:RequestResponseData, caller:string, parse:(parser:ResponseParser, result:any) => any):any => {
+  const parser:ResponseParser = new ResponseParser(`InfoAPI.${caller}`);
+  return parse(parser, parser.object(response.data.result, 'result'));
+};
+
+/**
+ * @ignore
+ */
+const parseString = (response:RequestResponseData, caller:string, key:string):string => parseResult(response, caller,
+  (parser:ResponseParser, result:any) => parser.getString(result, key, 'result'));
 
 /**
  * Class for interacting with a node's InfoAPI.
@@ -25,18 +40,19 @@ export default class InfoAPI extends JRPCAPI {
       alias,
     };
     return this.callMethod('info.getBlockchainID', params)
-      .then((response:RequestResponseData) => response.data.result.blockchainID);
+      .then((response:RequestResponseData) => parseString(response, 'getBlockchainID', 'blockchainID'));
   };
 
   /**
      * Fetches the networkID from the node.
      *
-     * @returns Returns a Promise<number> of the networkID.
+     * @returns Returns a Promise<number> of the networkID. The node may send it as a number or a decimal string.
      */
   getNetworkID = async ():Promise<number> => {
     const params:any = {};
     return this.callMethod('info.getNetworkID', params)
-      .then((response:RequestResponseData) => response.data.result.networkID);
+      .then((response:RequestResponseData) => parseResult(response, 'getNetworkID',
+        (parser:ResponseParser, result:any) => parser.getNumber(result, 'networkID', 'result')));
   };
 
   /**
@@ -45,7 +61,7 @@ export default class InfoAPI extends JRPCAPI {
      * @returns Returns a Promise<string> containing the network name.
      */
   getNetworkName = async ():Promise<string> => this.callMethod('info.getNetworkName')
-    .then((response:RequestResponseData) => response.data.result.networkName);
+    .then((response:RequestResponseData) => parseString(response, 'getNetworkName', 'networkName'));
 
   /**
      * Fetches the nodeID from the node.
@@ -55,7 +71,7 @@ export default class InfoAPI extends JRPCAPI {
   getNodeID = async ():Promise<string> => {
     const params:any = {};
     return this.callMethod('info.getNodeID', params)
-      .then((response:RequestResponseData) => response.data.result.nodeID);
+      .then((response:RequestResponseData) => parseString(response, 'getNodeID', 'nodeID'));
   };
 
   /**
@@ -64,7 +80,7 @@ export default class InfoAPI extends JRPCAPI {
      * @returns Returns a Promise<string> containing the version of Gecko.
      */
   getNodeVersion = async ():Promise<string> => this.callMethod('info.getNodeVersion')
-    .then((response:RequestResponseData) => response.data.result.version);
+    .then((response:RequestResponseData) => parseString(response, 'getNodeVersion', 'version'));
 
   /**
      * Returns the peers connected to the node.
@@ -72,7 +88,8 @@ export default class InfoAPI extends JRPCAPI {
      * @returns Promise for the list of connected peers in <ip>:<port> format.
      */
   peers = async ():Promise<Array<string>> => this.callMethod('info.peers')
-    .then((response:RequestResponseData) => response.data.result.peers);
+    .then((response:RequestResponseData) => parseResult(response, 'peers',
+      (parser:ResponseParser, result:any) => parser.getStrings(result, 'peers', 'result')));
 
   constructor(core:AvalancheCore, baseurl:string = '/ext/info') { super(core, baseurl); }
 }
@@ -7,6 +7,14 @@ import BN from 'bn.js';
 import AvalancheCore from '../../avalanche';
 import { JRPCAPI, RequestResponseData } from '../../utils/types';
 import BinTools from '../../utils/bintools';
+import { AddressCodec, Base58AddressCodec } from '../../utils/addresscodec';
+import { AVMKeyChain } from '../avm/keychain';
+import { PlatformUnsignedTx, PlatformTx } from './tx';
+import {
+  PlatformConstants, Validator, Subnet, Blockchain, Account,
+} from './types';
+import { ValidatorSet } from './validatorset';
+import { ResponseParser } from '../../utils/responses';
 
 /**
  * @ignore
@@ -21,6 +29,43 @@ const bintools = BinTools.getInstance();
  * @remarks This extends the [[JRPCAPI]] class. This class should not be directly called. Instead, use the [[Avalanche.addAPI]] function to register this interface with Avalanche.
  */
 class PlatformAPI extends JRPCAPI {
+  /**
+     * @ignore
+     */
+  protected keychain:AVMKeyChain = new AVMKeyChain('P');
+
+  protected addressCodec:AddressCodec = new Base58AddressCodec();
+
+  /**
+     * Gets the [[AddressCodec]] used to parse address strings.
+     */
+  getAddressCodec = ():AddressCodec => this.addressCodec;
+
+  /**
+     * Sets the [[AddressCodec]] used to parse address strings, such as a [[Bech32AddressCodec]].
+     *
+     * @param codec The [[AddressCodec]] to use, a [[Base58AddressCodec]] by default
+     */
+  setAddressCodec = (codec:AddressCodec):void => {
+    this.addressCodec = codec;
+  };
+
+  /**
+     * Gets a reference to the keychain for this class, which holds the keys used by [[signTx]].
+     *
+     * @returns The instance of [[AVMKeyChain]] for this class
+     */
+  keyChain = ():AVMKeyChain => this.keychain;
+
+  /**
+     * @ignore
+     */
+  newKeyChain = ():AVMKeyChain => {
+    // warning, overwrites the old keychain
+    this.keychain = new AVMKeyChain('P');
+    return this.keychain;
+  };
+
   /**
      * Creates a new blockchain.
      *
@@ -99,14 +144,14 @@ class PlatformAPI extends JRPCAPI {
      *
      * @param address The address of the account
      *
-     * @returns Promise for an object containing the address, the nonce, and the balance.
+     * @returns Promise for the [[Account]] holding the address, the nonce, and the balance.
      */
-  getAccount = async (address: string):Promise<object> => {
+  getAccount = async (address: string):Promise<Account> => {
     const params:any = {
       address,
     };
     return this.callMethod('platform.getAccount', params)
-      .then((response:RequestResponseData) => response.data.result);
+      .then((response:RequestResponseData) => new Account().fromJSON(response.data.result, new ResponseParser('PlatformAPI.getAccount'), 'result'));
   };
 
   /**
@@ -115,15 +160,15 @@ class PlatformAPI extends JRPCAPI {
      * @param username The username of the Keystore user
      * @param password The password of the Keystore user
      *
-     * @returns Promise for an array of accounts.
+     * @returns Promise for an array of [[Account]].
      */
-  listAccounts = async (username: string, password:string):Promise<Array<object>> => {
+  listAccounts = async (username: string, password:string):Promise<Array<Account>> => {
     const params:any = {
       username,
       password,
     };
     return this.callMethod('platform.listAccounts', params)
-      .then((response:RequestResponseData) => response.data.result.accounts);
+      .then((response:RequestResponseData) => this._parseList(response, 'PlatformAPI.listAccounts', 'accounts', () => new Account()));
   };
 
   /**
@@ -132,10 +177,10 @@ class PlatformAPI extends JRPCAPI {
      * @param subnetID Optional. Either a {@link https://github.com/feross/buffer|Buffer} or an
      * AVA serialized string for the SubnetID or its alias.
      *
-     * @returns Promise for an array of validators that are currently staking, see: {@link https://docs.avax.network/v1.0/en/api/platform/#platformgetcurrentvalidators|platform.getCurrentValidators documentation}.
+     * @returns Promise for an array of [[Validator]] that are currently staking, see: {@link https://docs.avax.network/v1.0/en/api/platform/#platformgetcurrentvalidators|platform.getCurrentValidators documentation}.
      *
      */
-  getCurrentValidators = async (subnetID:Buffer | string = undefined):Promise<Array<object>> => {
+  getCurrentValidators = async (subnetID:Buffer | string = undefined):Promise<Array<Validator>> => {
     const params:any = {};
     if (typeof subnetID === 'string') {
       params.subnetID = subnetID;
@@ -143,7 +188,7 @@ class PlatformAPI extends JRPCAPI {
       params.subnetID = bintools.avaSerialize(subnetID);
     }
     return this.callMethod('platform.getCurrentValidators', params)
-      .then((response:RequestResponseData) => response.data.result.validators);
+      .then((response:RequestResponseData) => this._parseList(response, 'PlatformAPI.getCurrentValidators', 'validators', () => new Validator()));
   };
 
   /**
@@ -152,10 +197,10 @@ class PlatformAPI extends JRPCAPI {
      * @param subnetID Optional. Either a {@link https://github.com/feross/buffer|Buffer}
      * or an AVA serialized string for the SubnetID or its alias.
      *
-     * @returns Promise for an array of validators that are pending staking, see: {@link https://docs.avax.network/v1.0/en/api/platform/#platformgetpendingvalidators|platform.getPendingValidators documentation}.
+     * @returns Promise for an array of [[Validator]] that are pending staking, see: {@link https://docs.avax.network/v1.0/en/api/platform/#platformgetpendingvalidators|platform.getPendingValidators documentation}.
      *
      */
-  getPendingValidators = async (subnetID:Buffer | string = undefined):Promise<Array<object>> => {
+  getPendingValidators = async (subnetID:Buffer | string = undefined):Promise<Array<Validator>> => {
     const params:any = {};
     if (typeof subnetID === 'string') {
       params.subnetID = subnetID;
@@ -164,7 +209,27 @@ class PlatformAPI extends JRPCAPI {
     }
 
     return this.callMethod('platform.getPendingValidators', params)
-      .then((response:RequestResponseData) => response.data.result.validators);
+      .then((response:RequestResponseData) => this._parseList(response, 'PlatformAPI.getPendingValidators', 'validators', () => new Validator()));
+  };
+
+  /**
+     * Fetches the current and pending validators of a subnet as a [[ValidatorSet]], which computes stake totals,
+     * proportions and delegation windows.
+     *
+     * @param subnetID Optional. Either a {@link https://github.com/feross/buffer|Buffer} or an
+     * AVA serialized string for the SubnetID or its alias. Default the Default Subnet.
+     *
+     * @returns Promise for the [[ValidatorSet]] of the subnet.
+     */
+  getValidatorSet = async (subnetID:Buffer | string = undefined):Promise<ValidatorSet> => {
+    const [current, pending] = await Promise.all([this.getCurrentValidators(subnetID), this.getPendingValidators(subnetID)]);
+    let id:string = PlatformConstants.DEFAULTSUBNETID;
+    if (typeof subnetID === 'string') {
+      id = subnetID;
+    } else if (typeof subnetID !== 'undefined') {
+      id = bintools.avaSerialize(subnetID);
+    }
+    return new ValidatorSet(id, current, pending);
   };
 
   /**
@@ -369,12 +434,12 @@ class PlatformAPI extends JRPCAPI {
   /**
      * Get all the blockchains that exist (excluding the P-Chain).
      *
-     * @returns Promise for an array of objects containing fields "id", "subnetID", and "vmID".
+     * @returns Promise for an array of [[Blockchain]] holding the "id", "name", "subnetID", and "vmID" of each blockchain.
      */
-  getBlockchains = async ():Promise<Array<object>> => {
+  getBlockchains = async ():Promise<Array<Blockchain>> => {
     const params:any = {};
     return this.callMethod('platform.getBlockchains', params)
-      .then((response:RequestResponseData) => response.data.result.blockchains);
+      .then((response:RequestResponseData) => this._parseList(response, 'PlatformAPI.getBlockchains', 'blockchains', () => new Blockchain()));
   };
 
   /**
@@ -454,6 +519,39 @@ class PlatformAPI extends JRPCAPI {
       .then((response:RequestResponseData) => response.data.result.tx);
   };
 
+  /**
+     * Signs a transaction with the keys of this class's [[AVMKeyChain]], so the keys never leave the client.
+     * This is the local equivalent of [[sign]], for the unsigned transactions returned by methods such as
+     * [[addDefaultSubnetValidator]], [[addDefaultSubnetDelegator]] and [[createSubnet]].
+     *
+     * @param utx The unsigned transaction, as an AVA serialized string or a [[PlatformUnsignedTx]]
+     * @param payer The address of the account paying the transaction fee, whose nonce the transaction uses
+     * @param controlSigners Optional. The addresses of the Subnet control keys signing [[addNonDefaultSubnetValidator]] and [[createBlockchain]] transactions
+     * @param inputSigners Optional. The addresses signing the inputs of a [[PlatformImportTx]], one array per input
+     *
+     * @returns The signed [[PlatformTx]], which can be passed to [[issueTx]] directly or as a string
+     *
+     * @remarks
+     * A string does not carry the addresses owning the UTXOs spent by a [[PlatformImportTx]], so an import given as a
+     * string is only signed if `inputSigners[i][j]` holds the address of the SigIdx j of its input i. See [[PlatformUnsignedTx.sign]].
+     */
+  signTx = (
+    utx:string | PlatformUnsignedTx, payer:string | Buffer, controlSigners:Array<string> | Array<Buffer> = [],
+    inputSigners:Array<Array<string>> | Array<Array<Buffer>> = [],
+  ):PlatformTx => {
+    let unsigned:PlatformUnsignedTx;
+    if (typeof utx === 'string') {
+      unsigned = new PlatformUnsignedTx();
+      unsigned.fromString(utx);
+    } else {
+      unsigned = utx;
+    }
+    const controls:Array<Buffer> = (controlSigners as Array<string | Buffer>).map((a) => this._parseAddress(a, 'signTx'));
+    const inputs:Array<Array<Buffer>> = (inputSigners as Array<Array<string | Buffer>>)
+      .map((signers) => signers.map((a) => this._parseAddress(a, 'signTx')));
+    return unsigned.sign(this.keychain, this._parseAddress(payer, 'signTx'), controls, inputs);
+  };
+
   /**
      * Issue a transaction to the Platform Chain.
      *
@@ -461,9 +559,22 @@ class PlatformAPI extends JRPCAPI {
      *
      * @returns Promise for an string of the transaction after being signed.
      */
-  issueTx = async (tx:string):Promise<string> => {
+  issueTx = async (tx:string | Buffer | PlatformTx):Promise<string> => {
+    let Transaction:string;
+    if (typeof tx === 'string') {
+      Transaction = tx;
+    } else if (tx instanceof Buffer) {
+      const txobj:PlatformTx = new PlatformTx();
+      txobj.fromBuffer(tx);
+      Transaction = txobj.toString();
+    } else if (tx instanceof PlatformTx) {
+      Transaction = tx.toString();
+    } else {
+      /* istanbul ignore next */
+      throw new Error('Error - PlatformAPI.issueTx: provided tx is not expected type of string, Buffer, or PlatformTx');
+    }
     const params:any = {
-      tx,
+      tx: Transaction,
     };
     return this.callMethod('platform.issueTx', params)
       .then((response:RequestResponseData) => response.data.result.txID);
@@ -472,13 +583,13 @@ class PlatformAPI extends JRPCAPI {
   /**
      * Get all the subnets that exist.
      *
-     * @returns Promise for an array of objects containing fields "id",
-     * "controlKeys", and "threshold".
+     * @returns Promise for an array of [[Subnet]] holding the "id",
+     * "controlKeys", and "threshold" of each subnet.
      */
-  getSubnets = async ():Promise<Array<object>> => {
+  getSubnets = async ():Promise<Array<Subnet>> => {
     const params:any = {};
     return this.callMethod('platform.getSubnets', params)
-      .then((response:RequestResponseData) => response.data.result.subnets);
+      .then((response:RequestResponseData) => this._parseList(response, 'PlatformAPI.getSubnets', 'subnets', () => new Subnet()));
   };
 
   /**
@@ -519,6 +630,35 @@ class PlatformAPI extends JRPCAPI {
       .then((response:RequestResponseData) => response.data.result.address);
   };
 
+  /**
+     * @ignore
+     */
+  protected _parseAddress(address:string | Buffer, caller:string):Buffer {
+    if (typeof address !== 'string') {
+      return address;
+    }
+    // platform addresses are encoded with the address codec, optionally prefixed with a chain alias as in the keychain's address strings
+    let addrbuff:Buffer;
+    try {
+      addrbuff = address.indexOf('-') === -1 ? this.addressCodec.decodeBody(address) : this.addressCodec.decode(address, undefined, 0);
+    } catch (e) {
+      throw new Error(`Error - PlatformAPI.${caller}: Invalid address format ${address}`);
+    }
+    if (addrbuff.length !== PlatformConstants.ADDRESSLENGTH) {
+      throw new Error(`Error - PlatformAPI.${caller}: Invalid address format ${address}`);
+    }
+    return addrbuff;
+  }
+
+  /**
+     * @ignore
+     */
+  protected _parseList<T extends Validator | Subnet | Blockchain | Account>(response:RequestResponseData, caller:string, key:string, make:() => T):Array<T> {
+    const parser:ResponseParser = new ResponseParser(caller);
+    const result:any = parser.object(response.data.result, 'result');
+    return parser.array(result[key], `result.${key}`, (elem:any, path:string) => make().fromJSON(elem, parser, path) as T);
+  }
+
   /**
      * This class should not be instantiated directly.
      * Instead use the [[Avalanche.addAPI]] method.
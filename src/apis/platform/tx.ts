@@ -0,0 +1,915 @@
+/**
+ * @packageDocumentation
+ * @module PlatformAPI-Transactions
+ */
+import { Buffer } from 'buffer/';
+import BN from 'bn.js';
+import createHash from 'create-hash';
+import BinTools from '../../utils/bintools';
+import { PlatformConstants, DurationValidator } from './types';
+import { Signature, SigIdx } from '../avm/types';
+import { TransferableOutput } from '../avm/outputs';
+import { TransferableInput } from '../avm/inputs';
+import { Credential, SelectCredentialClass } from '../avm/credentials';
+import { AVMKeyChain, AVMKeyPair } from '../avm/keychain';
+
+/**
+ * @ignore
+ */
+const bintools = BinTools.getInstance();
+
+/**
+ * @ignore
+ */
+const signWith = (kc:AVMKeyChain, address:Buffer, msg:Buffer, role:string):Signature => {
+  if (typeof address === 'undefined') {
+    throw new Error(`Error - PlatformUnsignedTx.sign: the ${role} address is unknown`);
+  }
+  const keypair:AVMKeyPair = kc.getKey(address);
+  if (typeof keypair === 'undefined') {
+    throw new Error(`Error - PlatformUnsignedTx.sign: no key for ${role} address ${bintools.avaSerialize(address)}`);
+  }
+  const sig:Signature = new Signature();
+  sig.fromBuffer(keypair.sign(msg));
+  return sig;
+};
+
+/**
+ * Class representing a base for all Platform chain transactions, which are paid for by an account identified by its nonce.
+ *
+ * @remarks
+ * Extending classes serialize their own fields, as the position of the network ID and nonce differs between transactions.
+ */
+export abstract class PlatformBaseTx {
+  protected networkid:Buffer = Buffer.alloc(4);
+
+  protected nonce:Buffer = Buffer.alloc(8);
+
+  /**
+     * Returns the type ID of the unsigned transaction.
+     */
+  abstract getTxType():number;
+
+  /**
+     * Returns the type ID of the signed transaction.
+     */
+  abstract getSignedTxType():number;
+
+  /**
+     * Takes a {@link https://github.com/feross/buffer|Buffer} containing the transaction without its type ID, parses it, populates the class, and returns the offset following it.
+     */
+  abstract fromBuffer(bytes:Buffer, offset?:number):number;
+
+  /**
+     * Returns a {@link https://github.com/feross/buffer|Buffer} representation of the transaction without its type ID.
+     */
+  abstract toBuffer():Buffer;
+
+  /**
+     * Returns the NetworkID as a number
+     */
+  getNetworkID = ():number => this.networkid.readUInt32BE(0);
+
+  /**
+     * Returns the nonce of the paying account as a {@link https://github.com/indutny/bn.js/|BN}
+     */
+  getNonce = ():BN => bintools.fromBufferToBN(this.nonce);
+
+  /**
+     * Returns true if the signed transaction holds signatures from the Subnet's control keys, in addition to the payer's.
+     */
+  hasControlSigs():boolean {
+    return false;
+  }
+
+  /**
+     * Returns true if the signed transaction holds [[Credential]]s for spent inputs, in addition to the payer's signature.
+     */
+  hasCredentials():boolean {
+    return false;
+  }
+
+  /**
+     * Returns a base-58 representation of the transaction.
+     */
+  toString():string {
+    return bintools.bufferToB58(this.toBuffer());
+  }
+
+  /**
+     * @param networkid Optional networkid, default 3
+     * @param nonce Optional nonce of the paying account, default 0
+     */
+  constructor(networkid:number = 3, nonce:BN = new BN(0)) {
+    this.networkid.writeUInt32BE(networkid, 0);
+    this.nonce = bintools.fromBNToBuffer(nonce, 8);
+  }
+}
+
+/**
+ * Class representing an unsigned transaction adding a validator to the Default Subnet.
+ */
+export class AddDefaultSubnetValidatorTx extends PlatformBaseTx {
+  protected validator:DurationValidator = new DurationValidator();
+
+  protected destination:Buffer = Buffer.alloc(PlatformConstants.ADDRESSLENGTH);
+
+  protected shares:Buffer = Buffer.alloc(4);
+
+  getTxType():number {
+    return PlatformConstants.ADDDEFAULTSUBNETVALIDATORTX;
+  }
+
+  getSignedTxType():number {
+    return PlatformConstants.SIGNEDADDDEFAULTSUBNETVALIDATORTX;
+  }
+
+  /**
+     * Returns the [[DurationValidator]] being added.
+     */
+  getValidator = ():DurationValidator => this.validator;
+
+  /**
+     * Returns the address of the account the stake and reward are returned to.
+     */
+  getDestination = ():Buffer => this.destination;
+
+  /**
+     * Returns the fee charged to delegators, multiplied by 10,000.
+     */
+  getDelegationFeeRate = ():number => this.shares.readUInt32BE(0);
+
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.validator = new DurationValidator();
+    offset = this.validator.fromBuffer(bytes, offset);
+    this.networkid = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    this.nonce = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    this.destination = bintools.copyFrom(bytes, offset, offset + PlatformConstants.ADDRESSLENGTH);
+    offset += PlatformConstants.ADDRESSLENGTH;
+    this.shares = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    return offset;
+  }
+
+  toBuffer():Buffer {
+    const valbuff:Buffer = this.validator.toBuffer();
+    const barr:Array<Buffer> = [valbuff, this.networkid, this.nonce, this.destination, this.shares];
+    return Buffer.concat(barr, valbuff.length + 16 + this.destination.length);
+  }
+
+  /**
+     * Class representing an unsigned transaction adding a validator to the Default Subnet.
+     *
+     * @param networkid Optional networkid, default 3
+     * @param nonce Optional nonce of the account providing the stake and paying the fee, default 0
+     * @param validator Optional [[DurationValidator]] whose weight is the stake amount
+     * @param destination Optional address of the account the stake and reward are returned to
+     * @param delegationFeeRate Optional fee charged to delegators, multiplied by 10,000, default 0
+     */
+  constructor(
+    networkid:number = 3, nonce:BN = new BN(0), validator:DurationValidator = undefined,
+    destination:Buffer = undefined, delegationFeeRate:number = 0,
+  ) {
+    super(networkid, nonce);
+    if (typeof validator !== 'undefined' && typeof destination !== 'undefined') {
+      this.validator = validator;
+      this.destination = bintools.copyFrom(destination);
+      this.shares.writeUInt32BE(delegationFeeRate, 0);
+    }
+  }
+}
+
+/**
+ * Class representing an unsigned transaction adding a validator to a Subnet other than the Default Subnet.
+ */
+export class AddNonDefaultSubnetValidatorTx extends PlatformBaseTx {
+  protected validator:DurationValidator = new DurationValidator();
+
+  protected subnetID:Buffer = Buffer.alloc(PlatformConstants.SUBNETIDLENGTH);
+
+  getTxType():number {
+    return PlatformConstants.ADDNONDEFAULTSUBNETVALIDATORTX;
+  }
+
+  getSignedTxType():number {
+    return PlatformConstants.SIGNEDADDNONDEFAULTSUBNETVALIDATORTX;
+  }
+
+  hasControlSigs():boolean {
+    return true;
+  }
+
+  /**
+     * Returns the [[DurationValidator]] being added, whose weight is used for sampling.
+     */
+  getValidator = ():DurationValidator => this.validator;
+
+  /**
+     * Returns the {@link https://github.com/feross/buffer|Buffer} of the SubnetID.
+     */
+  getSubnetID = ():Buffer => this.subnetID;
+
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.validator = new DurationValidator();
+    offset = this.validator.fromBuffer(bytes, offset);
+    this.subnetID = bintools.copyFrom(bytes, offset, offset + PlatformConstants.SUBNETIDLENGTH);
+    offset += PlatformConstants.SUBNETIDLENGTH;
+    this.networkid = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    this.nonce = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    return offset;
+  }
+
+  toBuffer():Buffer {
+    const valbuff:Buffer = this.validator.toBuffer();
+    const barr:Array<Buffer> = [valbuff, this.subnetID, this.networkid, this.nonce];
+    return Buffer.concat(barr, valbuff.length + this.subnetID.length + 12);
+  }
+
+  /**
+     * Class representing an unsigned transaction adding a validator to a Subnet other than the Default Subnet.
+     *
+     * @param networkid Optional networkid, default 3
+     * @param nonce Optional nonce of the account paying the fee, default 0
+     * @param validator Optional [[DurationValidator]] whose weight is used for sampling
+     * @param subnetID Optional {@link https://github.com/feross/buffer|Buffer} of the SubnetID
+     */
+  constructor(
+    networkid:number = 3, nonce:BN = new BN(0), validator:DurationValidator = undefined, subnetID:Buffer = undefined,
+  ) {
+    super(networkid, nonce);
+    if (typeof validator !== 'undefined' && typeof subnetID !== 'undefined') {
+      this.validator = validator;
+      this.subnetID = bintools.copyFrom(subnetID);
+    }
+  }
+}
+
+/**
+ * Class representing an unsigned transaction delegating stake to a validator of the Default Subnet.
+ */
+export class AddDefaultSubnetDelegatorTx extends PlatformBaseTx {
+  protected validator:DurationValidator = new DurationValidator();
+
+  protected destination:Buffer = Buffer.alloc(PlatformConstants.ADDRESSLENGTH);
+
+  getTxType():number {
+    return PlatformConstants.ADDDEFAULTSUBNETDELEGATORTX;
+  }
+
+  getSignedTxType():number {
+    return PlatformConstants.SIGNEDADDDEFAULTSUBNETDELEGATORTX;
+  }
+
+  /**
+     * Returns the [[DurationValidator]] holding the delegatee's node ID, the delegated amount and the delegation period.
+     */
+  getValidator = ():DurationValidator => this.validator;
+
+  /**
+     * Returns the address of the account the stake and reward are returned to.
+     */
+  getDestination = ():Buffer => this.destination;
+
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.validator = new DurationValidator();
+    offset = this.validator.fromBuffer(bytes, offset);
+    this.networkid = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    this.nonce = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    this.destination = bintools.copyFrom(bytes, offset, offset + PlatformConstants.ADDRESSLENGTH);
+    offset += PlatformConstants.ADDRESSLENGTH;
+    return offset;
+  }
+
+  toBuffer():Buffer {
+    const valbuff:Buffer = this.validator.toBuffer();
+    const barr:Array<Buffer> = [valbuff, this.networkid, this.nonce, this.destination];
+    return Buffer.concat(barr, valbuff.length + 12 + this.destination.length);
+  }
+
+  /**
+     * Class representing an unsigned transaction delegating stake to a validator of the Default Subnet.
+     *
+     * @param networkid Optional networkid, default 3
+     * @param nonce Optional nonce of the account providing the stake and paying the fee, default 0
+     * @param validator Optional [[DurationValidator]] with the delegatee's node ID, whose weight is the delegated amount
+     * @param destination Optional address of the account the stake and reward are returned to
+     */
+  constructor(
+    networkid:number = 3, nonce:BN = new BN(0), validator:DurationValidator = undefined, destination:Buffer = undefined,
+  ) {
+    super(networkid, nonce);
+    if (typeof validator !== 'undefined' && typeof destination !== 'undefined') {
+      this.validator = validator;
+      this.destination = bintools.copyFrom(destination);
+    }
+  }
+}
+
+/**
+ * Class representing an unsigned transaction creating a Subnet.
+ */
+export class CreateSubnetTx extends PlatformBaseTx {
+  protected controlKeys:Array<Buffer> = [];
+
+  protected threshold:Buffer = Buffer.alloc(2);
+
+  getTxType():number {
+    return PlatformConstants.CREATESUBNETTX;
+  }
+
+  getSignedTxType():number {
+    return PlatformConstants.SIGNEDCREATESUBNETTX;
+  }
+
+  /**
+     * Returns the addresses of the Subnet's control keys.
+     */
+  getControlKeys = ():Array<Buffer> => this.controlKeys;
+
+  /**
+     * Returns the number of control key signatures needed to add a validator to the Subnet.
+     */
+  getThreshold = ():number => this.threshold.readUInt16BE(0);
+
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.networkid = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    this.nonce = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    const numkeys:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    this.controlKeys = [];
+    for (let i = 0; i < numkeys; i++) {
+      this.controlKeys.push(bintools.copyFrom(bytes, offset, offset + PlatformConstants.ADDRESSLENGTH));
+      offset += PlatformConstants.ADDRESSLENGTH;
+    }
+    this.threshold = bintools.copyFrom(bytes, offset, offset + 2);
+    offset += 2;
+    return offset;
+  }
+
+  toBuffer():Buffer {
+    const numkeys:Buffer = Buffer.alloc(4);
+    numkeys.writeUInt32BE(this.controlKeys.length, 0);
+    const barr:Array<Buffer> = [this.networkid, this.nonce, numkeys, ...this.controlKeys, this.threshold];
+    return Buffer.concat(barr, 18 + this.controlKeys.length * PlatformConstants.ADDRESSLENGTH);
+  }
+
+  /**
+     * Class representing an unsigned transaction creating a Subnet.
+     *
+     * @param networkid Optional networkid, default 3
+     * @param nonce Optional nonce of the account paying the fee, default 0
+     * @param controlKeys Optional array of the addresses of the Subnet's control keys
+     * @param threshold Optional number of control key signatures needed to add a validator to the Subnet
+     */
+  constructor(
+    networkid:number = 3, nonce:BN = new BN(0), controlKeys:Array<Buffer> = undefined, threshold:number = undefined,
+  ) {
+    super(networkid, nonce);
+    if (typeof controlKeys !== 'undefined' && typeof threshold !== 'undefined') {
+      if (threshold > controlKeys.length) {
+        throw new Error(`Error - CreateSubnetTx.constructor: threshold ${threshold} exceeds the ${controlKeys.length} control keys`);
+      }
+      this.controlKeys = controlKeys.map((k) => bintools.copyFrom(k));
+      this.threshold.writeUInt16BE(threshold, 0);
+    }
+  }
+}
+
+/**
+ * Class representing an unsigned transaction creating a blockchain validated by a Subnet.
+ */
+export class CreateChainTx extends PlatformBaseTx {
+  protected subnetID:Buffer = Buffer.alloc(PlatformConstants.SUBNETIDLENGTH);
+
+  protected chainName:string = '';
+
+  protected vmID:Buffer = Buffer.alloc(PlatformConstants.VMIDLENGTH);
+
+  protected fxIDs:Array<Buffer> = [];
+
+  protected genesisData:Buffer = Buffer.alloc(0);
+
+  getTxType():number {
+    return PlatformConstants.CREATECHAINTX;
+  }
+
+  getSignedTxType():number {
+    return PlatformConstants.SIGNEDCREATECHAINTX;
+  }
+
+  hasControlSigs():boolean {
+    return true;
+  }
+
+  /**
+     * Returns the {@link https://github.com/feross/buffer|Buffer} of the SubnetID validating the blockchain.
+     */
+  getSubnetID = ():Buffer => this.subnetID;
+
+  /**
+     * Returns the human-readable name of the blockchain.
+     */
+  getChainName = ():string => this.chainName;
+
+  /**
+     * Returns the {@link https://github.com/feross/buffer|Buffer} of the ID of the Virtual Machine the blockchain runs.
+     */
+  getVMID = ():Buffer => this.vmID;
+
+  /**
+     * Returns the IDs of the feature extensions the blockchain runs.
+     */
+  getFxIDs = ():Array<Buffer> => this.fxIDs;
+
+  /**
+     * Returns the genesis state of the blockchain.
+     */
+  getGenesisData = ():Buffer => this.genesisData;
+
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.networkid = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    this.subnetID = bintools.copyFrom(bytes, offset, offset + PlatformConstants.SUBNETIDLENGTH);
+    offset += PlatformConstants.SUBNETIDLENGTH;
+    this.nonce = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    const namesize:number = bintools.copyFrom(bytes, offset, offset + 2).readUInt16BE(0);
+    offset += 2;
+    this.chainName = bintools.copyFrom(bytes, offset, offset + namesize).toString('utf8');
+    offset += namesize;
+    this.vmID = bintools.copyFrom(bytes, offset, offset + PlatformConstants.VMIDLENGTH);
+    offset += PlatformConstants.VMIDLENGTH;
+    const numfxs:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    this.fxIDs = [];
+    for (let i = 0; i < numfxs; i++) {
+      this.fxIDs.push(bintools.copyFrom(bytes, offset, offset + 32));
+      offset += 32;
+    }
+    const genesissize:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    this.genesisData = bintools.copyFrom(bytes, offset, offset + genesissize);
+    offset += genesissize;
+    return offset;
+  }
+
+  toBuffer():Buffer {
+    const namebuff:Buffer = Buffer.from(this.chainName, 'utf8');
+    const namesize:Buffer = Buffer.alloc(2);
+    namesize.writeUInt16BE(namebuff.length, 0);
+    const numfxs:Buffer = Buffer.alloc(4);
+    numfxs.writeUInt32BE(this.fxIDs.length, 0);
+    const genesissize:Buffer = Buffer.alloc(4);
+    genesissize.writeUInt32BE(this.genesisData.length, 0);
+    const barr:Array<Buffer> = [
+      this.networkid, this.subnetID, this.nonce, namesize, namebuff, this.vmID, numfxs, ...this.fxIDs, genesissize, this.genesisData,
+    ];
+    return Buffer.concat(barr);
+  }
+
+  /**
+     * Class representing an unsigned transaction creating a blockchain.
+     *
+     * @param networkid Optional networkid, default 3
+     * @param nonce Optional nonce of the account paying the fee, default 0
+     * @param subnetID Optional {@link https://github.com/feross/buffer|Buffer} of the SubnetID validating the blockchain
+     * @param chainName Optional human-readable name of the blockchain, at most 128 bytes
+     * @param vmID Optional {@link https://github.com/feross/buffer|Buffer} of the ID of the Virtual Machine the blockchain runs
+     * @param fxIDs Optional array of the IDs of the feature extensions the blockchain runs
+     * @param genesisData Optional {@link https://github.com/feross/buffer|Buffer} of the genesis state of the blockchain
+     */
+  constructor(
+    networkid:number = 3, nonce:BN = new BN(0), subnetID:Buffer = undefined, chainName:string = undefined,
+    vmID:Buffer = undefined, fxIDs:Array<Buffer> = [], genesisData:Buffer = undefined,
+  ) {
+    super(networkid, nonce);
+    if (typeof subnetID !== 'undefined' && typeof chainName === 'string' && typeof vmID !== 'undefined' && typeof genesisData !== 'undefined') {
+      if (Buffer.from(chainName, 'utf8').length > PlatformConstants.CHAINNAMEMAXLEN) {
+        throw new Error(`Error - CreateChainTx.constructor: chainName may not exceed length of ${PlatformConstants.CHAINNAMEMAXLEN}`);
+      }
+      this.subnetID = bintools.copyFrom(subnetID);
+      this.chainName = chainName;
+      this.vmID = bintools.copyFrom(vmID);
+      this.fxIDs = fxIDs.map((id) => bintools.copyFrom(id));
+      this.genesisData = bintools.copyFrom(genesisData);
+    }
+  }
+}
+
+/**
+ * Class representing an unsigned transaction sending AVA from an account on the Platform chain to the X-Chain.
+ */
+export class PlatformExportTx extends PlatformBaseTx {
+  protected outs:Array<TransferableOutput> = [];
+
+  getTxType():number {
+    return PlatformConstants.EXPORTTX;
+  }
+
+  getSignedTxType():number {
+    return PlatformConstants.SIGNEDEXPORTTX;
+  }
+
+  /**
+     * Returns the array of exported [[TransferableOutput]]s
+     */
+  getOuts = ():Array<TransferableOutput> => this.outs;
+
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.networkid = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    this.nonce = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    const numouts:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    this.outs = [];
+    for (let i = 0; i < numouts; i++) {
+      const xferout:TransferableOutput = new TransferableOutput();
+      offset = xferout.fromBuffer(bytes, offset);
+      this.outs.push(xferout);
+    }
+    return offset;
+  }
+
+  toBuffer():Buffer {
+    this.outs.sort(TransferableOutput.comparator());
+    const numouts:Buffer = Buffer.alloc(4);
+    numouts.writeUInt32BE(this.outs.length, 0);
+    return Buffer.concat([this.networkid, this.nonce, numouts, ...this.outs.map((o) => o.toBuffer())]);
+  }
+
+  /**
+     * Class representing an unsigned transaction exporting AVA from the Platform chain.
+     *
+     * @param networkid Optional networkid, default 3
+     * @param nonce Optional nonce of the account sending the AVA and paying the fee, default 0
+     * @param outs Optional array of the [[TransferableOutput]]s created on the X-Chain
+     */
+  constructor(networkid:number = 3, nonce:BN = new BN(0), outs:Array<TransferableOutput> = undefined) {
+    super(networkid, nonce);
+    if (typeof outs !== 'undefined') {
+      this.outs = outs.sort(TransferableOutput.comparator());
+    }
+  }
+}
+
+/**
+ * Class representing an unsigned transaction importing AVA exported from the X-Chain into an account on the Platform chain.
+ */
+export class PlatformImportTx extends PlatformBaseTx {
+  protected account:Buffer = Buffer.alloc(PlatformConstants.ADDRESSLENGTH);
+
+  protected ins:Array<TransferableInput> = [];
+
+  getTxType():number {
+    return PlatformConstants.IMPORTTX;
+  }
+
+  getSignedTxType():number {
+    return PlatformConstants.SIGNEDIMPORTTX;
+  }
+
+  hasCredentials():boolean {
+    return true;
+  }
+
+  /**
+     * Returns the address of the account receiving the AVA.
+     */
+  getAccount = ():Buffer => this.account;
+
+  /**
+     * Returns the array of imported [[TransferableInput]]s
+     */
+  getIns = ():Array<TransferableInput> => this.ins;
+
+  /**
+     * Returns the [[SigIdx]]s which each [[Credential]] of the signed transaction must satisfy, in order.
+     */
+  getSigIdxs():Array<Array<SigIdx>> {
+    return this.ins.map((xferin) => xferin.getInput().getSigIdxs());
+  }
+
+  /**
+     * Returns the credential ID of each [[Credential]] of the signed transaction, in order.
+     */
+  getCredentialIDs():Array<number> {
+    return this.ins.map((xferin) => xferin.getInput().getCredentialID());
+  }
+
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.networkid = bintools.copyFrom(bytes, offset, offset + 4);
+    offset += 4;
+    this.nonce = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    this.account = bintools.copyFrom(bytes, offset, offset + PlatformConstants.ADDRESSLENGTH);
+    offset += PlatformConstants.ADDRESSLENGTH;
+    const numins:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    this.ins = [];
+    for (let i = 0; i < numins; i++) {
+      const xferin:TransferableInput = new TransferableInput();
+      offset = xferin.fromBuffer(bytes, offset);
+      this.ins.push(xferin);
+    }
+    return offset;
+  }
+
+  toBuffer():Buffer {
+    this.ins.sort(TransferableInput.comparator());
+    const numins:Buffer = Buffer.alloc(4);
+    numins.writeUInt32BE(this.ins.length, 0);
+    return Buffer.concat([this.networkid, this.nonce, this.account, numins, ...this.ins.map((i) => i.toBuffer())]);
+  }
+
+  /**
+     * Class representing an unsigned transaction importing AVA into the Platform chain.
+     *
+     * @param networkid Optional networkid, default 3
+     * @param nonce Optional nonce of the account receiving the AVA and paying the fee, default 0
+     * @param account Optional address of the account receiving the AVA
+     * @param ins Optional array of the [[TransferableInput]]s spending the UTXOs exported from the X-Chain
+     */
+  constructor(
+    networkid:number = 3, nonce:BN = new BN(0), account:Buffer = undefined, ins:Array<TransferableInput> = undefined,
+  ) {
+    super(networkid, nonce);
+    if (typeof account !== 'undefined' && typeof ins !== 'undefined') {
+      this.account = bintools.copyFrom(account);
+      this.ins = ins.sort(TransferableInput.comparator());
+    }
+  }
+}
+
+/**
+ * Takes the type ID of a Platform chain transaction, either unsigned or signed, and returns an instance of its class.
+ *
+ * @param txtype The type ID of the transaction
+ *
+ * @returns An instance of a [[PlatformBaseTx]]-extended class.
+ */
+export const SelectPlatformTxClass = (txtype:number, ...args:Array<any>):PlatformBaseTx => {
+  if (txtype === PlatformConstants.ADDDEFAULTSUBNETVALIDATORTX || txtype === PlatformConstants.SIGNEDADDDEFAULTSUBNETVALIDATORTX) {
+    return new AddDefaultSubnetValidatorTx(...args);
+  } if (txtype === PlatformConstants.ADDNONDEFAULTSUBNETVALIDATORTX || txtype === PlatformConstants.SIGNEDADDNONDEFAULTSUBNETVALIDATORTX) {
+    return new AddNonDefaultSubnetValidatorTx(...args);
+  } if (txtype === PlatformConstants.ADDDEFAULTSUBNETDELEGATORTX || txtype === PlatformConstants.SIGNEDADDDEFAULTSUBNETDELEGATORTX) {
+    return new AddDefaultSubnetDelegatorTx(...args);
+  } if (txtype === PlatformConstants.CREATESUBNETTX || txtype === PlatformConstants.SIGNEDCREATESUBNETTX) {
+    return new CreateSubnetTx(...args);
+  } if (txtype === PlatformConstants.CREATECHAINTX || txtype === PlatformConstants.SIGNEDCREATECHAINTX) {
+    return new CreateChainTx(...args);
+  } if (txtype === PlatformConstants.EXPORTTX || txtype === PlatformConstants.SIGNEDEXPORTTX) {
+    return new PlatformExportTx(...args);
+  } if (txtype === PlatformConstants.IMPORTTX || txtype === PlatformConstants.SIGNEDIMPORTTX) {
+    return new PlatformImportTx(...args);
+  }
+  throw new Error(`Error - SelectPlatformTxClass: unknown txtype ${txtype}`);
+};
+
+/**
+ * Class representing an unsigned Platform chain transaction, as returned by [[PlatformAPI.addDefaultSubnetValidator]] and similar methods.
+ */
+export class PlatformUnsignedTx {
+  protected transaction:PlatformBaseTx;
+
+  /**
+     * Returns the [[PlatformBaseTx]]-extended transaction.
+     */
+  getTransaction = ():PlatformBaseTx => this.transaction;
+
+  /**
+     * Takes a {@link https://github.com/feross/buffer|Buffer} containing a [[PlatformUnsignedTx]], parses it, populates the class, and returns the offset following it.
+     */
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    const txtype:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    this.transaction = SelectPlatformTxClass(txtype);
+    if (this.transaction.getTxType() !== txtype) {
+      throw new Error(`Error - PlatformUnsignedTx.fromBuffer: txtype ${txtype} is a signed transaction`);
+    }
+    return this.transaction.fromBuffer(bytes, offset);
+  }
+
+  /**
+     * Returns a {@link https://github.com/feross/buffer|Buffer} representation of the [[PlatformUnsignedTx]], which is the message signed by its signers.
+     */
+  toBuffer():Buffer {
+    const txtype:Buffer = Buffer.alloc(4);
+    txtype.writeUInt32BE(this.transaction.getTxType(), 0);
+    const basebuff:Buffer = this.transaction.toBuffer();
+    return Buffer.concat([txtype, basebuff], txtype.length + basebuff.length);
+  }
+
+  /**
+     * Takes an AVA serialized string containing a [[PlatformUnsignedTx]], parses it, populates the class, and returns the offset following it.
+     */
+  fromString(serialized:string):number {
+    return this.fromBuffer(bintools.avaDeserialize(serialized));
+  }
+
+  /**
+     * Returns an AVA serialized representation of the [[PlatformUnsignedTx]].
+     */
+  toString():string {
+    return bintools.avaSerialize(this.toBuffer());
+  }
+
+  /**
+     * Signs this [[PlatformUnsignedTx]] with keys held in memory and returns the signed [[PlatformTx]], ready for [[PlatformAPI.issueTx]].
+     *
+     * @param kc An [[AVMKeyChain]] holding the keys of the payer and of the control signers
+     * @param payer The address of the account paying the fee, which is the account whose nonce is in the transaction
+     * @param controlSigners Optional addresses of the Subnet control keys signing, for transactions where [[PlatformBaseTx.hasControlSigs]] is true
+     * @param inputSigners Optional addresses signing the inputs of a [[PlatformImportTx]], one array per input in the order of [[PlatformImportTx.getSigIdxs]]
+     *
+     * @returns A signed [[PlatformTx]]
+     *
+     * @remarks
+     * The control signatures are sorted by their bytes, with duplicates removed, as the Platform chain requires
+     * regardless of the order the control signers are given in.
+     *
+     * The inputs of a [[PlatformImportTx]] are signed with the keys of their [[SigIdx]] sources. The sources are not
+     * serialized, so an import parsed from a string or a {@link https://github.com/feross/buffer|Buffer} has none:
+     * its signers must then be given in `inputSigners`, where `inputSigners[i][j]` signs the SigIdx j of input i.
+     */
+  sign(kc:AVMKeyChain, payer:Buffer, controlSigners:Array<Buffer> = [], inputSigners:Array<Array<Buffer>> = []):PlatformTx {
+    const msg:Buffer = Buffer.from(createHash('sha256').update(this.toBuffer()).digest());
+    if (controlSigners.length > 0 && !this.transaction.hasControlSigs()) {
+      throw new Error(`Error - PlatformUnsignedTx.sign: txtype ${this.transaction.getTxType()} does not take control signatures`);
+    }
+    const controlSigs:Array<Signature> = controlSigners.map((addr) => signWith(kc, addr, msg, 'control'))
+      .sort((a, b) => Buffer.compare(a.toBuffer(), b.toBuffer()))
+      .filter((sig, i, sorted) => i === 0 || !sig.toBuffer().equals(sorted[i - 1].toBuffer()));
+    const payerSig:Signature = signWith(kc, payer, msg, 'payer');
+    const credentials:Array<Credential> = [];
+    if (this.transaction instanceof PlatformImportTx) {
+      const credids:Array<number> = this.transaction.getCredentialIDs();
+      this.transaction.getSigIdxs().forEach((sigidxs, i) => {
+        const cred:Credential = SelectCredentialClass(credids[i]);
+        sigidxs.forEach((sigidx, j) => {
+          const source:Buffer = typeof sigidx.getSource() !== 'undefined' ? sigidx.getSource() : (inputSigners[i] || [])[j];
+          if (typeof source === 'undefined') {
+            throw new Error(`Error - PlatformUnsignedTx.sign: the input address is unknown for signature ${j} of input ${i}, `
+            + 'pass it in inputSigners');
+          }
+          cred.addSignature(signWith(kc, source, msg, 'input'));
+        });
+        credentials.push(cred);
+      });
+    }
+    return new PlatformTx(this, payerSig, controlSigs, credentials);
+  }
+
+  constructor(transaction:PlatformBaseTx = undefined) {
+    this.transaction = transaction;
+  }
+}
+
+/**
+ * Class representing a signed Platform chain transaction, as accepted by [[PlatformAPI.issueTx]].
+ *
+ * @remarks
+ * The signed form is the signed type ID, the transaction's fields, then the control key signatures for transactions
+ * where [[PlatformBaseTx.hasControlSigs]] is true, the payer's signature, and the [[Credential]]s for transactions
+ * where [[PlatformBaseTx.hasCredentials]] is true.
+ */
+export class PlatformTx {
+  protected unsignedTx:PlatformUnsignedTx = new PlatformUnsignedTx();
+
+  protected controlSigs:Array<Signature> = [];
+
+  protected payerSig:Signature = new Signature();
+
+  protected credentials:Array<Credential> = [];
+
+  /**
+     * Returns the [[PlatformUnsignedTx]] of the [[PlatformTx]]
+     */
+  getUnsignedTx = ():PlatformUnsignedTx => this.unsignedTx;
+
+  /**
+     * Returns the [[Signature]]s of the Subnet's control keys
+     */
+  getControlSigs = ():Array<Signature> => this.controlSigs;
+
+  /**
+     * Returns the [[Signature]] of the paying account
+     */
+  getPayerSig = ():Signature => this.payerSig;
+
+  /**
+     * Returns the [[Credential]]s spending the inputs of an import
+     */
+  getCredentials = ():Array<Credential> => this.credentials;
+
+  /**
+     * Takes a {@link https://github.com/feross/buffer|Buffer} containing a [[PlatformTx]], parses it, populates the class, and returns the offset following it.
+     */
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    const txtype:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+    offset += 4;
+    const tx:PlatformBaseTx = SelectPlatformTxClass(txtype);
+    if (tx.getSignedTxType() !== txtype) {
+      throw new Error(`Error - PlatformTx.fromBuffer: txtype ${txtype} is an unsigned transaction`);
+    }
+    offset = tx.fromBuffer(bytes, offset);
+    this.unsignedTx = new PlatformUnsignedTx(tx);
+    this.controlSigs = [];
+    if (tx.hasControlSigs()) {
+      const numsigs:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+      offset += 4;
+      for (let i = 0; i < numsigs; i++) {
+        const sig:Signature = new Signature();
+        offset = sig.fromBuffer(bytes, offset);
+        this.controlSigs.push(sig);
+      }
+    }
+    this.payerSig = new Signature();
+    offset = this.payerSig.fromBuffer(bytes, offset);
+    this.credentials = [];
+    if (tx.hasCredentials()) {
+      const numcreds:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+      offset += 4;
+      for (let i = 0; i < numcreds; i++) {
+        const credid:number = bintools.copyFrom(bytes, offset, offset + 4).readUInt32BE(0);
+        offset += 4;
+        const cred:Credential = SelectCredentialClass(credid);
+        offset = cred.fromBuffer(bytes, offset);
+        this.credentials.push(cred);
+      }
+    }
+    return offset;
+  }
+
+  /**
+     * Returns a {@link https://github.com/feross/buffer|Buffer} representation of the [[PlatformTx]].
+     */
+  toBuffer():Buffer {
+    const tx:PlatformBaseTx = this.unsignedTx.getTransaction();
+    const txtype:Buffer = Buffer.alloc(4);
+    txtype.writeUInt32BE(tx.getSignedTxType(), 0);
+    const barr:Array<Buffer> = [txtype, tx.toBuffer()];
+    if (tx.hasControlSigs()) {
+      const numsigs:Buffer = Buffer.alloc(4);
+      numsigs.writeUInt32BE(this.controlSigs.length, 0);
+      barr.push(numsigs, ...this.controlSigs.map((sig) => sig.toBuffer()));
+    }
+    barr.push(this.payerSig.toBuffer());
+    if (tx.hasCredentials()) {
+      const numcreds:Buffer = Buffer.alloc(4);
+      numcreds.writeUInt32BE(this.credentials.length, 0);
+      barr.push(numcreds);
+      for (let i = 0; i < this.credentials.length; i++) {
+        const credid:Buffer = Buffer.alloc(4);
+        credid.writeUInt32BE(this.credentials[i].getCredentialID(), 0);
+        barr.push(credid, this.credentials[i].toBuffer());
+      }
+    }
+    return Buffer.concat(barr);
+  }
+
+  /**
+     * Takes an AVA serialized string containing a [[PlatformTx]], parses it, populates the class, and returns the offset following it.
+     */
+  fromString(serialized:string):number {
+    return this.fromBuffer(bintools.avaDeserialize(serialized));
+  }
+
+  /**
+     * Returns an AVA serialized representation of the [[PlatformTx]].
+     */
+  toString():string {
+    return bintools.avaSerialize(this.toBuffer());
+  }
+
+  /**
+     * Class representing a signed Platform chain transaction.
+     *
+     * @param unsignedTx Optional [[PlatformUnsignedTx]]
+     * @param payerSig Optional [[Signature]] of the paying account
+     * @param controlSigs Optional array of [[Signature]]s of the Subnet's control keys
+     * @param credentials Optional array of [[Credential]]s spending the inputs of an import
+     */
+  constructor(
+    unsignedTx:PlatformUnsignedTx = undefined, payerSig:Signature = undefined,
+    controlSigs:Array<Signature> = [], credentials:Array<Credential> = [],
+  ) {
+    if (typeof unsignedTx !== 'undefined') {
+      this.unsignedTx = unsignedTx;
+      if (typeof payerSig !== 'undefined') {
+        this.payerSig = payerSig;
+      }
+      this.controlSigs = controlSigs;
+      this.credentials = credentials;
+    }
+  }
+}
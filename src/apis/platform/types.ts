@@ -0,0 +1,410 @@
+/**
+ * @packageDocumentation
+ * @module PlatformAPI-Types
+ */
+import { Buffer } from 'buffer/';
+import BN from 'bn.js';
+import BinTools from '../../utils/bintools';
+import { ResponseParser } from '../../utils/responses';
+
+/**
+ * @ignore
+ */
+const bintools:BinTools = BinTools.getInstance();
+
+/**
+ * Type IDs and lengths used by the Platform chain codec.
+ *
+ * @remarks
+ * Each transaction has one type ID for its unsigned form, which is what gets signed, and one for its signed form,
+ * which is what [[PlatformAPI.issueTx]] accepts.
+ */
+export class PlatformConstants {
+  static ADDDEFAULTSUBNETVALIDATORTX:number = 5;
+
+  static SIGNEDADDDEFAULTSUBNETVALIDATORTX:number = 6;
+
+  static ADDNONDEFAULTSUBNETVALIDATORTX:number = 7;
+
+  static SIGNEDADDNONDEFAULTSUBNETVALIDATORTX:number = 8;
+
+  static ADDDEFAULTSUBNETDELEGATORTX:number = 9;
+
+  static SIGNEDADDDEFAULTSUBNETDELEGATORTX:number = 10;
+
+  static CREATECHAINTX:number = 11;
+
+  static SIGNEDCREATECHAINTX:number = 12;
+
+  static CREATESUBNETTX:number = 13;
+
+  static SIGNEDCREATESUBNETTX:number = 14;
+
+  static IMPORTTX:number = 15;
+
+  static SIGNEDIMPORTTX:number = 16;
+
+  static EXPORTTX:number = 17;
+
+  static SIGNEDEXPORTTX:number = 18;
+
+  static NODEIDLENGTH:number = 20;
+
+  static ADDRESSLENGTH:number = 20;
+
+  static SUBNETIDLENGTH:number = 32;
+
+  static BLOCKCHAINIDLENGTH:number = 32;
+
+  static VMIDLENGTH:number = 32;
+
+  static CHAINNAMEMAXLEN:number = 128;
+
+  static DEFAULTSUBNETID:string = '11111111111111111111111111111111LpoYY';
+}
+
+/**
+ * Class for representing a validator over a period of time, as staked by the Platform chain's validator and delegator transactions.
+ */
+export class DurationValidator {
+  protected nodeID:Buffer = Buffer.alloc(PlatformConstants.NODEIDLENGTH);
+
+  protected weight:Buffer = Buffer.alloc(8);
+
+  protected startTime:Buffer = Buffer.alloc(8);
+
+  protected endTime:Buffer = Buffer.alloc(8);
+
+  /**
+     * Returns the {@link https://github.com/feross/buffer|Buffer} of the validator's node ID.
+     */
+  getNodeID = ():Buffer => this.nodeID;
+
+  /**
+     * Returns the weight of the validator, which is its stake amount on the Default Subnet, as a {@link https://github.com/indutny/bn.js/|BN}.
+     */
+  getWeight = ():BN => bintools.fromBufferToBN(this.weight);
+
+  /**
+     * Returns the time validation starts, in seconds since the UNIX epoch, as a {@link https://github.com/indutny/bn.js/|BN}.
+     */
+  getStartTime = ():BN => bintools.fromBufferToBN(this.startTime);
+
+  /**
+     * Returns the time validation ends, in seconds since the UNIX epoch, as a {@link https://github.com/indutny/bn.js/|BN}.
+     */
+  getEndTime = ():BN => bintools.fromBufferToBN(this.endTime);
+
+  /**
+     * Takes a {@link https://github.com/feross/buffer|Buffer} containing a [[DurationValidator]], parses it, populates the class, and returns the offset following it.
+     */
+  fromBuffer(bytes:Buffer, offset:number = 0):number {
+    this.nodeID = bintools.copyFrom(bytes, offset, offset + PlatformConstants.NODEIDLENGTH);
+    offset += PlatformConstants.NODEIDLENGTH;
+    this.weight = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    this.startTime = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    this.endTime = bintools.copyFrom(bytes, offset, offset + 8);
+    offset += 8;
+    return offset;
+  }
+
+  /**
+     * Returns a {@link https://github.com/feross/buffer|Buffer} representation of the [[DurationValidator]].
+     */
+  toBuffer():Buffer {
+    const barr:Array<Buffer> = [this.nodeID, this.weight, this.startTime, this.endTime];
+    return Buffer.concat(barr, this.nodeID.length + 24);
+  }
+
+  /**
+     * Class representing a validator over a period of time.
+     *
+     * @param nodeID Optional. The 20-byte {@link https://github.com/feross/buffer|Buffer} of the validator's node ID
+     * @param weight Optional. The weight of the validator as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param startTime Optional. The UNIX time in seconds validation starts, as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param endTime Optional. The UNIX time in seconds validation ends, as a {@link https://github.com/indutny/bn.js/|BN}
+     */
+  constructor(nodeID:Buffer = undefined, weight:BN = undefined, startTime:BN = undefined, endTime:BN = undefined) {
+    if (typeof nodeID !== 'undefined' && typeof weight !== 'undefined'
+      && typeof startTime !== 'undefined' && typeof endTime !== 'undefined') {
+      if (nodeID.length !== PlatformConstants.NODEIDLENGTH) {
+        throw new Error(`Error - DurationValidator.constructor: node ID must be ${PlatformConstants.NODEIDLENGTH} bytes`);
+      }
+      if (endTime.lte(startTime)) {
+        throw new Error('Error - DurationValidator.constructor: endTime must be after startTime');
+      }
+      this.nodeID = bintools.copyFrom(nodeID);
+      this.weight = bintools.fromBNToBuffer(weight, 8);
+      this.startTime = bintools.fromBNToBuffer(startTime, 8);
+      this.endTime = bintools.fromBNToBuffer(endTime, 8);
+    }
+  }
+}
+
+/**
+ * Class for representing a validator as listed by [[PlatformAPI.getCurrentValidators]] and [[PlatformAPI.getPendingValidators]].
+ */
+export class Validator {
+  protected nodeID:string;
+
+  protected startTime:Date;
+
+  protected endTime:Date;
+
+  protected stakeAmount:BN;
+
+  protected address:string;
+
+  /**
+     * Returns the node ID of the validator.
+     */
+  getNodeID = ():string => this.nodeID;
+
+  /**
+     * Returns the time the validator starts validating.
+     */
+  getStartTime = ():Date => this.startTime;
+
+  /**
+     * Returns the time the validator stops validating.
+     */
+  getEndTime = ():Date => this.endTime;
+
+  /**
+     * Returns the stake amount of the validator as a {@link https://github.com/indutny/bn.js/|BN}. On the Default Subnet
+     * this is the staked $AVA, on other subnets it is the weight of the validator.
+     */
+  getStakeAmount = ():BN => this.stakeAmount;
+
+  /**
+     * Returns the address staking rewards are sent to, or undefined if the node did not list one.
+     */
+  getAddress = ():string => this.address;
+
+  /**
+     * Populates the class from a validator in a node's response, checking its shape.
+     *
+     * @param json The validator object from the response
+     * @param parser Optional. The [[ResponseParser]] reporting errors for the calling method
+     * @param path Optional. The path of the validator in the response
+     *
+     * @returns This [[Validator]]
+     */
+  fromJSON(json:any, parser:ResponseParser = new ResponseParser('Validator.fromJSON'), path:string = 'validator'):Validator {
+    parser.object(json, path);
+    this.nodeID = parser.getString(json, 'id', path);
+    this.startTime = parser.getDate(json, 'startTime', path);
+    this.endTime = parser.getDate(json, 'endTime', path);
+    if ('stakeAmount' in json) {
+      this.stakeAmount = parser.getBN(json, 'stakeAmount', path);
+    } else {
+      this.stakeAmount = parser.getBN(json, 'weight', path);
+    }
+    this.address = 'address' in json ? parser.getString(json, 'address', path) : undefined;
+    if (this.endTime.getTime() <= this.startTime.getTime()) {
+      parser.fail(`${path}.endTime`, 'must be after startTime');
+    }
+    return this;
+  }
+
+  /**
+     * Class representing a validator listed by the Platform chain.
+     *
+     * @param nodeID Optional. The node ID of the validator
+     * @param startTime Optional. The time the validator starts validating
+     * @param endTime Optional. The time the validator stops validating
+     * @param stakeAmount Optional. The stake amount or weight of the validator as a {@link https://github.com/indutny/bn.js/|BN}
+     * @param address Optional. The address staking rewards are sent to
+     */
+  constructor(nodeID:string = undefined, startTime:Date = undefined, endTime:Date = undefined,
+    stakeAmount:BN = undefined, address:string = undefined) {
+    this.nodeID = nodeID;
+    this.startTime = startTime;
+    this.endTime = endTime;
+    this.stakeAmount = stakeAmount;
+    this.address = address;
+  }
+}
+
+/**
+ * Class for representing a subnet as listed by [[PlatformAPI.getSubnets]].
+ */
+export class Subnet {
+  protected id:string;
+
+  protected controlKeys:Array<string>;
+
+  protected threshold:number;
+
+  /**
+     * Returns the ID of the subnet.
+     */
+  getID = ():string => this.id;
+
+  /**
+     * Returns the addresses of the keys controlling the subnet.
+     */
+  getControlKeys = ():Array<string> => this.controlKeys;
+
+  /**
+     * Returns the number of control keys which must sign to add a validator or a blockchain to the subnet.
+     */
+  getThreshold = ():number => this.threshold;
+
+  /**
+     * Populates the class from a subnet in a node's response, checking its shape.
+     *
+     * @param json The subnet object from the response
+     * @param parser Optional. The [[ResponseParser]] reporting errors for the calling method
+     * @param path Optional. The path of the subnet in the response
+     *
+     * @returns This [[Subnet]]
+     */
+  fromJSON(json:any, parser:ResponseParser = new ResponseParser('Subnet.fromJSON'), path:string = 'subnet'):Subnet {
+    parser.object(json, path);
+    this.id = parser.getString(json, 'id', path);
+    this.controlKeys = parser.getStrings(json, 'controlKeys', path);
+    this.threshold = parser.getNumber(json, 'threshold', path);
+    if (this.threshold > this.controlKeys.length) {
+      parser.fail(`${path}.threshold`, `exceeds the ${this.controlKeys.length} control keys`);
+    }
+    return this;
+  }
+
+  /**
+     * Class representing a subnet.
+     *
+     * @param id Optional. The ID of the subnet
+     * @param controlKeys Optional. The addresses of the keys controlling the subnet
+     * @param threshold Optional. The number of control keys which must sign
+     */
+  constructor(id:string = undefined, controlKeys:Array<string> = [], threshold:number = 0) {
+    this.id = id;
+    this.controlKeys = controlKeys;
+    this.threshold = threshold;
+  }
+}
+
+/**
+ * Class for representing a blockchain as listed by [[PlatformAPI.getBlockchains]].
+ */
+export class Blockchain {
+  protected id:string;
+
+  protected name:string;
+
+  protected subnetID:string;
+
+  protected vmID:string;
+
+  /**
+     * Returns the ID of the blockchain.
+     */
+  getID = ():string => this.id;
+
+  /**
+     * Returns the human-readable name of the blockchain.
+     */
+  getName = ():string => this.name;
+
+  /**
+     * Returns the ID of the subnet validating the blockchain.
+     */
+  getSubnetID = ():string => this.subnetID;
+
+  /**
+     * Returns the ID of the Virtual Machine the blockchain runs.
+     */
+  getVMID = ():string => this.vmID;
+
+  /**
+     * Populates the class from a blockchain in a node's response, checking its shape.
+     *
+     * @param json The blockchain object from the response
+     * @param parser Optional. The [[ResponseParser]] reporting errors for the calling method
+     * @param path Optional. The path of the blockchain in the response
+     *
+     * @returns This [[Blockchain]]
+     */
+  fromJSON(json:any, parser:ResponseParser = new ResponseParser('Blockchain.fromJSON'), path:string = 'blockchain'):Blockchain {
+    parser.object(json, path);
+    this.id = parser.getString(json, 'id', path);
+    this.name = parser.getString(json, 'name', path);
+    this.subnetID = parser.getString(json, 'subnetID', path);
+    this.vmID = parser.getString(json, 'vmID', path);
+    return this;
+  }
+
+  /**
+     * Class representing a blockchain.
+     *
+     * @param id Optional. The ID of the blockchain
+     * @param name Optional. The human-readable name of the blockchain
+     * @param subnetID Optional. The ID of the subnet validating the blockchain
+     * @param vmID Optional. The ID of the Virtual Machine the blockchain runs
+     */
+  constructor(id:string = undefined, name:string = undefined, subnetID:string = undefined, vmID:string = undefined) {
+    this.id = id;
+    this.name = name;
+    this.subnetID = subnetID;
+    this.vmID = vmID;
+  }
+}
+
+/**
+ * Class for representing a Platform chain account as returned by [[PlatformAPI.getAccount]] and [[PlatformAPI.listAccounts]].
+ */
+export class Account {
+  protected address:string;
+
+  protected nonce:number;
+
+  protected balance:BN;
+
+  /**
+     * Returns the address of the account.
+     */
+  getAddress = ():string => this.address;
+
+  /**
+     * Returns the nonce of the last transaction paid by the account. The next transaction must use the nonce plus one.
+     */
+  getNonce = ():number => this.nonce;
+
+  /**
+     * Returns the balance of the account in $nAVA as a {@link https://github.com/indutny/bn.js/|BN}.
+     */
+  getBalance = ():BN => this.balance;
+
+  /**
+     * Populates the class from an account in a node's response, checking its shape.
+     *
+     * @param json The account object from the response
+     * @param parser Optional. The [[ResponseParser]] reporting errors for the calling method
+     * @param path Optional. The path of the account in the response
+     *
+     * @returns This [[Account]]
+     */
+  fromJSON(json:any, parser:ResponseParser = new ResponseParser('Account.fromJSON'), path:string = 'account'):Account {
+    parser.object(json, path);
+    this.address = parser.getString(json, 'address', path);
+    this.nonce = parser.getNumber(json, 'nonce', path);
+    this.balance = parser.getBN(json, 'balance', path);
+    return this;
+  }
+
+  /**
+     * Class representing a Platform chain account.
+     *
+     * @param address Optional. The address of the account
+     * @param nonce Optional. The nonce of the last transaction paid by the account
+     * @param balance Optional. The balance of the account as a {@link https://github.com/indutny/bn.js/|BN}
+     */
+  constructor(address:string = undefined, nonce:number = 0, balance:BN = new BN(0)) {
+    this.address = address;
+    this.nonce = nonce;
+    this.balance = balance;
+  }
+}
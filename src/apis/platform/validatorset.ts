@@ -0,0 +1,200 @@
+/**
+ * @packageDocumentation
+ * @module PlatformAPI-ValidatorSet
+ */
+import BN from 'bn.js';
+import { PlatformConstants, Validator } from './types';
+
+/**
+ * @ignore
+ */
+const proportionScale:number = 1000000000;
+
+/**
+ * Returns the total stake amount of a list of validators.
+ *
+ * @param validators An array of [[Validator]]
+ *
+ * @returns The sum of the stake amounts as a {@link https://github.com/indutny/bn.js/|BN}
+ */
+export const totalStake = (validators:Array<Validator>):BN => validators.reduce((total:BN, v:Validator) => total.add(v.getStakeAmount()), new BN(0));
+
+/**
+ * Returns a copy of a list of validators sorted by the time they stop validating, soonest first. Validators ending at
+ * the same time are ordered by node ID.
+ *
+ * @param validators An array of [[Validator]]
+ */
+export const sortByEndTime = (validators:Array<Validator>):Array<Validator> => validators.slice().sort((a:Validator, b:Validator) => {
+  const diff:number = a.getEndTime().getTime() - b.getEndTime().getTime();
+  if (diff !== 0) {
+    return diff;
+  }
+  if (a.getNodeID() === b.getNodeID()) {
+    return 0;
+  }
+  return a.getNodeID() < b.getNodeID() ? -1 : 1;
+});
+
+/**
+ * Returns the validators validating at a given time, that is started at or before it and not yet ended.
+ *
+ * @param validators An array of [[Validator]]
+ * @param time The time to check
+ */
+export const activeAt = (validators:Array<Validator>, time:Date):Array<Validator> => validators.filter(
+  (v:Validator) => v.getStartTime().getTime() <= time.getTime() && time.getTime() < v.getEndTime().getTime(),
+);
+
+/**
+ * Checks whether a delegation period fits inside the window of a validator. The Platform chain only accepts a
+ * delegation which starts no earlier and ends no later than the validator it stakes on.
+ *
+ * @param validator The [[Validator]] receiving the delegation
+ * @param startTime The time the delegation starts
+ * @param endTime The time the delegation ends
+ *
+ * @returns True if the period is not empty and lies within the validator's window
+ */
+export const delegationFits = (validator:Validator, startTime:Date, endTime:Date):boolean => startTime.getTime() < endTime.getTime()
+  && validator.getStartTime().getTime() <= startTime.getTime()
+  && endTime.getTime() <= validator.getEndTime().getTime();
+
+/**
+ * Returns the share of the total stake held by each validator of a list.
+ *
+ * @param validators An array of [[Validator]]
+ *
+ * @returns An object mapping node IDs to a proportion between 0 and 1, precise to 1e-9. Every proportion is 0 if the
+ * total stake is 0. The stakes of validators listed more than once are added up.
+ */
+export const stakeProportions = (validators:Array<Validator>):{[nodeID:string]:number} => {
+  const total:BN = totalStake(validators);
+  const stakes:{[nodeID:string]:BN} = {};
+  validators.forEach((v:Validator) => {
+    stakes[v.getNodeID()] = (stakes[v.getNodeID()] || new BN(0)).add(v.getStakeAmount());
+  });
+  const proportions:{[nodeID:string]:number} = {};
+  Object.keys(stakes).forEach((nodeID:string) => {
+    proportions[nodeID] = total.isZero() ? 0 : stakes[nodeID].mul(new BN(proportionScale)).div(total).toNumber() / proportionScale;
+  });
+  return proportions;
+};
+
+/**
+ * Class for representing the current and pending validators of a subnet, as returned by [[PlatformAPI.getValidatorSet]].
+ *
+ * @remarks
+ * Methods taking an optional time project the set to that time: they consider the current and pending validators
+ * validating then. Without a time they consider the current validators.
+ *
+ * ```js
+ * const set = await avalanche.Platform().getValidatorSet();
+ * set.getTotalStake(); // stake of the current validators
+ * set.canDelegate(nodeID, start, end); // whether a delegation period fits the node's window
+ * ```
+ */
+export class ValidatorSet {
+  protected subnetID:string;
+
+  protected current:Array<Validator>;
+
+  protected pending:Array<Validator>;
+
+  /**
+     * Returns the ID of the subnet the validators validate.
+     */
+  getSubnetID = ():string => this.subnetID;
+
+  /**
+     * Returns the validators currently validating the subnet.
+     */
+  getCurrentValidators = ():Array<Validator> => this.current;
+
+  /**
+     * Returns the validators which will start validating the subnet.
+     */
+  getPendingValidators = ():Array<Validator> => this.pending;
+
+  /**
+     * Returns the current and pending validators, or those validating at a given time.
+     *
+     * @param time Optional. The time the validators must be validating at
+     */
+  getValidators = (time:Date = undefined):Array<Validator> => {
+    const all:Array<Validator> = this.current.concat(this.pending);
+    return typeof time === 'undefined' ? all : activeAt(all, time);
+  };
+
+  /**
+     * Returns the total stake amount, or weight, of the subnet's validators.
+     *
+     * @param time Optional. Projects the total to that time instead of using the current validators
+     */
+  getTotalStake = (time:Date = undefined):BN => totalStake(this.select(time));
+
+  /**
+     * Returns the share of the total stake held by each validator, as described by [[stakeProportions]].
+     *
+     * @param time Optional. Projects the proportions to that time instead of using the current validators
+     */
+  getStakeProportions = (time:Date = undefined):{[nodeID:string]:number} => stakeProportions(this.select(time));
+
+  /**
+     * Returns the current and pending validators sorted by the time they stop validating, soonest first.
+     */
+  sortByEndTime = ():Array<Validator> => sortByEndTime(this.getValidators());
+
+  /**
+     * Returns the current and pending validators of a node.
+     *
+     * @param nodeID The node ID of the validator
+     */
+  getValidatorsOf = (nodeID:string):Array<Validator> => this.getValidators().filter((v:Validator) => v.getNodeID() === nodeID);
+
+  /**
+     * Checks whether a delegation period fits inside the window of one of a node's current or pending validators.
+     *
+     * @param nodeID The node ID of the validator receiving the delegation
+     * @param startTime The time the delegation starts
+     * @param endTime The time the delegation ends
+     */
+  canDelegate = (nodeID:string, startTime:Date, endTime:Date):boolean => this.getValidatorsOf(nodeID)
+    .some((v:Validator) => delegationFits(v, startTime, endTime));
+
+  /**
+     * @ignore
+     */
+  protected select = (time:Date):Array<Validator> => (typeof time === 'undefined' ? this.current : this.getValidators(time));
+
+  /**
+     * Class representing the validators of a subnet.
+     *
+     * @param subnetID Optional. The ID of the subnet, default the Default Subnet
+     * @param current Optional. An array of the current [[Validator]]
+     * @param pending Optional. An array of the pending [[Validator]]
+     */
+  constructor(subnetID:string = PlatformConstants.DEFAULTSUBNETID, current:Array<Validator> = [], pending:Array<Validator> = []) {
+    this.subnetID = subnetID;
+    this.current = current;
+    this.pending = pending;
+  }
+}
+
+/**
+ * Returns the total stake amount, or weight, of each subnet.
+ *
+ * @param sets An array of [[ValidatorSet]], one per subnet
+ * @param time Optional. Projects the totals to that time instead of using the current validators
+ *
+ * @returns An object mapping subnet IDs to their total stake as a {@link https://github.com/indutny/bn.js/|BN}
+ */
+export const totalStakeBySubnet = (sets:Array<ValidatorSet>, time:Date = undefined):{[subnetID:string]:BN} => {
+  const totals:{[subnetID:string]:BN} = {};
+  sets.forEach((set:ValidatorSet) => {
+    totals[set.getSubnetID()] = (totals[set.getSubnetID()] || new BN(0)).add(set.getTotalStake(time));
+  });
+  return totals;
+};
+
+export default ValidatorSet;
@@ -13,6 +13,8 @@ import PlatformAPI from './apis/platform/api';
 import * as CoreTypes from './utils/types';
 import BinTools from './utils/bintools';
 import DB from './utils/db';
+import HDNode from './utils/hdnode';
+import Mnemonic from './utils/mnemonic';
 import { Defaults } from './utils/types';
 
 /**
@@ -109,12 +111,16 @@ export default class Avalanche extends AvalancheCore {
 export { Avalanche };
 export { BinTools };
 export { DB };
+export { HDNode };
+export { Mnemonic };
 export { CoreTypes };
 export { AvalancheCore };
 
 export * from './apis/avm/api';
 export * from './utils/types';
 export * from './utils/bintools';
+export * from './utils/addresscodec';
+export { ResponseParser } from './utils/responses';
 
 export {
   SelectCredentialClass, Credential, SecpCredential, NFTCredential,
@@ -123,20 +129,38 @@ export {
   SelectInputClass, Input, TransferableInput, AmountInput, SecpInput,
 } from './apis/avm/inputs';
 export { AVMKeyPair, AVMKeyChain } from './apis/avm/keychain';
+export { Signer } from './apis/avm/signer';
+export { HDKeyChain } from './apis/avm/hdkeychain';
+export { AddressScanner } from './apis/avm/scanner';
 export {
-  SelectOperationClass, Operation, TransferableOperation, NFTTransferOperation,
+  SelectOperationClass, Operation, TransferableOperation, SecpMintOperation, NFTMintOperation,
+  NFTTransferOperation,
 } from './apis/avm/ops';
 export {
-  SelectOutputClass, Output, TransferableOutput, AmountOutput, SecpOutput,
-  NFTOutBase, NFTTransferOutput,
+  SelectOutputClass, OutputOwners, Output, TransferableOutput, AmountOutput, SecpOutput,
+  SecpMintOutput, NFTMintOutput, NFTOutBase, NFTTransferOutput,
 } from './apis/avm/outputs';
 export {
-  BaseTx, CreateAssetTx, OperationTx, UnsignedTx, Tx,
+  BaseTx, CreateAssetTx, OperationTx, UnsignedTx, Tx, PartiallySignedTx, decodeTx,
 } from './apis/avm/tx';
 export {
-  SigIdx, Signature, Address, UTXOID, InitialStates, AVMConstants, MergeRule, UnixNow,
+  SigIdx, Signature, Address, UTXOID, InitialStates, Payment, AVMConstants, MergeRule, UnixNow,
 } from './apis/avm/types';
 export { UTXO, UTXOSet } from './apis/avm/utxos';
+export {
+  CoinSelector, LargestFirstSelector, SmallestFirstSelector, OldestFirstSelector, BranchAndBoundSelector, PrivacySelector,
+} from './apis/avm/selectors';
+export { FeePolicy } from './apis/avm/fees';
+export {
+  PlatformConstants, DurationValidator, Validator, Subnet, Blockchain, Account,
+} from './apis/platform/types';
+export {
+  ValidatorSet, totalStake, sortByEndTime, activeAt, delegationFits, stakeProportions, totalStakeBySubnet,
+} from './apis/platform/validatorset';
+export {
+  PlatformBaseTx, AddDefaultSubnetValidatorTx, AddNonDefaultSubnetValidatorTx, AddDefaultSubnetDelegatorTx, CreateSubnetTx,
+  CreateChainTx, PlatformExportTx, PlatformImportTx, PlatformUnsignedTx, PlatformTx, SelectPlatformTxClass,
+} from './apis/platform/tx';
 
 export { AdminAPI as Admin };
 export { AVMAPI as AVM };
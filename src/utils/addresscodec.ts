@@ -0,0 +1,147 @@
+/**
+ * @packageDocumentation
+ * @module Utils-AddressCodec
+ */
+import { Buffer } from 'buffer/';
+import BinTools from './bintools';
+import { Defaults } from './types';
+
+/**
+ * @ignore
+ */
+const bintools = BinTools.getInstance();
+
+/**
+ * Abstract class for converting addresses between their {@link https://github.com/feross/buffer|Buffer} form and
+ * the "chainid-..." strings used by the APIs.
+ *
+ * @remarks
+ * Extend this class and implement [[encodeBody]] and [[decodeBody]] to support another address format. The chain
+ * prefix and the address length are checked by [[decode]].
+ */
+export abstract class AddressCodec {
+  /**
+     * Encodes the bytes of an address, which follow the chain prefix in the address string.
+     *
+     * @param address The {@link https://github.com/feross/buffer|Buffer} of the address
+     */
+  abstract encodeBody(address:Buffer):string;
+
+  /**
+     * Decodes the part of an address string following the chain prefix. Throws on error.
+     *
+     * @param body The encoded address, without its chain prefix
+     */
+  abstract decodeBody(body:string):Buffer;
+
+  /**
+     * Returns the string representation of an address.
+     *
+     * @param chainid The alias or blockchainID prefixed to the address
+     * @param address The {@link https://github.com/feross/buffer|Buffer} of the address
+     */
+  encode(chainid:string, address:Buffer):string {
+    return `${chainid}-${this.encodeBody(address)}`;
+  }
+
+  /**
+     * Validates an address string and returns its {@link https://github.com/feross/buffer|Buffer}. Throws an error
+     * describing the problem if the address is not valid.
+     *
+     * @param address The address string, such as "X-..."
+     * @param chainids The accepted aliases and blockchainIDs, undefined entries are ignored. Any chain is accepted if undefined.
+     * @param addrlen Optional. The expected length of the address, default 20. Not checked if 0.
+     *
+     * @returns A {@link https://github.com/feross/buffer|Buffer} for the address
+     */
+  decode(address:string, chainids:Array<string>, addrlen:number = 20):Buffer {
+    const parts:Array<string> = address.split('-');
+    if (parts.length !== 2) {
+      throw new Error(`Error - AddressCodec.decode: expected "chainid-address", got ${address}`);
+    }
+    if (typeof chainids !== 'undefined') {
+      const accepted:Array<string> = chainids.filter((c) => typeof c !== 'undefined' && c !== '');
+      if (accepted.indexOf(parts[0]) === -1) {
+        throw new Error(`Error - AddressCodec.decode: wrong chain id ${parts[0]}, expected ${accepted.join(' or ')}`);
+      }
+    }
+    const addrbuff:Buffer = this.decodeBody(parts[1]);
+    if (addrlen && addrbuff.length !== addrlen) {
+      throw new Error(`Error - AddressCodec.decode: wrong address length ${addrbuff.length}, expected ${addrlen}`);
+    }
+    return addrbuff;
+  }
+}
+
+/**
+ * Codec for "chainid-base58check" addresses, where the address bytes are AVA serialized.
+ */
+export class Base58AddressCodec extends AddressCodec {
+  encodeBody(address:Buffer):string {
+    return bintools.avaSerialize(address);
+  }
+
+  decodeBody(body:string):Buffer {
+    let decoded:Buffer;
+    try {
+      decoded = bintools.b58ToBuffer(body);
+    } catch (e) {
+      throw new Error('Error - Base58AddressCodec.decodeBody: invalid base58 character');
+    }
+    if (decoded.length < 4 || !bintools.validateChecksum(decoded)) {
+      throw new Error('Error - Base58AddressCodec.decodeBody: invalid checksum');
+    }
+    return bintools.copyFrom(decoded, 0, decoded.length - 4);
+  }
+}
+
+/**
+ * Codec for "chainid-hrp1..." addresses, where the address bytes are bech32 encoded under a human-readable part
+ * naming the network.
+ *
+ * ```js
+ * const codec = Bech32AddressCodec.forNetwork(3);
+ * codec.encode("X", addr); // "X-denali1..."
+ * ```
+ */
+export class Bech32AddressCodec extends AddressCodec {
+  protected hrp:string;
+
+  /**
+     * Returns the human-readable part of the codec.
+     */
+  getHRP = ():string => this.hrp;
+
+  encodeBody(address:Buffer):string {
+    return bintools.bufferToBech32(this.hrp, address);
+  }
+
+  decodeBody(body:string):Buffer {
+    return bintools.bech32ToBuffer(body, this.hrp);
+  }
+
+  /**
+     * Returns a codec using the human-readable part of a network, as listed in [[Defaults.network]], or
+     * [[Defaults.fallbackHRP]] for unknown networks.
+     *
+     * @param networkID The ID of the network
+     */
+  static forNetwork(networkID:number):Bech32AddressCodec {
+    if (networkID in Defaults.network && 'hrp' in Defaults.network[networkID]) {
+      return new Bech32AddressCodec(Defaults.network[networkID].hrp);
+    }
+    return new Bech32AddressCodec(Defaults.fallbackHRP);
+  }
+
+  /**
+     * Class representing a bech32 address codec.
+     *
+     * @param hrp The human-readable part of the addresses, such as "avax"
+     */
+  constructor(hrp:string) {
+    super();
+    this.hrp = hrp.toLowerCase();
+  }
+}
+
+export default AddressCodec;
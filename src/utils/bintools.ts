@@ -5,6 +5,7 @@
 import BN from 'bn.js';
 import { Buffer } from 'buffer/';
 import createHash from 'create-hash';
+import crypto from 'webcrypto';
 
 /**
  * A Base58 class that uses the cross-platform Buffer module. Built so that Typescript
@@ -125,6 +126,153 @@ export class Base58 {
   };
 }
 
+/**
+ * A Bech32 class, as specified in {@link https://github.com/bitcoin/bips/blob/master/bip-0173.mediawiki|BIP173}.
+ * Strings are made of a human-readable part, the separator "1", and base-32 data ending in a 6 character checksum.
+ *
+ * ```js
+ * let b32:Bech32 = new Bech32();
+ * let str:string = b32.encode("avax", somebuffer);
+ * let { hrp, data } = b32.decode(somestring);
+ * ```
+ */
+export class Bech32 {
+  protected charset:string = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+  protected generator:Array<BN> = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3].map((g) => new BN(g));
+
+  /**
+     * Computes the BCH checksum of 5-bit values, using BN operations for the 30-bit arithmetic.
+     */
+  protected polymod = (values:Array<number>):BN => {
+    let chk:BN = new BN(1);
+    for (let i:number = 0; i < values.length; i++) {
+      const top:BN = chk.shrn(25);
+      chk = chk.maskn(25).ishln(5).iaddn(values[i]);
+      for (let j:number = 0; j < 5; j++) {
+        if (top.testn(j)) {
+          chk = chk.uxor(this.generator[j]);
+        }
+      }
+    }
+    return chk;
+  };
+
+  /**
+     * Expands the human-readable part into the values prepended to the data when computing the checksum.
+     */
+  protected hrpExpand = (hrp:string):Array<number> => {
+    const codes:Array<number> = hrp.split('').map((c) => c.charCodeAt(0));
+    return codes.map((c) => Math.floor(c / 32)).concat([0], codes.map((c) => c % 32));
+  };
+
+  /**
+     * Converts a {@link https://github.com/feross/buffer|Buffer} to 5-bit words, zero-padding the last word.
+     *
+     * @param buff A {@link https://github.com/feross/buffer|Buffer} to convert
+     *
+     * @returns An array of numbers from 0 to 31
+     */
+  toWords = (buff:Buffer):Array<number> => {
+    let bits:string = Array.from(buff).map((b:number) => `00000000${b.toString(2)}`.slice(-8)).join('');
+    bits += '0000'.slice(0, (5 - (bits.length % 5)) % 5);
+    return (bits.match(/.{5}/g) || []).map((w:string) => parseInt(w, 2));
+  };
+
+  /**
+     * Converts 5-bit words back to a {@link https://github.com/feross/buffer|Buffer}. Throws if the padding is invalid.
+     *
+     * @param words An array of numbers from 0 to 31
+     *
+     * @returns A {@link https://github.com/feross/buffer|Buffer} of the decoded bytes
+     */
+  fromWords = (words:Array<number>):Buffer => {
+    const bits:string = words.map((w:number) => `00000${w.toString(2)}`.slice(-5)).join('');
+    const padding:string = bits.slice(bits.length - (bits.length % 8));
+    if (padding.length > 4 || /1/.test(padding)) {
+      throw new Error('Error - Bech32.fromWords: invalid padding');
+    }
+    return Buffer.from((bits.match(/.{8}/g) || []).map((b:string) => parseInt(b, 2)));
+  };
+
+  /**
+     * Encodes a human-readable part and 5-bit words as a bech32 string.
+     *
+     * @param hrp The human-readable part, 1 to 83 characters from ASCII 33 to 126
+     * @param words An array of numbers from 0 to 31
+     *
+     * @returns A lowercase bech32 string
+     */
+  encodeWords = (hrp:string, words:Array<number>):string => {
+    if (hrp.length < 1 || hrp.length > 83 || !/^[\x21-\x7e]+$/.test(hrp)) {
+      throw new Error(`Error - Bech32.encodeWords: invalid human-readable part ${hrp}`);
+    }
+    const lower:string = hrp.toLowerCase();
+    const mod:BN = this.polymod(this.hrpExpand(lower).concat(words, [0, 0, 0, 0, 0, 0])).uxor(new BN(1));
+    const checksum:Array<number> = [0, 1, 2, 3, 4, 5].map((i) => mod.shrn(5 * (5 - i)).maskn(5).toNumber());
+    return `${lower}1${words.concat(checksum).map((w) => this.charset[w]).join('')}`;
+  };
+
+  /**
+     * Decodes a bech32 string into its human-readable part and 5-bit words. Throws on error.
+     *
+     * @param str The bech32 string
+     * @param limit Optional. The maximum length of the string, default 90
+     *
+     * @returns An object holding the lowercase human-readable part and the data words without the checksum
+     */
+  decodeWords = (str:string, limit:number = 90):{hrp:string; words:Array<number>} => {
+    if (str.length > limit) {
+      throw new Error(`Error - Bech32.decodeWords: string exceeds ${limit} characters`);
+    }
+    if (str !== str.toLowerCase() && str !== str.toUpperCase()) {
+      throw new Error('Error - Bech32.decodeWords: mixed case');
+    }
+    const lower:string = str.toLowerCase();
+    const sep:number = lower.lastIndexOf('1');
+    if (sep < 1) {
+      throw new Error('Error - Bech32.decodeWords: missing separator or human-readable part');
+    }
+    if (lower.length - sep - 1 < 6) {
+      throw new Error('Error - Bech32.decodeWords: data too short');
+    }
+    const hrp:string = lower.slice(0, sep);
+    if (!/^[\x21-\x7e]+$/.test(hrp)) {
+      throw new Error('Error - Bech32.decodeWords: invalid character in human-readable part');
+    }
+    const words:Array<number> = lower.slice(sep + 1).split('').map((c:string) => this.charset.indexOf(c));
+    if (words.indexOf(-1) !== -1) {
+      throw new Error('Error - Bech32.decodeWords: invalid character in data');
+    }
+    if (!this.polymod(this.hrpExpand(hrp).concat(words)).eqn(1)) {
+      throw new Error('Error - Bech32.decodeWords: invalid checksum');
+    }
+    return { hrp, words: words.slice(0, words.length - 6) };
+  };
+
+  /**
+     * Encodes a {@link https://github.com/feross/buffer|Buffer} as a bech32 string.
+     *
+     * @param hrp The human-readable part
+     * @param buff A {@link https://github.com/feross/buffer|Buffer} to encode
+     *
+     * @returns A lowercase bech32 string
+     */
+  encode = (hrp:string, buff:Buffer):string => this.encodeWords(hrp, this.toWords(buff));
+
+  /**
+     * Decodes a bech32 string into its human-readable part and data. Throws on error.
+     *
+     * @param str The bech32 string
+     *
+     * @returns An object holding the lowercase human-readable part and a {@link https://github.com/feross/buffer|Buffer} of the data
+     */
+  decode = (str:string):{hrp:string; data:Buffer} => {
+    const { hrp, words } = this.decodeWords(str);
+    return { hrp, data: this.fromWords(words) };
+  };
+}
+
 /**
  * A class containing tools useful in interacting with binary data cross-platform using
  * nodejs & javascript.
@@ -146,10 +294,13 @@ export default class BinTools {
 
   private constructor() {
     this.b58 = new Base58();
+    this.b32 = new Bech32();
   }
 
   private b58:Base58;
 
+  private b32:Bech32;
+
   /**
      * Retrieves the BinTools singleton.
      */
@@ -321,29 +472,77 @@ export default class BinTools {
     throw new Error('Error - BinTools.avaDeserialize: invalid checksum');
   };
 
-  addressToString = (chainid:string, bytes:Buffer)
-  :string => `${chainid}-${this.avaSerialize(bytes)}`;
+  /**
+     * Computes the HMAC-SHA512 of a message as per RFC 2104.
+     *
+     * @param key The {@link https://github.com/feross/buffer|Buffer} holding the secret key
+     * @param data The {@link https://github.com/feross/buffer|Buffer} holding the message
+     *
+     * @returns A 64-byte {@link https://github.com/feross/buffer|Buffer} containing the MAC
+     */
+  hmacSHA512 = (key:Buffer, data:Buffer):Buffer => Buffer.from(crypto.createHmac('sha512', key).update(data).digest());
 
-  stringToAddress = (address:string):Buffer => {
+  /**
+     * Takes a {@link https://github.com/feross/buffer|Buffer} and returns a bech32 string.
+     *
+     * @param hrp The human-readable part, such as "avax"
+     * @param buff The {@link https://github.com/feross/buffer|Buffer} to encode
+     */
+  bufferToBech32 = (hrp:string, buff:Buffer):string => this.b32.encode(hrp, buff);
+
+  /**
+     * Takes a bech32 string and returns a {@link https://github.com/feross/buffer|Buffer}. Throws on error.
+     *
+     * @param str The bech32 string to decode
+     * @param hrp Optional. The expected human-readable part, checked if given
+     */
+  bech32ToBuffer = (str:string, hrp:string = undefined):Buffer => {
+    const decoded:{hrp:string; data:Buffer} = this.b32.decode(str);
+    if (typeof hrp !== 'undefined' && decoded.hrp !== hrp.toLowerCase()) {
+      throw new Error(`Error - BinTools.bech32ToBuffer: wrong human-readable part ${decoded.hrp}, expected ${hrp}`);
+    }
+    return decoded.data;
+  };
+
+  /**
+     * Takes an address {@link https://github.com/feross/buffer|Buffer} and returns its string representation.
+     *
+     * @param chainid The alias or blockchainID prefixed to the address
+     * @param bytes The {@link https://github.com/feross/buffer|Buffer} of the address
+     * @param hrp Optional. A human-readable part, given for "chainid-hrp1..." bech32 addresses instead of AVA serialized ones
+     */
+  addressToString = (chainid:string, bytes:Buffer, hrp:string = undefined)
+  :string => `${chainid}-${typeof hrp === 'undefined' ? this.avaSerialize(bytes) : this.bufferToBech32(hrp, bytes)}`;
+
+  /**
+     * Takes an address string and returns its {@link https://github.com/feross/buffer|Buffer}, without checking the chain id. Throws on error.
+     *
+     * @param address The address string, such as "X-..."
+     * @param hrp Optional. The human-readable part of a bech32 address, checked if given
+     */
+  stringToAddress = (address:string, hrp:string = undefined):Buffer => {
     const parts:Array<string> = address.split('-');
-    return this.avaDeserialize(parts[1]);
+    return typeof hrp === 'undefined' ? this.avaDeserialize(parts[1]) : this.bech32ToBuffer(parts[1], hrp);
   };
 
   /**
      * Takes an address and returns its {@link https://github.com/feross/buffer|Buffer}
      * representation if valid.
      *
+     * @param hrp Optional. The human-readable part of a bech32 address, given to parse "chainid-hrp1..." addresses
+     *
      * @returns A {@link https://github.com/feross/buffer|Buffer} for the address if valid,
      * undefined if not valid.
      */
   parseAddress = (addr:string,
     blockchainID:string,
     alias:string = undefined,
-    addrlen:number = 20):Buffer => {
+    addrlen:number = 20,
+    hrp:string = undefined):Buffer => {
     const abc:Array<string> = addr.split('-');
     if (abc.length === 2) {
       if ((alias && abc[0] === alias) || (blockchainID && abc[0] === blockchainID)) {
-        const addrbuff = this.avaDeserialize(abc[1]);
+        const addrbuff = typeof hrp === 'undefined' ? this.avaDeserialize(abc[1]) : this.bech32ToBuffer(abc[1], hrp);
         if ((addrlen && addrbuff.length === addrlen) || !(addrlen)) {
           return addrbuff;
         }
@@ -0,0 +1,166 @@
+/**
+ * @packageDocumentation
+ * @module Utils-HDNode
+ */
+import BN from 'bn.js';
+import { Buffer } from 'buffer/';
+import * as elliptic from 'elliptic';
+import BinTools from './bintools';
+
+/**
+ * @ignore
+ */
+const EC = elliptic.ec;
+
+/**
+ * @ignore
+ */
+const ec = new EC('secp256k1');
+
+/**
+ * @ignore
+ */
+const curveOrder:BN = new BN(ec.curve.n.toString(16), 16);
+
+/**
+ * @ignore
+ */
+const bintools = BinTools.getInstance();
+
+/**
+ * Class for a node in a BIP32 hierarchical deterministic wallet, holding a private key and a chain code.
+ *
+ * ```js
+ * const node = HDNode.fromSeed(seed).derivePath("m/44'/9000'/0'/0/0");
+ * keychain.importKey(node.getPrivateKey());
+ * ```
+ *
+ * @remarks
+ * See {@link https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki|BIP32}. Only private derivation is supported.
+ */
+export default class HDNode {
+  /**
+     * The offset added to an index to make a hardened child.
+     */
+  static HARDENED:number = 0x80000000;
+
+  protected privk:Buffer;
+
+  protected chaincode:Buffer;
+
+  protected depth:number;
+
+  protected index:number;
+
+  /**
+     * Returns the private key of the node.
+     */
+  getPrivateKey = ():Buffer => bintools.copyFrom(this.privk);
+
+  /**
+     * Returns the compressed public key of the node.
+     */
+  getPublicKey = ():Buffer => Buffer.from(ec.keyFromPrivate(this.privk.toString('hex'), 'hex').getPublic(true, 'hex'), 'hex');
+
+  /**
+     * Returns the chain code of the node.
+     */
+  getChainCode = ():Buffer => bintools.copyFrom(this.chaincode);
+
+  /**
+     * Returns the number of derivations between the master node and this node.
+     */
+  getDepth = ():number => this.depth;
+
+  /**
+     * Returns the index this node was derived at, including the [[HDNode.HARDENED]] offset.
+     */
+  getIndex = ():number => this.index;
+
+  /**
+     * Derives a child node.
+     *
+     * @param index The index of the child. Indices from [[HDNode.HARDENED]] up produce hardened children.
+     *
+     * @returns The child [[HDNode]]
+     */
+  deriveChild = (index:number):HDNode => {
+    if (!Number.isInteger(index) || index < 0 || index > 0xffffffff) {
+      throw new Error(`Error - HDNode.deriveChild: invalid index ${index}`);
+    }
+    const ser:Buffer = Buffer.alloc(4);
+    ser.writeUInt32BE(index, 0);
+    let data:Buffer;
+    if (index >= HDNode.HARDENED) {
+      data = Buffer.concat([Buffer.alloc(1, 0), this.privk, ser]);
+    } else {
+      data = Buffer.concat([this.getPublicKey(), ser]);
+    }
+    const I:Buffer = bintools.hmacSHA512(this.chaincode, data);
+    const il:BN = bintools.fromBufferToBN(bintools.copyFrom(I, 0, 32));
+    const child:BN = il.add(bintools.fromBufferToBN(this.privk)).umod(curveOrder);
+    // this happens with a probability lower than 1 in 2^127
+    /* istanbul ignore next */
+    if (il.gte(curveOrder) || child.isZero()) {
+      throw new Error(`Error - HDNode.deriveChild: index ${index} produces an invalid key, use the next index`);
+    }
+    return new HDNode(bintools.fromBNToBuffer(child, 32), bintools.copyFrom(I, 32), this.depth + 1, index);
+  };
+
+  /**
+     * Derives a descendant node from a path such as "m/44'/9000'/0'/0/0".
+     *
+     * @param path The derivation path. It must start with "m", and hardened indices are marked with ' or h.
+     *
+     * @returns The [[HDNode]] at the path, relative to this node
+     */
+  derivePath = (path:string):HDNode => {
+    const parts:Array<string> = path.split('/');
+    if (parts[0] !== 'm') {
+      throw new Error(`Error - HDNode.derivePath: path must start with "m", got ${path}`);
+    }
+    return parts.slice(1).reduce((node:HDNode, part:string) => {
+      const match:RegExpMatchArray = part.match(/^(\d+)(['hH]?)$/);
+      if (!match || parseInt(match[1], 10) >= HDNode.HARDENED) {
+        throw new Error(`Error - HDNode.derivePath: invalid path segment ${part} in ${path}`);
+      }
+      const idx:number = parseInt(match[1], 10);
+      return node.deriveChild(match[2] ? idx + HDNode.HARDENED : idx);
+    }, this);
+  };
+
+  /**
+     * Creates the master node of a wallet from a seed.
+     *
+     * @param seed A {@link https://github.com/feross/buffer|Buffer} of 16 to 64 bytes, such as the output of [[Mnemonic.mnemonicToSeed]]
+     *
+     * @returns The master [[HDNode]]
+     */
+  static fromSeed(seed:Buffer):HDNode {
+    if (seed.length < 16 || seed.length > 64) {
+      throw new Error('Error - HDNode.fromSeed: seed must be 16 to 64 bytes');
+    }
+    const I:Buffer = bintools.hmacSHA512(Buffer.from('Bitcoin seed', 'utf8'), seed);
+    const il:BN = bintools.fromBufferToBN(bintools.copyFrom(I, 0, 32));
+    /* istanbul ignore next */
+    if (il.isZero() || il.gte(curveOrder)) {
+      throw new Error('Error - HDNode.fromSeed: seed produces an invalid key');
+    }
+    return new HDNode(bintools.copyFrom(I, 0, 32), bintools.copyFrom(I, 32));
+  }
+
+  /**
+     * Class representing a node in a hierarchical deterministic wallet.
+     *
+     * @param privk A 32-byte {@link https://github.com/feross/buffer|Buffer} holding the private key
+     * @param chaincode A 32-byte {@link https://github.com/feross/buffer|Buffer} holding the chain code
+     * @param depth Optional. The depth of the node, default 0
+     * @param index Optional. The index the node was derived at, default 0
+     */
+  constructor(privk:Buffer, chaincode:Buffer, depth:number = 0, index:number = 0) {
+    this.privk = bintools.copyFrom(privk);
+    this.chaincode = bintools.copyFrom(chaincode);
+    this.depth = depth;
+    this.index = index;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * @packageDocumentation
+ * @module Utils-Mnemonic
+ */
+import { Buffer } from 'buffer/';
+import createHash from 'create-hash';
+import crypto from 'webcrypto';
+import { english } from './wordlist';
+
+/**
+ * @ignore
+ */
+const bytesToBinary = (bytes:Buffer):string => Array.from(bytes)
+  .map((b:number) => `00000000${b.toString(2)}`.slice(-8))
+  .join('');
+
+/**
+ * @ignore
+ */
+const checksumBits = (entropy:Buffer):string => {
+  const hash:Buffer = Buffer.from(createHash('sha256').update(entropy).digest());
+  return bytesToBinary(hash).slice(0, (entropy.length * 8) / 32);
+};
+
+/**
+ * A class for generating and decoding BIP39 mnemonic phrases and turning them into seeds for an [[HDNode]].
+ *
+ * This class should never be instantiated directly. Instead, invoke the "Mnemonic.getInstance()" static
+ * function to grab the singleton instance of the tools.
+ *
+ * ```js
+ * const mnemonic = Mnemonic.getInstance();
+ * const phrase = mnemonic.generateMnemonic();
+ * const seed = mnemonic.mnemonicToSeed(phrase, "optional passphrase");
+ * ```
+ *
+ * @remarks
+ * See {@link https://github.com/bitcoin/bips/blob/master/bip-0039.mediawiki|BIP39}. Only the English wordlist is supported.
+ */
+export default class Mnemonic {
+  private static instance:Mnemonic;
+
+  private constructor() {}
+
+  /**
+     * Retrieves the Mnemonic singleton.
+     */
+  static getInstance(): Mnemonic {
+    if (!Mnemonic.instance) {
+      Mnemonic.instance = new Mnemonic();
+    }
+    return Mnemonic.instance;
+  }
+
+  /**
+     * Returns a copy of the wordlist used to encode mnemonics.
+     */
+  getWordlist = ():Array<string> => english.slice();
+
+  /**
+     * Encodes entropy as a mnemonic phrase.
+     *
+     * @param entropy A {@link https://github.com/feross/buffer|Buffer} of 16 to 32 bytes, in multiples of 4
+     *
+     * @returns A mnemonic of 12 to 24 words separated by single spaces
+     */
+  entropyToMnemonic = (entropy:Buffer):string => {
+    if (entropy.length < 16 || entropy.length > 32 || entropy.length % 4 !== 0) {
+      throw new Error('Error - Mnemonic.entropyToMnemonic: entropy must be 16 to 32 bytes in multiples of 4');
+    }
+    const bits:string = bytesToBinary(entropy) + checksumBits(entropy);
+    const words:Array<string> = [];
+    for (let i:number = 0; i < bits.length; i += 11) {
+      words.push(english[parseInt(bits.slice(i, i + 11), 2)]);
+    }
+    return words.join(' ');
+  };
+
+  /**
+     * Decodes a mnemonic phrase back into the entropy it encodes. Throws if the phrase is not valid.
+     *
+     * @param mnemonic The mnemonic phrase
+     *
+     * @returns A {@link https://github.com/feross/buffer|Buffer} containing the entropy
+     */
+  mnemonicToEntropy = (mnemonic:string):Buffer => {
+    const words:Array<string> = mnemonic.normalize('NFKD').trim().split(/\s+/);
+    if (words.length < 12 || words.length > 24 || words.length % 3 !== 0) {
+      throw new Error('Error - Mnemonic.mnemonicToEntropy: mnemonic must have 12 to 24 words in multiples of 3');
+    }
+    const bits:string = words.map((word:string) => {
+      const idx:number = english.indexOf(word);
+      if (idx === -1) {
+        throw new Error(`Error - Mnemonic.mnemonicToEntropy: unknown word ${word}`);
+      }
+      return `00000000000${idx.toString(2)}`.slice(-11);
+    }).join('');
+    const dividerIndex:number = Math.floor(bits.length / 33) * 32;
+    const entropy:Buffer = Buffer.alloc(dividerIndex / 8);
+    for (let i:number = 0; i < entropy.length; i++) {
+      entropy.writeUInt8(parseInt(bits.slice(i * 8, i * 8 + 8), 2), i);
+    }
+    if (checksumBits(entropy) !== bits.slice(dividerIndex)) {
+      throw new Error('Error - Mnemonic.mnemonicToEntropy: invalid checksum');
+    }
+    return entropy;
+  };
+
+  /**
+     * Checks that a mnemonic phrase only contains known words and has a valid checksum.
+     *
+     * @param mnemonic The mnemonic phrase
+     *
+     * @returns True if the mnemonic is valid, false otherwise
+     */
+  validateMnemonic = (mnemonic:string):boolean => {
+    try {
+      this.mnemonicToEntropy(mnemonic);
+    } catch (e) {
+      return false;
+    }
+    return true;
+  };
+
+  /**
+     * Generates a new random mnemonic phrase.
+     *
+     * @param strength Optional. The number of bits of entropy, a multiple of 32 from 128 to 256, default 256 (24 words)
+     *
+     * @returns A new mnemonic phrase
+     */
+  generateMnemonic = (strength:number = 256):string => {
+    if (strength < 128 || strength > 256 || strength % 32 !== 0) {
+      throw new Error('Error - Mnemonic.generateMnemonic: strength must be 128 to 256 bits in multiples of 32');
+    }
+    return this.entropyToMnemonic(Buffer.from(crypto.randomBytes(strength / 8)));
+  };
+
+  /**
+     * Derives the 64-byte seed of a mnemonic phrase with PBKDF2-HMAC-SHA512, as per BIP39.
+     *
+     * @param mnemonic The mnemonic phrase. It is not validated, so phrases from other wordlists are accepted.
+     * @param passphrase Optional. The passphrase protecting the seed, default ""
+     *
+     * @returns A {@link https://github.com/feross/buffer|Buffer} containing the seed
+     */
+  mnemonicToSeed = (mnemonic:string, passphrase:string = ''):Buffer => {
+    const password:Buffer = Buffer.from(mnemonic.normalize('NFKD'), 'utf8');
+    const salt:Buffer = Buffer.from(`mnemonic${passphrase}`.normalize('NFKD'), 'utf8');
+    return Buffer.from(crypto.pbkdf2Sync(password, salt, 2048, 64, 'sha512'));
+  };
+}
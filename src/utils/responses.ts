@@ -0,0 +1,151 @@
+/**
+ * @packageDocumentation
+ * @module Utils-Responses
+ */
+import BN from 'bn.js';
+
+/**
+ * Class for checking the shape of a JSON RPC result before it is converted to typed values.
+ *
+ * @remarks
+ * Every check takes the path of the value in the result, such as "validators[0].startTime", so that a malformed
+ * response reports which field is wrong. Errors are thrown in the name of the API method given to the constructor.
+ *
+ * ```js
+ * const parser = new ResponseParser("PlatformAPI.getAccount");
+ * parser.getBN(result, "balance"); // throws "Error - PlatformAPI.getAccount: invalid response, balance ..."
+ * ```
+ */
+export class ResponseParser {
+  protected caller:string;
+
+  /**
+     * Returns the name of the API method this parser reports errors for.
+     */
+  getCaller = ():string => this.caller;
+
+  /**
+     * Throws an error naming the API method and the invalid field.
+     *
+     * @param path The path of the invalid value in the result
+     * @param problem What is wrong with the value
+     */
+  fail = (path:string, problem:string):never => {
+    throw new Error(`Error - ${this.caller}: invalid response, ${path} ${problem}`);
+  };
+
+  /**
+     * Checks that a value is a JSON object and returns it.
+     *
+     * @param value The value to check
+     * @param path The path of the value in the result
+     */
+  object = (value:any, path:string):any => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, 'must be an object');
+    }
+    return value;
+  };
+
+  /**
+     * Checks that a value is an array and converts each of its elements.
+     *
+     * @param value The value to check
+     * @param path The path of the value in the result
+     * @param parse Converts an element, given the element and its path
+     */
+  array = <T>(value:any, path:string, parse:(elem:any, elempath:string) => T):Array<T> => {
+    if (!Array.isArray(value)) {
+      this.fail(path, 'must be an array');
+    }
+    return value.map((elem:any, i:number) => parse(elem, `${path}[${i}]`));
+  };
+
+  /**
+     * Returns a string field of an object.
+     *
+     * @param obj The object holding the field
+     * @param key The name of the field
+     * @param path Optional. The path of the object in the result
+     */
+  getString = (obj:any, key:string, path:string = ''):string => this.string(obj[key], this.join(path, key));
+
+  /**
+     * Returns an array of strings field of an object.
+     *
+     * @param obj The object holding the field
+     * @param key The name of the field
+     * @param path Optional. The path of the object in the result
+     */
+  getStrings = (obj:any, key:string, path:string = ''):Array<string> => this.array(obj[key], this.join(path, key), this.string);
+
+  /**
+     * Returns a non-negative integer field of an object, which the node may send as a number or a decimal string.
+     *
+     * @param obj The object holding the field
+     * @param key The name of the field
+     * @param path Optional. The path of the object in the result
+     */
+  getNumber = (obj:any, key:string, path:string = ''):number => {
+    const value:BN = this.getBN(obj, key, path);
+    if (value.bitLength() > 53) {
+      this.fail(this.join(path, key), 'is too large');
+    }
+    return value.toNumber();
+  };
+
+  /**
+     * Returns a non-negative integer field of an object as a {@link https://github.com/indutny/bn.js/|BN}. The node may
+     * send it as a number or a decimal string.
+     *
+     * @param obj The object holding the field
+     * @param key The name of the field
+     * @param path Optional. The path of the object in the result
+     */
+  getBN = (obj:any, key:string, path:string = ''):BN => {
+    const fullpath:string = this.join(path, key);
+    const value:any = obj[key];
+    if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+      return new BN(value);
+    }
+    if (typeof value === 'string' && /^[0-9]+$/.test(value)) {
+      return new BN(value, 10);
+    }
+    return this.fail(fullpath, 'must be a non-negative integer');
+  };
+
+  /**
+     * Returns a field of an object holding a time in seconds since the UNIX epoch, as a Date.
+     *
+     * @param obj The object holding the field
+     * @param key The name of the field
+     * @param path Optional. The path of the object in the result
+     */
+  getDate = (obj:any, key:string, path:string = ''):Date => new Date(this.getNumber(obj, key, path) * 1000);
+
+  /**
+     * @ignore
+     */
+  protected string = (value:any, path:string):string => {
+    if (typeof value !== 'string') {
+      this.fail(path, 'must be a string');
+    }
+    return value;
+  };
+
+  /**
+     * @ignore
+     */
+  protected join = (path:string, key:string):string => (path === '' ? key : `${path}.${key}`);
+
+  /**
+     * Class for checking the shape of the result of an API method.
+     *
+     * @param caller The name of the API method, such as "PlatformAPI.getAccount"
+     */
+  constructor(caller:string) {
+    this.caller = caller;
+  }
+}
+
+export default ResponseParser;
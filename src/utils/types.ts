@@ -723,9 +723,17 @@ const n12345Contracts:any = { ...n2Contracts };
 n12345Contracts.blockchainID = 'tZGm6RCkeGpVETUTp11DW3UYFZmm69zfqxchpHrSF7wgy8rmw';
 
 export class Defaults {
+  /**
+   * The human-readable part of bech32 addresses on networks without an `hrp` in [[Defaults.network]].
+   */
+  static fallbackHRP:string = 'custom';
+
   static network = {
-    1: {}, // update before mainnet
+    1: { // update before mainnet
+      hrp: 'avax',
+    },
     2: {
+      hrp: 'cascade',
       avm: n2Avm,
       X: n2Avm,
       '4ktRjsAKxgMr2aEzv9SWmrU7Xk5FniHUrVCX4P1TZSfTLZWFM': n2Avm,
@@ -737,6 +745,7 @@ export class Defaults {
       '2mUYSXfLrDtigwbzj1LxKVsHwELghc5sisoXrzJwLqAAQHF4i': n2Contracts,
     },
     3: {
+      hrp: 'denali',
       avm: n3Avm,
       X: n3Avm,
       rrEWX7gc7D9mwcdrdBxBTdqh1a7WDVsMuadhTZgyXfFcRz45L: n3Avm,
@@ -748,6 +757,7 @@ export class Defaults {
       zJytnh96Pc8rM337bBrtMvJDbEdDNjcXG3WkTNCiLp18ergm9: n3Contracts,
     },
     12345: {
+      hrp: 'local',
       avm: n12345Avm,
       X: n12345Avm,
       '4R5p2RXDGLqaifZE4hHWH9owe34pfoBULn1DrQTWivjg8o4aH': n12345Avm,
@@ -5,12 +5,15 @@ import { AVMKeyPair, AVMKeyChain } from 'src/apis/avm/keychain';
 import { Buffer } from 'buffer/';
 import BN from 'bn.js';
 import BinTools from 'src/utils/bintools';
+import { Base58AddressCodec, Bech32AddressCodec } from 'src/utils/addresscodec';
 import { UTXOSet, UTXO } from 'src/apis/avm/utxos';
 import { TransferableInput, SecpInput } from 'src/apis/avm/inputs';
 import createHash from 'create-hash';
 import { UnsignedTx, Tx } from 'src/apis/avm/tx';
 import { UnixNow, AVMConstants, InitialStates } from 'src/apis/avm/types';
-import { TransferableOutput, SecpOutput } from 'src/apis/avm/outputs';
+import {
+  TransferableOutput, SecpOutput, SecpMintOutput, NFTMintOutput, OutputOwners,
+} from 'src/apis/avm/outputs';
 import { NFTTransferOutput } from '../../../src/apis/avm/outputs';
 import { NFTTransferOperation, TransferableOperation } from '../../../src/apis/avm/ops';
 
@@ -514,6 +517,64 @@ describe('AVMAPI', () => {
     expect(JSON.stringify(response.getAllUTXOStrings().sort())).toBe(JSON.stringify(set.getAllUTXOStrings().sort()));
   });
 
+  test('saveKeyChain and loadKeyChain', () => {
+    const saver:AVMAPI = new AVMAPI(avalanche, '/ext/bc/avm', blockchainid);
+    const addrs:Array<string> = [saver.keyChain().makeKey(), saver.keyChain().makeKey()].map((a) => a.toString('hex')).sort();
+    saver.saveKeyChain('encrypted keychain', password);
+    expect(saver.getDB().get('encrypted keychain')).not.toContain(saver.keyChain().getKey(saver.keyChain().getAddresses()[0]).getPrivateKeyString());
+    expect(() => {
+      saver.saveKeyChain('encrypted keychain', password);
+    }).toThrow('Error - AVMAPI.saveKeyChain: a keychain is already stored as encrypted keychain');
+    saver.saveKeyChain('encrypted keychain', password, true);
+
+    const loader:AVMAPI = new AVMAPI(avalanche, '/ext/bc/avm', blockchainid);
+    const loaded:Array<string> = loader.loadKeyChain('encrypted keychain', password).map((a) => a.toString('hex')).sort();
+    expect(loaded).toStrictEqual(addrs);
+    expect(loader.keyChain().getAddresses().length).toBe(2);
+    expect(() => {
+      loader.loadKeyChain('encrypted keychain', 'not the password');
+    }).toThrow('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    expect(() => {
+      loader.loadKeyChain('missing keychain', password);
+    }).toThrow('Error - AVMAPI.loadKeyChain: no keychain is stored as missing keychain');
+  });
+
+  test('validateAddress and address codecs', async () => {
+    const coded:AVMAPI = new AVMAPI(avalanche, '/ext/bc/avm', blockchainid);
+    const addrbuff:Buffer = coded.validateAddress(addrA);
+    expect(coded.getAddressCodec()).toBeInstanceOf(Base58AddressCodec);
+    expect(coded.addressFromBuffer(addrbuff)).toBe(addrA);
+    expect(coded.validateAddress(`${blockchainid}-${addrA.split('-')[1]}`).toString('hex')).toBe(addrbuff.toString('hex'));
+    expect(() => {
+      coded.validateAddress(`P-${addrA.split('-')[1]}`);
+    }).toThrow(`Error - AddressCodec.decode: wrong chain id P, expected X or ${blockchainid}`);
+    expect(() => {
+      coded.validateAddress(`${addrA.slice(0, -1)}X`);
+    }).toThrow('Error - Base58AddressCodec.decodeBody: invalid checksum');
+    expect(() => {
+      coded.validateAddress(`X-${bintools.avaSerialize(Buffer.alloc(19))}`);
+    }).toThrow('Error - AddressCodec.decode: wrong address length 19, expected 20');
+    expect(coded.parseAddress(`${addrA.slice(0, -1)}X`)).toBeUndefined();
+
+    coded.setAddressCodec(Bech32AddressCodec.forNetwork(networkid));
+    const bech:string = coded.addressFromBuffer(addrbuff);
+    expect(bech.startsWith('X-local1')).toBe(true);
+    expect(coded.validateAddress(bech).toString('hex')).toBe(addrbuff.toString('hex'));
+    expect(coded.parseAddress(addrA)).toBeUndefined();
+    expect(() => {
+      coded.validateAddress(bintools.addressToString('X', addrbuff, 'avax'));
+    }).toThrow('Error - BinTools.bech32ToBuffer: wrong human-readable part avax, expected local');
+    expect(() => {
+      coded.validateAddress(`${bech.slice(0, -1)}${bech.endsWith('q') ? 'p' : 'q'}`);
+    }).toThrow('Error - Bech32.decodeWords: invalid checksum');
+    await expect(coded.getUTXOs([addrA])).rejects.toThrow(`Error - AVMAPI.getUTXOs: Invalid address format ${addrA} - Error - Bech32.decodeWords:`);
+
+    const result:Promise<UTXOSet> = coded.getUTXOs([addrbuff]);
+    mockAxios.mockResponse({ data: { result: { utxos: [] } } });
+    await result;
+    expect(JSON.parse(mockAxios.request.mock.calls[0][0].data).params.addresses).toStrictEqual([bech]);
+  });
+
   describe('Transactions', () => {
     let set:UTXOSet;
     let keymgr2:AVMKeyChain;
@@ -530,6 +591,7 @@ describe('AVMAPI', () => {
     const amnt:number = 10000;
     const assetID:Buffer = Buffer.from(createHash('sha256').update('mary had a little lamb').digest());
     const NFTassetID:Buffer = Buffer.from(createHash('sha256').update("I can't stand it, I know you planned it, I'mma set straight this Watergate.'").digest());
+    const mintAssetID:Buffer = Buffer.from(createHash('sha256').update('Minted, not stirred.').digest());
     let secpbase1:SecpOutput;
     let secpbase2:SecpOutput;
     let secpbase3:SecpOutput;
@@ -594,6 +656,11 @@ describe('AVMAPI', () => {
         ops.push(xferop);
         utxos.push(nftutxo);
       }
+      const mintout:SecpMintOutput = new SecpMintOutput(locktime, 1, addressbuffs);
+      const minttxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(2000), 32)).digest());
+      utxos.push(new UTXO(minttxid, 0, mintAssetID, mintout));
+      const nftmintout:NFTMintOutput = new NFTMintOutput(7, locktime, 1, addressbuffs);
+      utxos.push(new UTXO(minttxid, 1, NFTassetID, nftmintout));
       set.addArray(utxos);
 
       secpbase1 = new SecpOutput(new BN(777), UnixNow(), 1, addrs3.map((a) => api.parseAddress(a)));
@@ -649,6 +716,208 @@ describe('AVMAPI', () => {
       ).toBe(true);
     });
 
+    test('buildBaseTx with memo', async () => {
+      const txu1:UnsignedTx = await api.buildBaseTx(
+        set, new BN(amnt), addrs3, addrs1, addrs1, bintools.avaSerialize(assetID),
+        UnixNow(), new BN(0), 1, 'hello world',
+      );
+      const txu2:UnsignedTx = set.buildBaseTx(
+        networkid, bintools.avaDeserialize(blockchainid), new BN(amnt),
+        addrs3.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        assetID, UnixNow(), new BN(0), 1, AVMConstants.SECPOUTPUTID, Buffer.from('hello world'),
+      );
+
+      expect(txu2.toBuffer().toString('hex')).toBe(txu1.toBuffer().toString('hex'));
+      expect(txu1.getTransaction().getMemo().toString()).toBe('hello world');
+    });
+
+    test('buildBaseTx with fee', async () => {
+      const feeAssetID:Buffer = Buffer.from(createHash('sha256').update('Fees, fees, fees.').digest());
+      const feetxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(4000), 32)).digest());
+      set.add(new UTXO(feetxid, 0, feeAssetID, new SecpOutput(new BN(1000), new BN(0), 1, addressbuffs)));
+
+      const txu1:UnsignedTx = await api.buildBaseTx(
+        set, new BN(amnt), addrs3, addrs1, addrs1, bintools.avaSerialize(assetID),
+        UnixNow(), new BN(0), 1, undefined, new BN(100), bintools.avaSerialize(feeAssetID),
+      );
+      const txu2:UnsignedTx = set.buildBaseTx(
+        networkid, bintools.avaDeserialize(blockchainid), new BN(amnt),
+        addrs3.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        assetID, UnixNow(), new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined,
+        new BN(100), feeAssetID,
+      );
+
+      expect(txu2.toBuffer().toString('hex')).toBe(txu1.toBuffer().toString('hex'));
+      expect(txu1.getTransaction().getIns().length).toBe(2);
+    });
+
+    test('buildBatchTx', async () => {
+      const txu1:UnsignedTx = await api.buildBatchTx(set, [
+        { assetID: bintools.avaSerialize(assetID), amount: new BN(amnt), toAddresses: [addrs3[0]] },
+        { assetID, amount: new BN(amnt * 2), toAddresses: [addrs2[0]] },
+      ], addrs1, addrs1, UnixNow(), 'batch');
+      const txu2:UnsignedTx = set.buildBatchTx(
+        networkid, bintools.avaDeserialize(blockchainid), [
+          { assetID, amount: new BN(amnt), toAddresses: [api.parseAddress(addrs3[0])] },
+          { assetID, amount: new BN(amnt * 2), toAddresses: [api.parseAddress(addrs2[0])] },
+        ],
+        addrs1.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        UnixNow(), Buffer.from('batch'),
+      );
+
+      expect(txu2.toBuffer().toString('hex')).toBe(txu1.toBuffer().toString('hex'));
+      expect(txu1.getTransaction().getOuts().length).toBe(2);
+      expect(txu1.getTransaction().getIns().length).toBe(3);
+
+      // the fee asset defaults to the AVA AssetID, fetched from the node
+      const online:AVMAPI = new AVMAPI(avalanche, '/ext/bc/avm', blockchainid);
+      const result:Promise<UnsignedTx> = online.buildBatchTx(set, [
+        { assetID, amount: new BN(amnt), toAddresses: [addrs3[0]] },
+      ], addrs1, addrs1, UnixNow(), 'batch', new BN(100));
+      mockAxios.mockResponse({
+        data: {
+          result: {
+            name: 'AVA', symbol: 'AVA', assetID: bintools.avaSerialize(assetID), denomination: '9',
+          },
+        },
+      });
+      const paid:UnsignedTx = await result;
+      expect(mockAxios.request).toHaveBeenCalledTimes(1);
+      const expected:UnsignedTx = set.buildBatchTx(
+        networkid, bintools.avaDeserialize(blockchainid), [{ assetID, amount: new BN(amnt), toAddresses: [api.parseAddress(addrs3[0])] }],
+        addrs1.map((a) => api.parseAddress(a)), addrs1.map((a) => api.parseAddress(a)), UnixNow(), Buffer.from('batch'),
+        undefined, new BN(100), assetID,
+      );
+      expect(paid.toBuffer().toString('hex')).toBe(expected.toBuffer().toString('hex'));
+      const change:BN = paid.getTransaction().getOuts().map((o) => (o.getOutput() as SecpOutput).getAmount()).reduce((a, b) => a.add(b), new BN(0));
+      const spent:BN = paid.getTransaction().getIns().map((i) => (i.getInput() as SecpInput).getAmount()).reduce((a, b) => a.add(b), new BN(0));
+      expect(spent.sub(change).toNumber()).toBe(100);
+    });
+
+    test('buildSplitTx', async () => {
+      const txu1:UnsignedTx = await api.buildSplitTx(
+        set, bintools.avaSerialize(assetID), 5, new BN(amnt * 2), addrs3, addrs1, addrs1, true,
+      );
+      const txu2:UnsignedTx = set.buildSplitTx(
+        networkid, bintools.avaDeserialize(blockchainid), assetID, 5, new BN(amnt * 2),
+        addrs3.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        true,
+      );
+
+      expect(txu2.toBuffer().toString('hex')).toBe(txu1.toBuffer().toString('hex'));
+      expect(txu1.getTransaction().getOuts().length).toBe(5);
+    });
+
+    test('buildConsolidationTx', async () => {
+      const txu1:UnsignedTx = await api.buildConsolidationTx(
+        set, addrs1, [addrs2[0]], [bintools.avaSerialize(assetID)], 3, UnixNow(), new BN(0), 1, 'tidy up',
+      );
+      const txu2:UnsignedTx = set.buildConsolidationTx(
+        networkid, bintools.avaDeserialize(blockchainid),
+        addrs1.map((a) => api.parseAddress(a)),
+        [api.parseAddress(addrs2[0])],
+        [assetID], 3, UnixNow(), new BN(0), 1, Buffer.from('tidy up'),
+      );
+
+      expect(txu2.toBuffer().toString('hex')).toBe(txu1.toBuffer().toString('hex'));
+      expect(txu1.getTransaction().getIns().length).toBe(3);
+      expect(txu1.getTransaction().getOuts().length).toBe(1);
+
+      const paid:UnsignedTx = await api.buildConsolidationTx(
+        set, addrs1, [addrs2[0]], [bintools.avaSerialize(assetID)], 3, UnixNow(), new BN(0), 1, 'tidy up', new BN(10), bintools.avaSerialize(assetID),
+      );
+      const amountOf = (utx:UnsignedTx):number => (utx.getTransaction().getOuts()[0].getOutput() as SecpOutput).getAmount().toNumber();
+      expect(amountOf(paid)).toBe(amountOf(txu1) - 10);
+    });
+
+    test('exportUTXOs and importUTXOs', async () => {
+      const online:AVMAPI = new AVMAPI(avalanche, '/ext/bc/avm', blockchainid);
+      const result:Promise<string> = online.exportUTXOs(set);
+      const payload:object = {
+        result: {
+          name: 'AVA',
+          symbol: 'AVA',
+          assetID: bintools.avaSerialize(assetID),
+          denomination: '9',
+        },
+      };
+      const responseObj = {
+        data: payload,
+      };
+
+      mockAxios.mockResponse(responseObj);
+      const file:string = await result;
+      expect(mockAxios.request).toHaveBeenCalledTimes(1);
+
+      const offline:AVMAPI = new AVMAPI(new Avalanche(ip, port, protocol, networkid, undefined, true), '/ext/bc/avm', blockchainid);
+      const imported:UTXOSet = offline.importUTXOs(file);
+      expect(imported.getAllUTXOStrings().sort()).toStrictEqual(set.getAllUTXOStrings().sort());
+      expect((await offline.getAVAAssetID()).toString('hex')).toBe(assetID.toString('hex'));
+
+      const txu1:UnsignedTx = await offline.buildSplitTx(
+        imported, bintools.avaSerialize(assetID), 2, new BN(amnt), addrs3, addrs1, addrs1, true, new BN(10),
+      );
+      const txu2:UnsignedTx = imported.buildSplitTx(
+        networkid, bintools.avaDeserialize(blockchainid), assetID, 2, new BN(amnt),
+        addrs3.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        addrs1.map((a) => api.parseAddress(a)),
+        true, new BN(10), assetID,
+      );
+      expect(mockAxios.request).toHaveBeenCalledTimes(1);
+      expect(txu1.toBuffer().toString('hex')).toBe(txu2.toBuffer().toString('hex'));
+
+      const other:AVMAPI = new AVMAPI(new Avalanche(ip, port, protocol, 3, undefined, true), '/ext/bc/avm', blockchainid);
+      expect(() => {
+        other.importUTXOs(file);
+      }).toThrow('Error - AVMAPI.importUTXOs: file is for blockchainID');
+      expect(() => {
+        offline.importUTXOs(JSON.stringify({ version: 99 }));
+      }).toThrow('Error - AVMAPI.importUTXOs: unsupported file version 99');
+
+      // a file which fails to parse leaves the AVA AssetID unset
+      const fresh:AVMAPI = new AVMAPI(new Avalanche(ip, port, protocol, networkid, undefined, true), '/ext/bc/avm', blockchainid);
+      const json:any = JSON.parse(file);
+      [bintools.avaSerialize(Buffer.alloc(20)), 'notbase58', undefined].forEach((avaAssetID) => {
+        expect(() => {
+          fresh.importUTXOs(JSON.stringify({ ...json, avaAssetID }));
+        }).toThrow('Error - AVMAPI.importUTXOs: invalid avaAssetID');
+      });
+      expect(() => {
+        fresh.importUTXOs(JSON.stringify({ ...json, avaAssetID: bintools.avaSerialize(Buffer.alloc(32, 1)), utxos: [{ ...json.utxos[0], output: { outputID: 7 } }] }));
+      }).toThrow();
+      const fetched:Promise<Buffer> = fresh.getAVAAssetID();
+      mockAxios.mockResponse(responseObj);
+      expect((await fetched).toString('hex')).toBe(assetID.toString('hex'));
+      expect(mockAxios.request).toHaveBeenCalledTimes(2);
+    });
+
+    test('exportUTXOs and importUTXOs with an address codec', async () => {
+      const codec:Bech32AddressCodec = Bech32AddressCodec.forNetwork(networkid);
+      const online:AVMAPI = new AVMAPI(avalanche, '/ext/bc/avm', blockchainid);
+      online.setAVAAssetID(bintools.avaSerialize(assetID));
+      online.setAddressCodec(codec);
+      const file:string = await online.exportUTXOs(set);
+      const owner:Buffer = set.getAllUTXOs()[0].getOutput().getAddresses()[0];
+      expect(file).toContain(codec.encodeBody(owner));
+      expect(file).not.toContain(bintools.avaSerialize(owner));
+
+      const offline:AVMAPI = new AVMAPI(new Avalanche(ip, port, protocol, networkid, undefined, true), '/ext/bc/avm', blockchainid);
+      offline.setAddressCodec(codec);
+      expect(offline.importUTXOs(file).getAllUTXOStrings().sort()).toStrictEqual(set.getAllUTXOStrings().sort());
+      const base58:AVMAPI = new AVMAPI(new Avalanche(ip, port, protocol, networkid, undefined, true), '/ext/bc/avm', blockchainid);
+      expect(() => {
+        base58.importUTXOs(file);
+      }).toThrow('Error - Base58AddressCodec.decodeBody');
+    });
+
     test('signTx', async () => {
       const txu1:UnsignedTx = await api.buildBaseTx(set, new BN(amnt), addrs3, addrs1, addrs1, bintools.avaSerialize(assetID));
       const txu2:UnsignedTx = set.buildBaseTx(
@@ -781,6 +1050,43 @@ describe('AVMAPI', () => {
         [nftutxoids[1]], UnixNow(), new BN(0), 1,
       );
 
+      expect(txu2.toBuffer().toString('hex')).toBe(txu1.toBuffer().toString('hex'));
+      expect(txu2.toString()).toBe(txu1.toString());
+    });
+    test('buildSecpMintTx', async () => {
+      const addrbuff1 = addrs1.map((a) => api.parseAddress(a));
+      const addrbuff3 = addrs3.map((a) => api.parseAddress(a));
+      const fee:BN = new BN(90);
+      const txu1:UnsignedTx = await api.buildSecpMintTx(
+        set, bintools.avaSerialize(mintAssetID), new BN(5000), addrs3, addrs1, fee, addrs1,
+        UnixNow(), new BN(0), 1,
+      );
+
+      const txu2:UnsignedTx = set.buildSecpMintTx(
+        networkid, bintools.avaDeserialize(blockchainid), assetID,
+        fee, addrbuff1, mintAssetID, new BN(5000), addrbuff3, addrbuff1,
+        UnixNow(), new BN(0), 1,
+      );
+
+      expect(txu2.toBuffer().toString('hex')).toBe(txu1.toBuffer().toString('hex'));
+      expect(txu2.toString()).toBe(txu1.toString());
+    });
+    test('buildNFTMintTx', async () => {
+      const addrbuff1 = addrs1.map((a) => api.parseAddress(a));
+      const addrbuff3 = addrs3.map((a) => api.parseAddress(a));
+      const fee:BN = new BN(90);
+      const payload:Buffer = Buffer.from('Pickle Rick #1');
+      const txu1:UnsignedTx = await api.buildNFTMintTx(
+        set, NFTassetID, 7, payload, addrs3, addrs1, fee, addrs1,
+        UnixNow(), new BN(0), 1,
+      );
+
+      const txu2:UnsignedTx = set.buildNFTMintTx(
+        networkid, bintools.avaDeserialize(blockchainid), assetID,
+        fee, addrbuff1, NFTassetID, 7, payload,
+        [new OutputOwners(new BN(0), 1, addrbuff3)], addrbuff1, UnixNow(),
+      );
+
       expect(txu2.toBuffer().toString('hex')).toBe(txu1.toBuffer().toString('hex'));
       expect(txu2.toString()).toBe(txu1.toString());
     });
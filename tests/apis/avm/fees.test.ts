@@ -0,0 +1,19 @@
+import BN from 'bn.js';
+import { FeePolicy } from 'src/apis/avm/fees';
+
+describe('FeePolicy', () => {
+  test('defaults', () => {
+    const policy:FeePolicy = new FeePolicy();
+    expect(policy.getBaseFee().toNumber()).toBe(0);
+    expect(policy.getFeePerByte().toNumber()).toBe(0);
+    expect(policy.getFee(1000).toNumber()).toBe(0);
+  });
+
+  test('getFee', () => {
+    const policy:FeePolicy = new FeePolicy(new BN(1000), new BN(2));
+    expect(policy.getBaseFee().toNumber()).toBe(1000);
+    expect(policy.getFeePerByte().toNumber()).toBe(2);
+    expect(policy.getFee(0).toNumber()).toBe(1000);
+    expect(policy.getFee(350).toNumber()).toBe(1700);
+  });
+});
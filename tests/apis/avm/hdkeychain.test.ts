@@ -0,0 +1,63 @@
+import { HDKeyChain } from 'src/apis/avm/hdkeychain';
+import { AVMKeyPair } from 'src/apis/avm/keychain';
+import { Buffer } from 'buffer/';
+import HDNode from 'src/utils/hdnode';
+import Mnemonic from 'src/utils/mnemonic';
+
+const mnemonic = Mnemonic.getInstance();
+const alias = 'X';
+const phrase:string = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('HDKeyChain', () => {
+  test('derives keys along the BIP44 path', () => {
+    const keychain:HDKeyChain = new HDKeyChain(alias, phrase);
+    expect(keychain.getBasePath()).toBe("m/44'/9000'/0'/0");
+    expect(keychain.getNextIndex()).toBe(0);
+    expect(keychain.getAddresses().length).toBe(0);
+
+    const node:HDNode = HDNode.fromSeed(mnemonic.mnemonicToSeed(phrase)).derivePath("m/44'/9000'/0'/0/0");
+    const addr:Buffer = keychain.makeKey();
+    const kp:AVMKeyPair = keychain.getKey(addr);
+    expect(kp.getPrivateKey().toString('hex')).toBe(node.getPrivateKey().toString('hex'));
+    expect(keychain.getNextIndex()).toBe(1);
+
+    const addr2:Buffer = keychain.makeKey();
+    expect(addr2.toString('hex')).toBe(keychain.deriveKeyPair(1).getAddress().toString('hex'));
+    expect(keychain.getAddresses().length).toBe(2);
+    expect(keychain.getNextIndex()).toBe(2);
+  });
+
+  test('deriveKey skips ahead and deriveKeys restores', () => {
+    const keychain:HDKeyChain = new HDKeyChain(alias, phrase);
+    keychain.deriveKey(4);
+    expect(keychain.getNextIndex()).toBe(5);
+    keychain.deriveKey(2);
+    expect(keychain.getNextIndex()).toBe(5);
+    expect(keychain.getAddresses().length).toBe(2);
+
+    const restored:HDKeyChain = new HDKeyChain(alias, phrase);
+    const addrs:Array<Buffer> = restored.deriveKeys(5);
+    expect(addrs.length).toBe(5);
+    expect(restored.getNextIndex()).toBe(5);
+    expect(restored.hasKey(keychain.deriveKeyPair(4).getAddress())).toBe(true);
+    expect(addrs[2].toString('hex')).toBe(keychain.deriveKeyPair(2).getAddress().toString('hex'));
+    expect(() => {
+      keychain.deriveKeyPair(HDNode.HARDENED);
+    }).toThrow(`Error - HDKeyChain.deriveKeyPair: invalid index ${HDNode.HARDENED}`);
+  });
+
+  test('seeds, passphrases and base paths', () => {
+    const plain:HDKeyChain = new HDKeyChain(alias, phrase);
+    const fromSeed:HDKeyChain = new HDKeyChain(alias, mnemonic.mnemonicToSeed(phrase));
+    const withPass:HDKeyChain = new HDKeyChain(alias, phrase, 'TREZOR');
+    const otherAccount:HDKeyChain = new HDKeyChain(alias, phrase, '', "m/44'/9000'/1'/0");
+    const addr:string = plain.deriveKeyPair(0).getAddressString();
+    expect(fromSeed.deriveKeyPair(0).getAddressString()).toBe(addr);
+    expect(withPass.deriveKeyPair(0).getAddressString()).not.toBe(addr);
+    expect(otherAccount.deriveKeyPair(0).getAddressString()).not.toBe(addr);
+    expect(addr.startsWith(`${alias}-`)).toBe(true);
+    expect(() => {
+      new HDKeyChain(alias, phrase.replace('about', 'abandon'));
+    }).toThrow('Error - HDKeyChain.constructor: invalid mnemonic');
+  });
+});
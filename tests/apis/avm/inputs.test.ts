@@ -80,6 +80,25 @@ describe('Inputs', () => {
     expect(newin.getSigIdxs().toString()).toBe(input.getSigIdxs().toString());
   });
 
+  test('toJSON and fromJSON', () => {
+    const u:UTXO = utxos[1];
+    const input:SecpInput = new SecpInput((u.getOutput() as AmountOutput).getAmount());
+    input.addSignatureIdx(0, addrs1[0]);
+    input.addSignatureIdx(2, addrs1[2]);
+    const xferinput:TransferableInput = new TransferableInput(u.getTxID(), u.getOutputIdx(), u.getAssetID(), input);
+
+    const json:any = xferinput.toJSON();
+    expect(json).toStrictEqual({
+      txID: bintools.avaSerialize(u.getTxID()),
+      outputIndex: 1,
+      assetID: bintools.avaSerialize(u.getAssetID()),
+      input: { inputID: AVMConstants.SECPINPUTID, sigIdxs: [0, 2], amount: '10001' },
+    });
+    const xferinputcopy:TransferableInput = new TransferableInput().fromJSON(JSON.parse(JSON.stringify(xferinput)));
+    expect(xferinputcopy.getUTXOID()).toBe(u.getUTXOID());
+    expect(xferinputcopy.toBuffer().toString('hex')).toBe(xferinput.toBuffer().toString('hex'));
+  });
+
   test('Input comparitor', () => {
     const inpt1:SecpInput = new SecpInput((utxos[0].getOutput() as AmountOutput).getAmount());
 
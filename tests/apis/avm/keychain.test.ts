@@ -1,7 +1,10 @@
 import { AVMKeyChain, AVMKeyPair } from 'src/apis/avm/keychain';
 import { Buffer } from 'buffer/';
 import createHash from 'create-hash';
+import BN from 'bn.js';
 import BinTools from 'src/utils/bintools';
+import { AVMConstants } from 'src/apis/avm/types';
+import { Bech32AddressCodec } from 'src/utils/addresscodec';
 
 const bintools = BinTools.getInstance();
 const alias = 'X';
@@ -59,6 +62,111 @@ describe('AVMKeyPair', () => {
     expect(kp.verify(msg, sig)).toBe(true);
     expect(kp.recover(msg, sig).toString('hex')).toBe(kp.getPublicKey().toString('hex'));
   });
+
+  test('getAddressString with an address codec', () => {
+    const kp:AVMKeyPair = new AVMKeyPair(alias);
+    kp.importKey(Buffer.from('ef9bf2d4436491c153967c9709dd8e82795bdb9b5ad44ee22c2903005d1cf676', 'hex'));
+    expect(kp.getAddressString()).toBe(bintools.addressToString(alias, kp.getAddress()));
+    const bech:string = kp.getAddressString(new Bech32AddressCodec('avax'));
+    expect(bech).toBe(bintools.addressToString(alias, kp.getAddress(), 'avax'));
+    expect(bintools.stringToAddress(bech, 'avax').toString('hex')).toBe(kp.getAddress().toString('hex'));
+  });
+
+  test('RFC6979 deterministic signatures', () => {
+    // r, s and the recovery id of low-S RFC6979 signatures over the SHA256 of the message
+    const vectors:Array<[string, string, string]> = [
+      ['0000000000000000000000000000000000000000000000000000000000000001', 'Satoshi Nakamoto',
+        '934b1ea10a4b3c1757e2b0c017d0b6143ce3c9a7e6a4a49860d7a6ab210ee3d82442ce9d2b916064108014783e923ec36b49743e2ffa1c4496f01a512aafd9e501'],
+      ['0000000000000000000000000000000000000000000000000000000000000001', 'All those moments will be lost in time, like tears in rain. Time to die...',
+        '8600dbd41e348fe5c9465ab92d23e3db8b98b873beecd930736488696438cb6b547fe64427496db33bf66019dacbf0039c04199abb0122918601db38a72cfc2100'],
+      ['fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364140', 'Satoshi Nakamoto',
+        'fd567d121db66e382991534ada77a6bd3106f0a1098c231e47993447cd6af2d06b39cd0eb1bc8603e159ef5c20a5c8ad685a45b06ce9bebed3f153d10d93bed500'],
+    ];
+    for (let i:number = 0; i < vectors.length; i++) {
+      const kp:AVMKeyPair = new AVMKeyPair(alias);
+      kp.importKey(Buffer.from(vectors[i][0], 'hex'));
+      const msg:Buffer = Buffer.from(createHash('sha256').update(vectors[i][1]).digest());
+      expect(kp.sign(msg).toString('hex')).toBe(vectors[i][2]);
+      expect(kp.sign(msg).toString('hex')).toBe(vectors[i][2]);
+      expect(kp.isCanonicalSignature(kp.sign(msg))).toBe(true);
+    }
+  });
+
+  test('low-S normalization and strict verification', () => {
+    const n:BN = new BN('fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141', 16);
+    const kp:AVMKeyPair = new AVMKeyPair(alias);
+    kp.importKey(Buffer.from('ef9bf2d4436491c153967c9709dd8e82795bdb9b5ad44ee22c2903005d1cf676', 'hex'));
+    const msg:Buffer = Buffer.from(createHash('sha256').update(Buffer.from('09090909', 'hex')).digest());
+    const sig:Buffer = kp.sign(msg);
+    const recovery:number = sig.readUInt8(64);
+
+    // the same signature using n - s, with the recovery id flipped
+    const highS:Buffer = Buffer.concat([
+      sig.slice(0, 32),
+      bintools.fromBNToBuffer(n.sub(bintools.fromBufferToBN(sig.slice(32, 64))), 32),
+      Buffer.from([1 - recovery]),
+    ]);
+    const flipped:Buffer = Buffer.concat([sig.slice(0, 64), Buffer.from([1 - recovery])]);
+    const badRecovery:Buffer = Buffer.concat([sig.slice(0, 64), Buffer.from([4])]);
+
+    expect(kp.isStrict()).toBe(true);
+    expect(kp.isCanonicalSignature(highS)).toBe(false);
+    expect(kp.normalizeSignature(highS).toString('hex')).toBe(sig.toString('hex'));
+    expect(kp.normalizeSignature(sig).toString('hex')).toBe(sig.toString('hex'));
+    expect(kp.verify(msg, highS)).toBe(false);
+    expect(kp.verify(msg, flipped)).toBe(false);
+    expect(kp.verify(msg, badRecovery)).toBe(false);
+    expect(kp.verify(msg, sig.slice(0, 64))).toBe(false);
+    expect(() => {
+      kp.recover(msg, highS);
+    }).toThrow('Error - AVMKeyPair.recover: signature is not canonical');
+    expect(() => {
+      kp.recover(msg, badRecovery);
+    }).toThrow('Error - AVMKeyPair.recover: malformed signature');
+    expect(() => {
+      kp.normalizeSignature(badRecovery);
+    }).toThrow('Error - AVMKeyPair.normalizeSignature: malformed signature');
+
+    kp.setStrict(false);
+    expect(kp.verify(msg, highS)).toBe(true);
+    expect(kp.recover(msg, highS).toString('hex')).toBe(kp.getPublicKey().toString('hex'));
+    expect(kp.verify(msg, flipped)).toBe(true);
+    expect(kp.recover(msg, flipped).toString('hex')).not.toBe(kp.getPublicKey().toString('hex'));
+    expect(kp.verify(msg, badRecovery)).toBe(false);
+    expect(() => {
+      kp.recover(msg, badRecovery);
+    }).toThrow('Error - AVMKeyPair.recover: malformed signature');
+  });
+  test('signMessage and verifyMessage', () => {
+    const kp:AVMKeyPair = new AVMKeyPair(alias);
+    kp.importKey(Buffer.from('ef9bf2d4436491c153967c9709dd8e82795bdb9b5ad44ee22c2903005d1cf676', 'hex'));
+    const message:string = 'I control this address';
+    const signature:string = kp.signMessage(message);
+    expect(kp.signMessage(Buffer.from(message, 'utf8'))).toBe(signature);
+    expect(bintools.avaDeserialize(signature).length).toBe(65);
+    expect(kp.verifyMessage(message, signature)).toBe(true);
+    expect(kp.verifyMessage('I control that address', signature)).toBe(false);
+    expect(kp.verifyMessage(message, 'not a signature')).toBe(false);
+
+    const digest:Buffer = AVMKeyPair.digestMessage(message);
+    const preimage:Buffer = Buffer.concat([
+      Buffer.from('\x1AAvalanche Signed Message:\n', 'utf8'), Buffer.from('00000016', 'hex'), Buffer.from(message, 'utf8'),
+    ]);
+    expect(digest.toString('hex')).toBe(createHash('sha256').update(preimage).digest('hex'));
+    // a message signature is not a signature over the raw message
+    expect(kp.sign(Buffer.from(createHash('sha256').update(message).digest()))).not.toStrictEqual(bintools.avaDeserialize(signature));
+
+    expect(AVMKeyPair.recoverMessageAddress(message, signature).toString('hex')).toBe(kp.getAddress().toString('hex'));
+    expect(AVMKeyPair.verifyMessageAddress(kp.getAddressString(), message, signature)).toBe(true);
+    expect(AVMKeyPair.verifyMessageAddress(kp.getAddress(), message, signature)).toBe(true);
+    const codec:Bech32AddressCodec = new Bech32AddressCodec('avax');
+    expect(AVMKeyPair.verifyMessageAddress(kp.getAddressString(codec), message, signature, codec)).toBe(true);
+    expect(AVMKeyPair.verifyMessageAddress(kp.getAddressString(codec), message, signature)).toBe(false);
+    const other:AVMKeyPair = new AVMKeyPair(alias);
+    expect(AVMKeyPair.verifyMessageAddress(other.getAddress(), message, signature)).toBe(false);
+    expect(other.verifyMessage(message, signature)).toBe(false);
+    expect(AVMKeyPair.verifyMessageAddress(kp.getAddressString(), message, 'not a signature')).toBe(false);
+  });
 });
 
 describe('AVMKeyChain', () => {
@@ -117,4 +225,61 @@ describe('AVMKeyChain', () => {
     expect(kc.hasKey(addr1)).toBe(true);
     expect(kc.removeKey(bintools.avaDeserialize('6Y3kysjF9jnHnYkdS9yGAuoHyae2eNmeV'))).toBe(false);
   });
+
+  test('exportEncrypted and importEncrypted', () => {
+    const kc:AVMKeyChain = new AVMKeyChain(alias);
+    const addrs:Array<string> = [kc.makeKey(), kc.makeKey(), kc.makeKey()].map((a) => a.toString('hex')).sort();
+    const exported:string = kc.exportEncrypted('correct horse battery staple', 1000);
+    const json:any = JSON.parse(exported);
+    expect(json.version).toBe(AVMConstants.KEYCHAINFILEVERSION);
+    expect(json.iterations).toBe(1000);
+    kc.getAddresses().forEach((a) => {
+      expect(exported).not.toContain(kc.getKey(a).getPrivateKeyString());
+    });
+    // a fresh salt and iv are used on every export
+    expect(JSON.parse(kc.exportEncrypted('correct horse battery staple', 1000)).ciphertext).not.toBe(json.ciphertext);
+
+    const kc2:AVMKeyChain = new AVMKeyChain(alias);
+    const imported:Array<string> = kc2.importEncrypted(exported, 'correct horse battery staple').map((a) => a.toString('hex')).sort();
+    expect(imported).toStrictEqual(addrs);
+    kc.getAddresses().forEach((a) => {
+      expect(kc2.getKey(a).getPrivateKeyString()).toBe(kc.getKey(a).getPrivateKeyString());
+    });
+
+    expect(() => {
+      new AVMKeyChain(alias).importEncrypted(exported, 'wrong password');
+    }).toThrow('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    const tampered:any = { ...json, ciphertext: bintools.avaSerialize(Buffer.alloc(bintools.avaDeserialize(json.ciphertext).length)) };
+    expect(() => {
+      new AVMKeyChain(alias).importEncrypted(JSON.stringify(tampered), 'correct horse battery staple');
+    }).toThrow('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    expect(() => {
+      new AVMKeyChain(alias).importEncrypted(JSON.stringify({ ...json, version: 2 }), 'correct horse battery staple');
+    }).toThrow('Error - AVMKeyChain.importEncrypted: unsupported file version 2');
+
+    // bad key derivation parameters are rejected before deriving the key
+    const badparams:Array<any> = [
+      { iterations: 0 }, { iterations: -1 }, { iterations: 1.5 }, { iterations: '1000' }, { iterations: AVMConstants.KEYCHAINKDFMAXITERATIONS + 1 },
+      { iv: bintools.avaSerialize(Buffer.alloc(16)) }, { tag: bintools.avaSerialize(Buffer.alloc(8)) }, { salt: 'notbase58' },
+      { salt: bintools.avaSerialize(Buffer.alloc(0)) }, { salt: bintools.avaSerialize(Buffer.alloc(16)) },
+    ];
+    badparams.forEach((params) => {
+      expect(() => {
+        new AVMKeyChain(alias).importEncrypted(JSON.stringify({ ...json, ...params }), 'correct horse battery staple');
+      }).toThrow('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    });
+    ['null', '"keys"'].forEach((serialized) => {
+      expect(() => {
+        new AVMKeyChain(alias).importEncrypted(serialized, 'correct horse battery staple');
+      }).toThrow('Error - AVMKeyChain.importEncrypted: wrong password or corrupted file');
+    });
+    expect(() => {
+      new AVMKeyChain(alias).importEncrypted(exported.slice(0, -1), 'correct horse battery staple');
+    }).toThrow('Error - AVMKeyChain.importEncrypted: the file is not valid JSON');
+    [0, 2.5, AVMConstants.KEYCHAINKDFMAXITERATIONS + 1].forEach((iterations) => {
+      expect(() => {
+        kc.exportEncrypted('correct horse battery staple', iterations);
+      }).toThrow('Error - AVMKeyChain.exportEncrypted: iterations must be an integer from 1 to 10000000');
+    });
+  });
 });
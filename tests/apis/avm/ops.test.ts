@@ -8,12 +8,15 @@ import createHash from 'create-hash';
 import BinTools from 'src/utils/bintools';
 import BN from 'bn.js';
 import { Buffer } from 'buffer/';
-import { SecpOutput, NFTTransferOutput, TransferableOutput } from 'src/apis/avm/outputs';
+import {
+  SecpOutput, SecpMintOutput, NFTTransferOutput, TransferableOutput, OutputOwners,
+} from 'src/apis/avm/outputs';
 import {
   SigIdx, UTXOID, UnixNow, AVMConstants, InitialStates,
 } from 'src/apis/avm/types';
 import {
-  SelectOperationClass, Operation, TransferableOperation, NFTTransferOperation,
+  SelectOperationClass, Operation, TransferableOperation, NFTTransferOperation, SecpMintOperation,
+  NFTMintOperation,
 } from 'src/apis/avm/ops';
 
 /**
@@ -41,6 +44,8 @@ describe('Operations', () => {
     const goodop:NFTTransferOperation = new NFTTransferOperation(nout);
     const operation:Operation = SelectOperationClass(goodop.getOperationID());
     expect(operation).toBeInstanceOf(NFTTransferOperation);
+    expect(SelectOperationClass(AVMConstants.SECPMINTOP)).toBeInstanceOf(SecpMintOperation);
+    expect(SelectOperationClass(AVMConstants.NFTMINTOP)).toBeInstanceOf(NFTMintOperation);
     expect(() => {
       SelectOperationClass(99);
     }).toThrow('Error - SelectOperationClass: unknown opid');
@@ -76,6 +81,45 @@ describe('Operations', () => {
     expect(opcopy.toString()).toBe(op.toString());
   });
 
+  test('SecpMintOperation', () => {
+    const mintout:SecpMintOutput = new SecpMintOutput(locktime, 1, addrpay);
+    const xferout:SecpOutput = new SecpOutput(new BN(5000), locktime, 1, addrs);
+    const op:SecpMintOperation = new SecpMintOperation(mintout, xferout);
+
+    expect(op.getOperationID()).toBe(AVMConstants.SECPMINTOP);
+    expect(op.getCredentialID()).toBe(AVMConstants.SECPCREDENTIAL);
+    expect(op.getMintOutput().toString()).toBe(mintout.toString());
+    expect(op.getTransferOutput().toString()).toBe(xferout.toString());
+
+    op.addSignatureIdx(1, addrpay[1]);
+    const opcopy:SecpMintOperation = new SecpMintOperation();
+    opcopy.fromBuffer(op.toBuffer());
+    expect(opcopy.toString()).toBe(op.toString());
+    expect(opcopy.getTransferOutput().getAmount().toNumber()).toBe(5000);
+    expect(opcopy.getSigIdxs()[0].toBuffer().readUInt32BE(0)).toBe(1);
+  });
+
+  test('NFTMintOperation', () => {
+    const owners:Array<OutputOwners> = [
+      new OutputOwners(locktime, 1, addrpay),
+      new OutputOwners(new BN(0), 1, [addrs[2]]),
+    ];
+    const op:NFTMintOperation = new NFTMintOperation(3, payload, owners);
+
+    expect(op.getOperationID()).toBe(AVMConstants.NFTMINTOP);
+    expect(op.getCredentialID()).toBe(AVMConstants.NFTCREDENTIAL);
+    expect(op.getGroupID()).toBe(3);
+    expect(op.getPayload().toString('hex')).toBe(payload.toString('hex'));
+    expect(op.getOutputOwners().length).toBe(2);
+
+    op.addSignatureIdx(0, addrs[0]);
+    const opcopy:NFTMintOperation = new NFTMintOperation();
+    opcopy.fromBuffer(op.toBuffer());
+    expect(opcopy.toString()).toBe(op.toString());
+    expect(opcopy.getGroupID()).toBe(3);
+    expect(opcopy.getOutputOwners()[1].getAddresses()).toStrictEqual([addrs[2]]);
+  });
+
   test('TransferableOperation', () => {
     const nout:NFTTransferOutput = new NFTTransferOutput(1000, payload, locktime, 1, addrs);
     const op:NFTTransferOperation = new NFTTransferOperation(nout);
@@ -101,4 +145,32 @@ describe('Operations', () => {
     expect(xferop2.toBuffer().toString('hex')).toBe(xferop.toBuffer().toString('hex'));
     expect(xferop3.toBuffer().toString('hex')).toBe(xferop.toBuffer().toString('hex'));
   });
+
+  test('toJSON and fromJSON', () => {
+    const mintop:SecpMintOperation = new SecpMintOperation(
+      new SecpMintOutput(locktime, 1, addrpay), new SecpOutput(new BN(5000), locktime, 1, addrs),
+    );
+    mintop.addSignatureIdx(1, addrpay[1]);
+    const mintjson:any = mintop.toJSON();
+    expect(mintjson.operationID).toBe(AVMConstants.SECPMINTOP);
+    expect(mintjson.sigIdxs).toStrictEqual([1]);
+    expect(mintjson.transferOutput.amount).toBe('5000');
+    expect(new SecpMintOperation().fromJSON(mintjson).toString()).toBe(mintop.toString());
+
+    const nftmintop:NFTMintOperation = new NFTMintOperation(3, payload, [new OutputOwners(locktime, 1, addrpay)]);
+    const nftmintjson:any = nftmintop.serialize('X');
+    expect(nftmintjson.outputOwners[0].addresses[0]).toMatch(/^X-/);
+    expect(new NFTMintOperation().fromJSON(nftmintjson).toString()).toBe(nftmintop.toString());
+
+    const nout:NFTTransferOutput = new NFTTransferOutput(1000, payload, locktime, 1, addrs);
+    const op:NFTTransferOperation = new NFTTransferOperation(nout);
+    op.addSignatureIdx(0, addrs[0]);
+    const utxoid:Buffer = Buffer.concat([assetIDBuff, Buffer.alloc(4)]);
+    const xferop:TransferableOperation = new TransferableOperation(assetIDBuff, [utxoid], op);
+    const xferjson:any = JSON.parse(JSON.stringify(xferop));
+    expect(xferjson.utxoIDs).toStrictEqual([bintools.avaSerialize(utxoid)]);
+    const xferopcopy:TransferableOperation = new TransferableOperation().fromJSON(xferjson);
+    expect(xferopcopy.getOperation()).toBeInstanceOf(NFTTransferOperation);
+    expect(xferopcopy.toBuffer().toString('hex')).toBe(xferop.toBuffer().toString('hex'));
+  });
 });
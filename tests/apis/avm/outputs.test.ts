@@ -1,7 +1,10 @@
 import BN from 'bn.js';
 import { Buffer } from 'buffer/';
 import BinTools from 'src/utils/bintools';
-import { Output, SecpOutput, SelectOutputClass } from 'src/apis/avm/outputs';
+import { Bech32AddressCodec } from 'src/utils/addresscodec';
+import {
+  Output, OutputOwners, SecpOutput, SecpMintOutput, NFTMintOutput, NFTTransferOutput, TransferableOutput, SelectOutputClass,
+} from 'src/apis/avm/outputs';
 
 const bintools = BinTools.getInstance();
 
@@ -23,6 +26,10 @@ describe('Outputs', () => {
     const goodout:SecpOutput = new SecpOutput(new BN(2600), locktime, 1, addrpay);
     const outpayment:Output = SelectOutputClass(goodout.getOutputID());
     expect(outpayment).toBeInstanceOf(SecpOutput);
+    const mintout:SecpMintOutput = new SecpMintOutput(locktime, 1, addrpay);
+    expect(SelectOutputClass(mintout.getOutputID())).toBeInstanceOf(SecpMintOutput);
+    const nftmintout:NFTMintOutput = new NFTMintOutput(0, locktime, 1, addrpay);
+    expect(SelectOutputClass(nftmintout.getOutputID())).toBeInstanceOf(NFTMintOutput);
     expect(() => {
       SelectOutputClass(99);
     }).toThrow('Error - SelectOutputClass: unknown outputid');
@@ -70,4 +77,81 @@ describe('Outputs', () => {
     const m4:boolean = out.meetsThreshold(addrs, locktime.add(new BN(100)));
     expect(m4).toBe(true);
   });
+
+  test('SecpMintOutput', () => {
+    const out:SecpMintOutput = new SecpMintOutput(locktime, 2, addrs);
+    expect(out.getOutputID()).toBe(6);
+    expect(out.getThreshold()).toBe(2);
+    expect(out.getLocktime().toNumber()).toBe(locktime.toNumber());
+    expect(JSON.stringify(out.getAddresses().sort())).toStrictEqual(JSON.stringify(addrs.sort()));
+
+    const outcopy:SecpMintOutput = new SecpMintOutput();
+    outcopy.fromBuffer(out.toBuffer());
+    expect(outcopy.toString()).toBe(out.toString());
+
+    expect(out.meetsThreshold([addrs[0]])).toBe(false);
+    expect(out.meetsThreshold(addrs)).toBe(true);
+  });
+
+  test('NFTMintOutput', () => {
+    const out:NFTMintOutput = new NFTMintOutput(7, locktime, 2, addrs);
+    expect(out.getOutputID()).toBe(10);
+    expect(out.getGroupID()).toBe(7);
+    expect(out.getThreshold()).toBe(2);
+
+    const outcopy:NFTMintOutput = new NFTMintOutput();
+    outcopy.fromBuffer(out.toBuffer());
+    expect(outcopy.toString()).toBe(out.toString());
+    expect(outcopy.getGroupID()).toBe(7);
+  });
+
+  test('OutputOwners', () => {
+    const owners:OutputOwners = new OutputOwners(locktime, 2, addrfall);
+    const out:SecpMintOutput = new SecpMintOutput(locktime, 2, addrfall);
+    expect(owners.toBuffer().toString('hex')).toBe(out.toBuffer().toString('hex'));
+
+    const ownerscopy:OutputOwners = new OutputOwners();
+    ownerscopy.fromBuffer(owners.toBuffer());
+    expect(ownerscopy.toString()).toBe(owners.toString());
+    expect(ownerscopy.meetsThreshold(addrfall, fallLocktime)).toBe(true);
+  });
+
+  test('toJSON and fromJSON', () => {
+    const out:SecpOutput = new SecpOutput(new BN('18446744073709551615'), locktime, 2, addrs);
+    const json:any = out.toJSON();
+    expect(json).toStrictEqual({
+      outputID: 7,
+      locktime: '54321',
+      threshold: 2,
+      addresses: out.getAddresses().map((a) => bintools.addressToString('X', a)),
+      amount: '18446744073709551615',
+    });
+    expect(new SecpOutput().fromJSON(json).toString()).toBe(out.toString());
+
+    const nftmintout:NFTMintOutput = new NFTMintOutput(7, locktime, 1, addrpay);
+    expect(new NFTMintOutput().fromJSON(nftmintout.toJSON()).toString()).toBe(nftmintout.toString());
+
+    const owners:OutputOwners = new OutputOwners(locktime, 1, addrfall);
+    expect(owners.serialize('P').addresses[0]).toMatch(/^P-/);
+    expect(new OutputOwners().fromJSON(owners.serialize('P')).toString()).toBe(owners.toString());
+    const codec:Bech32AddressCodec = new Bech32AddressCodec('avax');
+    expect(owners.serialize('X', codec).addresses[0]).toBe(codec.encode('X', owners.getAddresses()[0]));
+    expect(new OutputOwners().fromJSON(owners.serialize('X', codec), codec).toString()).toBe(owners.toString());
+    expect(() => {
+      new OutputOwners().fromJSON(owners.serialize('X', codec));
+    }).toThrow('Error - Base58AddressCodec.decodeBody');
+
+    const nftout:NFTTransferOutput = new NFTTransferOutput(3, Buffer.from('payload'), locktime, 1, addrpay);
+    const xferout:TransferableOutput = new TransferableOutput(assetIDBuff, nftout);
+    const xferjson:any = JSON.parse(JSON.stringify(xferout));
+    // JSON.stringify passes array indexes and property keys to toJSON, which must not end up as chain aliases
+    expect(JSON.parse(JSON.stringify([xferout]))[0]).toStrictEqual(xferjson);
+    expect(JSON.parse(JSON.stringify({ owners })).owners.addresses[0]).toMatch(/^X-/);
+    expect(xferjson.assetID).toBe(bintools.avaSerialize(assetIDBuff));
+    expect(xferjson.output.addresses[0]).toMatch(/^X-/);
+    expect(bintools.avaDeserialize(xferjson.output.payload).toString()).toBe('payload');
+    const xferoutcopy:TransferableOutput = new TransferableOutput().fromJSON(xferjson);
+    expect(xferoutcopy.getOutput()).toBeInstanceOf(NFTTransferOutput);
+    expect(xferoutcopy.toBuffer().toString('hex')).toBe(xferout.toBuffer().toString('hex'));
+  });
 });
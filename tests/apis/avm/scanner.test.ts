@@ -0,0 +1,87 @@
+import mockAxios from 'jest-mock-axios';
+import { Avalanche } from 'src';
+import AVMAPI from 'src/apis/avm/api';
+import { AddressScanner } from 'src/apis/avm/scanner';
+import { HDKeyChain } from 'src/apis/avm/hdkeychain';
+import { AVMKeyPair } from 'src/apis/avm/keychain';
+import { UTXO } from 'src/apis/avm/utxos';
+import { SecpOutput } from 'src/apis/avm/outputs';
+import { Buffer } from 'buffer/';
+import BN from 'bn.js';
+import createHash from 'create-hash';
+
+describe('AddressScanner', () => {
+  const avalanche:Avalanche = new Avalanche('127.0.0.1', 9650, 'https', 12345, undefined, true);
+  const api:AVMAPI = new AVMAPI(avalanche, '/ext/bc/avm', '4R5p2RXDGLqaifZE4hHWH9owe34pfoBULn1DrQTWivjg8o4aH');
+  const hd:HDKeyChain = new HDKeyChain('X', 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+  const pairs:Array<AVMKeyPair> = [];
+  for (let i:number = 0; i < 16; i++) {
+    pairs.push(hd.deriveKeyPair(i));
+  }
+  const generator = (index:number):AVMKeyPair => pairs[index];
+  const assetID:Buffer = Buffer.from(createHash('sha256').update('scanned asset').digest());
+
+  const utxoFor = (index:number):string => {
+    const txid:Buffer = Buffer.from(createHash('sha256').update(`scan ${index}`).digest());
+    const out:SecpOutput = new SecpOutput(new BN(index + 1), new BN(0), 1, [pairs[index].getAddress()]);
+    return new UTXO(txid, 0, assetID, out).toString();
+  };
+
+  // answers each getUTXOs call with the UTXOs of the requested addresses that are in use, returns the number of calls
+  const serve = async (used:Array<number>, done:() => boolean):Promise<number> => {
+    const owners:{[addr: string]: string} = {};
+    used.forEach((i) => { owners[api.addressFromBuffer(pairs[i].getAddress())] = utxoFor(i); });
+    let calls:number = 0;
+    while (!done()) {
+      await new Promise((resolve) => setImmediate(resolve));
+      if (mockAxios.request.mock.calls.length > calls) {
+        const rpc:any = JSON.parse(mockAxios.request.mock.calls[calls][0].data);
+        expect(rpc.method).toBe('avm.getUTXOs');
+        const utxos:Array<string> = rpc.params.addresses.filter((a:string) => a in owners).map((a:string) => owners[a]);
+        mockAxios.mockResponse({ data: { result: { utxos } } });
+        calls += 1;
+      }
+    }
+    return calls;
+  };
+
+  afterEach(() => {
+    mockAxios.reset();
+  });
+
+  test('stops after the gap limit', async () => {
+    const scanner:AddressScanner = new AddressScanner(api, generator, 5, 4);
+    expect(scanner.getGapLimit()).toBe(5);
+    expect(scanner.getBatchSize()).toBe(4);
+    let finished:boolean = false;
+    const result = scanner.scan().then((r) => { finished = true; return r; });
+    const calls:number = await serve([0, 3, 7], () => finished);
+    const { keychain, utxos, nextIndex } = await result;
+
+    // indices 0-3 and 4-7 have used addresses, 8-11 and 12-15 make a gap of 8
+    expect(calls).toBe(4);
+    expect(nextIndex).toBe(8);
+    expect(keychain.getAddresses().length).toBe(8);
+    expect(keychain.hasKey(pairs[5].getAddress())).toBe(true);
+    expect(keychain.hasKey(pairs[8].getAddress())).toBe(false);
+    expect(utxos.getAllUTXOStrings().sort()).toStrictEqual([0, 3, 7].map(utxoFor).sort());
+    const kp:AVMKeyPair = keychain.getKey(pairs[7].getAddress());
+    expect(kp.getPrivateKey().toString('hex')).toBe(pairs[7].getPrivateKey().toString('hex'));
+  });
+
+  test('empty wallet and start index', async () => {
+    const scanner:AddressScanner = new AddressScanner(api, generator, 3);
+    let finished:boolean = false;
+    const result = scanner.scan(10).then((r) => { finished = true; return r; });
+    const calls:number = await serve([2], () => finished);
+    const { keychain, utxos, nextIndex } = await result;
+
+    expect(calls).toBe(1);
+    expect(nextIndex).toBe(10);
+    expect(keychain.getAddresses().length).toBe(0);
+    expect(utxos.getAllUTXOs().length).toBe(0);
+    expect(() => {
+      new AddressScanner(api, generator, 0);
+    }).toThrow('Error - AddressScanner.constructor: gapLimit and batchSize must be at least 1');
+  });
+});
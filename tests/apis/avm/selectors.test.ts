@@ -0,0 +1,87 @@
+import BN from 'bn.js';
+import { Buffer } from 'buffer/';
+import createHash from 'create-hash';
+import BinTools from 'src/utils/bintools';
+import { UTXO, UTXOSet } from 'src/apis/avm/utxos';
+import { SecpOutput, AmountOutput } from 'src/apis/avm/outputs';
+import { UnsignedTx } from 'src/apis/avm/tx';
+import {
+  LargestFirstSelector, SmallestFirstSelector, OldestFirstSelector, BranchAndBoundSelector, PrivacySelector,
+} from 'src/apis/avm/selectors';
+
+const bintools = BinTools.getInstance();
+
+describe('CoinSelector', () => {
+  const assetID:Buffer = Buffer.from(createHash('sha256').update('Pick me, pick me!').digest());
+  const blockchainID:Buffer = Buffer.alloc(32, 7);
+  const addrA:Buffer = Buffer.alloc(20, 1);
+  const addrB:Buffer = Buffer.alloc(20, 2);
+  let utxos:Array<UTXO>;
+
+  const makeUTXO = (i:number, amount:number, locktime:number, addrs:Array<Buffer>):UTXO => {
+    const txid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(i), 32)).digest());
+    return new UTXO(txid, i, assetID, new SecpOutput(new BN(amount), new BN(locktime), 1, addrs));
+  };
+  const amounts = (selected:Array<UTXO>):Array<number> => selected.map((u) => (u.getOutput() as AmountOutput).getAmount().toNumber());
+
+  beforeEach(() => {
+    utxos = [
+      makeUTXO(0, 300, 30, [addrA]),
+      makeUTXO(1, 100, 10, [addrA]),
+      makeUTXO(2, 500, 50, [addrB]),
+      makeUTXO(3, 200, 0, [addrB]),
+      makeUTXO(4, 50, 20, [addrA]),
+    ];
+  });
+
+  test('LargestFirstSelector', () => {
+    const selector:LargestFirstSelector = new LargestFirstSelector();
+    expect(amounts(selector.select(utxos, new BN(600)))).toStrictEqual([500, 300]);
+    expect(amounts(selector.select(utxos, new BN(5000))).length).toBe(5);
+  });
+
+  test('SmallestFirstSelector', () => {
+    const selector:SmallestFirstSelector = new SmallestFirstSelector();
+    expect(amounts(selector.select(utxos, new BN(320)))).toStrictEqual([50, 100, 200]);
+  });
+
+  test('OldestFirstSelector', () => {
+    const selector:OldestFirstSelector = new OldestFirstSelector();
+    expect(amounts(selector.select(utxos, new BN(250)))).toStrictEqual([200, 100]);
+  });
+
+  test('BranchAndBoundSelector', () => {
+    const selector:BranchAndBoundSelector = new BranchAndBoundSelector();
+    expect(amounts(selector.select(utxos, new BN(650))).sort((a, b) => a - b)).toStrictEqual([50, 100, 500]);
+    // no exact match, falls back to largest first
+    expect(amounts(selector.select(utxos, new BN(1111)))).toStrictEqual([500, 300, 200, 100, 50]);
+    expect(amounts(new BranchAndBoundSelector(1).select(utxos, new BN(650)))).toStrictEqual([500, 300]);
+  });
+
+  test('PrivacySelector', () => {
+    const selector:PrivacySelector = new PrivacySelector();
+    // both address sets can cover it, the smaller balance is used
+    expect(amounts(selector.select(utxos, new BN(400)))).toStrictEqual([300, 100]);
+    expect(amounts(selector.select(utxos, new BN(600)))).toStrictEqual([500, 200]);
+    // neither can, the largest balance is drained first
+    expect(amounts(selector.select(utxos, new BN(800)))).toStrictEqual([500, 200, 300]);
+  });
+
+  test('UTXOSet.buildBaseTx with selector', () => {
+    const set:UTXOSet = new UTXOSet();
+    set.addArray(utxos);
+    const txu:UnsignedTx = set.buildBaseTx(
+      12345, blockchainID, new BN(650), [addrB], [addrA, addrB], [addrA], assetID,
+      new BN(100), new BN(0), 1, undefined, undefined, new BN(0), undefined, new BranchAndBoundSelector(),
+    );
+    expect(txu.getTransaction().getIns().length).toBe(3);
+    expect(txu.getTransaction().getOuts().length).toBe(1);
+
+    const txu2:UnsignedTx = set.buildBaseTx(
+      12345, blockchainID, new BN(600), [addrB], [addrA, addrB], [addrA], assetID,
+      new BN(100), new BN(0), 1, undefined, undefined, new BN(0), undefined, new SmallestFirstSelector(),
+    );
+    expect(txu2.getTransaction().getIns().length).toBe(4);
+    expect(txu2.getTransaction().getOuts().length).toBe(2);
+  });
+});
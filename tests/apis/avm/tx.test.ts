@@ -1,16 +1,58 @@
 import { UTXOSet, UTXO } from 'src/apis/avm/utxos';
 import {
-  BaseTx, CreateAssetTx, OperationTx, UnsignedTx, Tx,
+  BaseTx, CreateAssetTx, OperationTx, UnsignedTx, Tx, PartiallySignedTx, decodeTx,
 } from 'src/apis/avm/tx';
 import { AVMKeyChain } from 'src/apis/avm/keychain';
 import { SecpInput, TransferableInput } from 'src/apis/avm/inputs';
 import createHash from 'create-hash';
 import BinTools from 'src/utils/bintools';
+import { Bech32AddressCodec } from 'src/utils/addresscodec';
 import BN from 'bn.js';
 import { Buffer } from 'buffer/';
-import { SecpOutput, NFTTransferOutput, TransferableOutput } from 'src/apis/avm/outputs';
-import { UnixNow, AVMConstants, InitialStates } from 'src/apis/avm/types';
-import { TransferableOperation, NFTTransferOperation } from 'src/apis/avm/ops';
+import {
+  SecpOutput, SecpMintOutput, NFTMintOutput, NFTTransferOutput, TransferableOutput, OutputOwners,
+} from 'src/apis/avm/outputs';
+import {
+  UnixNow, AVMConstants, InitialStates, Payment,
+} from 'src/apis/avm/types';
+import {
+  TransferableOperation, NFTTransferOperation, SecpMintOperation, NFTMintOperation,
+} from 'src/apis/avm/ops';
+import { FeePolicy } from 'src/apis/avm/fees';
+import { LargestFirstSelector } from 'src/apis/avm/selectors';
+import { Signer } from 'src/apis/avm/signer';
+
+/**
+ * A signer which answers asynchronously, one request at a time, like a hardware wallet.
+ */
+class MockSigner implements Signer {
+  protected kc:AVMKeyChain;
+
+  protected corrupt:boolean;
+
+  requests:number = 0;
+
+  pending:number = 0;
+
+  maxPending:number = 0;
+
+  getAddresses = ():Array<Buffer> => this.kc.getAddresses();
+
+  signDigest = async (digest:Buffer, address:Buffer):Promise<Buffer> => {
+    this.requests += 1;
+    this.pending += 1;
+    this.maxPending = Math.max(this.maxPending, this.pending);
+    await new Promise((resolve) => setImmediate(resolve));
+    this.pending -= 1;
+    const sig:Buffer = this.kc.getKey(address).sign(digest);
+    return this.corrupt ? sig.slice(0, 64) : sig;
+  };
+
+  constructor(kc:AVMKeyChain, corrupt:boolean = false) {
+    this.kc = kc;
+    this.corrupt = corrupt;
+  }
+}
 
 /**
  * @ignore
@@ -34,6 +76,7 @@ describe('Transactions', () => {
   const alias:string = 'X';
   const assetID:Buffer = Buffer.from(createHash('sha256').update("Well, now, don't you tell me to smile, you stick around I'll make it worth your while.").digest());
   const NFTassetID:Buffer = Buffer.from(createHash('sha256').update("I can't stand it, I know you planned it, I'mma set straight this Watergate.'").digest());
+  const mintAssetID:Buffer = Buffer.from(createHash('sha256').update('Minted, not stirred.').digest());
   let amount:BN;
   let addresses:Array<Buffer>;
   let fallAddresses:Array<Buffer>;
@@ -41,7 +84,7 @@ describe('Transactions', () => {
   let fallLocktime:BN;
   let threshold:number;
   let fallThreshold:number;
-  const nftutxoids:Array<string> = [];
+  let nftutxoids:Array<string>;
   beforeEach(() => {
     set = new UTXOSet();
     keymgr1 = new AVMKeyChain(alias);
@@ -54,6 +97,7 @@ describe('Transactions', () => {
     inputs = [];
     outputs = [];
     ops = [];
+    nftutxoids = [];
     for (let i:number = 0; i < 3; i++) {
       addrs1.push(keymgr1.makeKey());
       addrs2.push(keymgr2.makeKey());
@@ -96,6 +140,11 @@ describe('Transactions', () => {
       ops.push(xferop);
       utxos.push(nftutxo);
     }
+    const mintout:SecpMintOutput = new SecpMintOutput(locktime, 1, addresses);
+    const minttxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(2000), 32)).digest());
+    utxos.push(new UTXO(minttxid, 0, mintAssetID, mintout));
+    const nftmintout:NFTMintOutput = new NFTMintOutput(7, locktime, 1, addresses);
+    utxos.push(new UTXO(minttxid, 1, NFTassetID, nftmintout));
     set.addArray(utxos);
   });
 
@@ -195,6 +244,18 @@ describe('Transactions', () => {
     expect(txunew.toString()).toBe(txu.toString());
   });
 
+  test('CreateAssetTX NFT family', () => {
+    const initialState:InitialStates = new InitialStates();
+    initialState.addOutput(new NFTMintOutput(0, locktime, 1, addrs1), AVMConstants.NFTFXID);
+    initialState.addOutput(new NFTMintOutput(1, locktime, 1, addrs2), AVMConstants.NFTFXID);
+    const txu:CreateAssetTx = new CreateAssetTx(netid, blockchainID, outputs, inputs, 'Rick and Morty trading cards', 'RMTC', 0, initialState);
+
+    const txunew:CreateAssetTx = new CreateAssetTx();
+    txunew.fromBuffer(txu.toBuffer());
+    expect(txunew.toBuffer().toString('hex')).toBe(txu.toBuffer().toString('hex'));
+    expect(txunew.getInitialStates().toBuffer().toString('hex')).toBe(initialState.toBuffer().toString('hex'));
+  });
+
   test('Creation OperationTx', () => {
     const optx:OperationTx = new OperationTx(
       netid, blockchainID, outputs, inputs, ops,
@@ -234,6 +295,497 @@ describe('Transactions', () => {
     expect(tx2.toString()).toBe(tx.toString());
   });
 
+  test('Creation Tx with memo', () => {
+    const memo:Buffer = Buffer.from('Wubba Lubba Dub Dub');
+    const txu:UnsignedTx = set.buildBaseTx(
+      netid, blockchainID,
+      new BN(9000),
+      addrs3, addrs1, addrs1, assetID,
+      UnixNow(), new BN(0), 1, AVMConstants.SECPOUTPUTID, memo,
+    );
+    expect(txu.getTransaction().getMemo().toString()).toBe('Wubba Lubba Dub Dub');
+    const tx:Tx = keymgr1.signTx(txu);
+    const tx2:Tx = new Tx();
+    tx2.fromBuffer(tx.toBuffer());
+    expect(tx2.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
+    const txu2:UnsignedTx = new UnsignedTx();
+    txu2.fromBuffer(txu.toBuffer());
+    expect(txu2.getTransaction().getMemo().toString('hex')).toBe(memo.toString('hex'));
+
+    const basetx:BaseTx = new BaseTx(netid, blockchainID, outputs, inputs);
+    expect(basetx.getMemo().length).toBe(0);
+    expect(() => {
+      new BaseTx(netid, blockchainID, outputs, inputs, Buffer.alloc(AVMConstants.MEMOMAXLEN + 1));
+    }).toThrow('Error - BaseTx.constructor: memo may not exceed length of 256');
+  });
+
+  test('Creation Tx with fee in another asset', () => {
+    const feeAssetID:Buffer = Buffer.from(createHash('sha256').update('Fees, fees, fees.').digest());
+    const feetxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(4000), 32)).digest());
+    set.add(new UTXO(feetxid, 0, feeAssetID, new SecpOutput(new BN(1000), locktime, 1, addresses)));
+
+    const txu:UnsignedTx = set.buildBaseTx(
+      netid, blockchainID,
+      new BN(9000),
+      addrs3, addrs1, addrs1, assetID,
+      UnixNow(), new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined,
+      new BN(100), feeAssetID,
+    );
+    const ins:Array<TransferableInput> = txu.getTransaction().getIns();
+    const outs:Array<TransferableOutput> = txu.getTransaction().getOuts();
+    expect(ins.length).toBe(2);
+    expect(outs.length).toBe(3);
+    const feeouts:Array<TransferableOutput> = outs.filter((o) => o.getAssetID().compare(feeAssetID) === 0);
+    expect(feeouts.length).toBe(1);
+    expect((feeouts[0].getOutput() as SecpOutput).getAmount().toNumber()).toBe(900);
+
+    const tx:Tx = keymgr1.signTx(txu);
+    const tx2:Tx = new Tx();
+    tx2.fromBuffer(tx.toBuffer());
+    expect(tx2.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
+
+    expect(() => {
+      set.buildBaseTx(
+        netid, blockchainID, new BN(9000), addrs3, addrs1, addrs1, assetID,
+        UnixNow(), new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined,
+        new BN(1001), feeAssetID,
+      );
+    }).toThrow('Error - UTXOSet.buildBaseTx: insufficient funds');
+  });
+
+  test('Creation Tx with fee in the same asset', () => {
+    const txu:UnsignedTx = set.buildBaseTx(
+      netid, blockchainID,
+      new BN(9000),
+      addrs3, addrs1, addrs1, assetID,
+      UnixNow(), new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined,
+      new BN(1500),
+    );
+    const outs:Array<TransferableOutput> = txu.getTransaction().getOuts();
+    expect(txu.getTransaction().getIns().length).toBe(2);
+    expect(outs.length).toBe(2);
+    const total:BN = outs.map((o) => (o.getOutput() as SecpOutput).getAmount())
+      .reduce((a, b) => a.add(b), new BN(0));
+    expect(total.toNumber()).toBe(20000 - 1500);
+  });
+
+  test('Creation Tx with batched payments', () => {
+    const otherAssetID:Buffer = Buffer.from(createHash('sha256').update('Batch of the day.').digest());
+    const othertxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(3000), 32)).digest());
+    set.add(new UTXO(othertxid, 0, otherAssetID, new SecpOutput(new BN(500), locktime, 1, addresses)));
+
+    const payments:Array<Payment> = [
+      { assetID, amount: new BN(9000), toAddresses: [addrs3[0]] },
+      {
+        assetID, amount: new BN(6000), toAddresses: [addrs3[1]], locktime: UnixNow().add(new BN(50)), threshold: 1,
+      },
+      { assetID: otherAssetID, amount: new BN(200), toAddresses: [addrs2[0]] },
+    ];
+    const txu:UnsignedTx = set.buildBatchTx(netid, blockchainID, payments, addrs1, addrs2);
+    const basetx:BaseTx = txu.getTransaction();
+    expect(basetx.getIns().length).toBe(3);
+    expect(basetx.getOuts().length).toBe(5);
+
+    const sums:{[assetid: string]: BN} = {};
+    const outs:Array<TransferableOutput> = basetx.getOuts();
+    for (let i:number = 0; i < outs.length; i++) {
+      const key:string = outs[i].getAssetID().toString('hex');
+      const amt:BN = (outs[i].getOutput() as SecpOutput).getAmount();
+      sums[key] = key in sums ? sums[key].add(amt) : amt;
+    }
+    expect(sums[assetID.toString('hex')].toNumber()).toBe(20000);
+    expect(sums[otherAssetID.toString('hex')].toNumber()).toBe(500);
+
+    const tx:Tx = keymgr1.signTx(txu);
+    const tx2:Tx = new Tx();
+    tx2.fromBuffer(tx.toBuffer());
+    expect(tx2.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
+
+    // one fee for every payment, burned as the difference between inputs and outputs
+    const burned = (utx:UnsignedTx, asset:Buffer):number => {
+      const sum = (amts:Array<BN>):BN => amts.reduce((a, b) => a.add(b), new BN(0));
+      const ins:BN = sum(utx.getTransaction().getIns().filter((i) => i.getAssetID().equals(asset)).map((i) => (i.getInput() as SecpInput).getAmount()));
+      const outsum:BN = sum(utx.getTransaction().getOuts().filter((o) => o.getAssetID().equals(asset)).map((o) => (o.getOutput() as SecpOutput).getAmount()));
+      return ins.sub(outsum).toNumber();
+    };
+    const paid:UnsignedTx = set.buildBatchTx(netid, blockchainID, payments, addrs1, addrs2, UnixNow(), undefined, undefined, new BN(100));
+    expect(burned(paid, assetID)).toBe(100);
+    expect(burned(paid, otherAssetID)).toBe(0);
+    const paidother:UnsignedTx = set.buildBatchTx(netid, blockchainID, payments, addrs1, addrs2, UnixNow(), undefined, undefined, new BN(100), otherAssetID);
+    expect(burned(paidother, assetID)).toBe(0);
+    expect(burned(paidother, otherAssetID)).toBe(100);
+    const policy:FeePolicy = new FeePolicy(new BN(100), new BN(3));
+    const policed:UnsignedTx = set.buildBatchTx(netid, blockchainID, payments, addrs1, addrs2, UnixNow(), undefined, undefined, policy);
+    expect(burned(policed, assetID)).toBe(100 + 3 * keymgr1.signTx(policed).toBuffer().length);
+
+    expect(() => {
+      set.buildBatchTx(netid, blockchainID, [{ assetID, amount: new BN(50001), toAddresses: addrs3 }], addrs1, addrs1);
+    }).toThrow('Error - UTXOSet.buildBatchTx: insufficient funds');
+    expect(() => {
+      set.buildBatchTx(netid, blockchainID, [{ assetID, amount: new BN(0), toAddresses: addrs3 }], addrs1, addrs1);
+    }).toThrow('Error - UTXOSet.buildBatchTx: payment amounts must be greater than zero');
+  });
+
+  test('Creation Tx consolidating UTXOs', () => {
+    const txu:UnsignedTx = set.buildConsolidationTx(netid, blockchainID, addrs1, [addrs2[0]]);
+    const basetx:BaseTx = txu.getTransaction();
+    expect(basetx.getIns().length).toBe(5);
+    expect(basetx.getOuts().length).toBe(1);
+    expect((basetx.getOuts()[0].getOutput() as SecpOutput).getAmount().toNumber()).toBe(5 * amnt);
+    expect(basetx.getOuts()[0].getAssetID().toString('hex')).toBe(assetID.toString('hex'));
+
+    const tx:Tx = keymgr1.signTx(txu);
+    const tx2:Tx = new Tx();
+    tx2.fromBuffer(tx.toBuffer());
+    expect(tx2.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
+
+    const capped:UnsignedTx = set.buildConsolidationTx(netid, blockchainID, addrs1, [addrs2[0]], [assetID], 2);
+    expect(capped.getTransaction().getIns().length).toBe(2);
+    expect((capped.getTransaction().getOuts()[0].getOutput() as SecpOutput).getAmount().toNumber()).toBe(2 * amnt);
+
+    // the consolidated output pays the fee
+    const paid:UnsignedTx = set.buildConsolidationTx(
+      netid, blockchainID, addrs1, [addrs2[0]], undefined, undefined, UnixNow(), new BN(0), 1, undefined, new BN(100),
+    );
+    expect(paid.getTransaction().getIns().length).toBe(5);
+    expect((paid.getTransaction().getOuts()[0].getOutput() as SecpOutput).getAmount().toNumber()).toBe(5 * amnt - 100);
+    const policy:FeePolicy = new FeePolicy(new BN(100), new BN(3));
+    const policed:UnsignedTx = set.buildConsolidationTx(
+      netid, blockchainID, addrs1, [addrs2[0]], [assetID], undefined, UnixNow(), new BN(0), 1, undefined, policy, assetID,
+    );
+    expect((policed.getTransaction().getOuts()[0].getOutput() as SecpOutput).getAmount().toNumber())
+      .toBe(5 * amnt - 100 - 3 * keymgr1.signTx(policed).toBuffer().length);
+    expect(() => {
+      set.buildConsolidationTx(netid, blockchainID, addrs1, [addrs2[0]], [assetID], 1, UnixNow(), new BN(0), 1, undefined, new BN(amnt + 1));
+    }).toThrow('Error - UTXOSet.buildConsolidationTx: insufficient funds of assetID');
+    expect(() => {
+      set.buildConsolidationTx(netid, blockchainID, addrs1, [addrs2[0]], [assetID], undefined, UnixNow(), new BN(0), 1, undefined, new BN(100), NFTassetID);
+    }).toThrow('Error - UTXOSet.buildConsolidationTx: insufficient funds of assetID');
+
+    const bigtxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(7000), 32)).digest());
+    set.add(new UTXO(bigtxid, 0, assetID, new SecpOutput(new BN(3 * amnt), locktime, 1, addresses)));
+    const smallest:UnsignedTx = set.buildConsolidationTx(netid, blockchainID, addrs1, [addrs2[0]], [assetID], 2);
+    expect((smallest.getTransaction().getOuts()[0].getOutput() as SecpOutput).getAmount().toNumber()).toBe(2 * amnt);
+    const largest:UnsignedTx = set.buildConsolidationTx(
+      netid, blockchainID, addrs1, [addrs2[0]], [assetID], 2, UnixNow(), new BN(0), 1, undefined, new BN(0), undefined, new LargestFirstSelector(),
+    );
+    expect((largest.getTransaction().getOuts()[0].getOutput() as SecpOutput).getAmount().toNumber()).toBe(4 * amnt);
+
+    [0, -1, 1.5].forEach((maxInputs) => {
+      expect(() => {
+        set.buildConsolidationTx(netid, blockchainID, addrs1, [addrs2[0]], [assetID], maxInputs);
+      }).toThrow(`Error - UTXOSet.buildConsolidationTx: maxInputs must be a positive integer: ${maxInputs}`);
+    });
+    expect(() => {
+      set.buildConsolidationTx(netid, blockchainID, addrs1, [addrs2[0]], [assetID], undefined, locktime);
+    }).toThrow('Error - UTXOSet.buildConsolidationTx: no spendable UTXOs to consolidate');
+    expect(() => {
+      set.buildConsolidationTx(netid, blockchainID, addrs1, [addrs2[0]], [NFTassetID]);
+    }).toThrow('Error - UTXOSet.buildConsolidationTx: no spendable UTXOs to consolidate');
+  });
+
+  test('Creation Tx splitting a balance', () => {
+    const feeAssetID:Buffer = Buffer.from(createHash('sha256').update('Fees, fees, fees.').digest());
+    const feetxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(4000), 32)).digest());
+    set.add(new UTXO(feetxid, 0, feeAssetID, new SecpOutput(new BN(1000), locktime, 1, addresses)));
+
+    const txu:UnsignedTx = set.buildSplitTx(
+      netid, blockchainID, assetID, 4, new BN(3000), addrs2, addrs1, addrs1,
+      false, new BN(100), feeAssetID,
+    );
+    const basetx:BaseTx = txu.getTransaction();
+    expect(basetx.getIns().length).toBe(3);
+    expect(basetx.getOuts().length).toBe(6);
+    const splits:Array<TransferableOutput> = basetx.getOuts().filter((o) => (o.getOutput() as SecpOutput).getAmount().eqn(3000));
+    expect(splits.length).toBe(4);
+
+    const tx:Tx = keymgr1.signTx(txu);
+    const tx2:Tx = new Tx();
+    tx2.fromBuffer(tx.toBuffer());
+    expect(tx2.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
+
+    const total:UnsignedTx = set.buildSplitTx(netid, blockchainID, assetID, 3, new BN(amnt), addrs2, addrs1, addrs1, true);
+    const amounts:Array<number> = total.getTransaction().getOuts().map((o) => (o.getOutput() as SecpOutput).getAmount().toNumber());
+    expect(amounts.sort((a, b) => a - b)).toStrictEqual([1, 3333, 3333, 3333]);
+
+    expect(() => {
+      set.buildSplitTx(netid, blockchainID, assetID, 0, new BN(amnt), addrs2, addrs1, addrs1);
+    }).toThrow('Error - UTXOSet.buildSplitTx: count must be a positive integer');
+    expect(() => {
+      set.buildSplitTx(netid, blockchainID, assetID, 20, new BN(1), addrs2, addrs1, addrs1, true);
+    }).toThrow('Error - UTXOSet.buildSplitTx: each output must have an amount greater than zero');
+    expect(() => {
+      set.buildSplitTx(netid, blockchainID, assetID, 6, new BN(amnt), addrs2, addrs1, addrs1);
+    }).toThrow('Error - UTXOSet.buildSplitTx: insufficient funds');
+  });
+
+  test('Signed size estimation', () => {
+    const txu:UnsignedTx = set.buildBaseTx(
+      netid, blockchainID, new BN(9000), addrs3, addrs1, addrs1, assetID,
+    );
+    expect(txu.getSignedSize()).toBe(keymgr1.signTx(txu).toBuffer().length);
+
+    const optxu:UnsignedTx = set.buildNFTTransferTx(
+      netid, blockchainID, assetID, new BN(90),
+      addrs1, addresses, addresses, nftutxoids,
+    );
+    expect(optxu.getSignedSize()).toBe(keymgr1.signTx(optxu).toBuffer().length);
+  });
+
+  test('Creation Tx with FeePolicy', () => {
+    const policy:FeePolicy = new FeePolicy(new BN(100), new BN(3));
+    const txu:UnsignedTx = set.buildBaseTx(
+      netid, blockchainID, new BN(9000), addrs3, addrs1, addrs1, assetID,
+      UnixNow(), new BN(0), 1, AVMConstants.SECPOUTPUTID, undefined, policy,
+    );
+    const sum = (amts:Array<BN>):BN => amts.reduce((a, b) => a.add(b), new BN(0));
+    const insum:BN = sum(txu.getTransaction().getIns().map((i) => (i.getInput() as SecpInput).getAmount()));
+    const outsum:BN = sum(txu.getTransaction().getOuts().map((o) => (o.getOutput() as SecpOutput).getAmount()));
+    const burned:BN = insum.sub(outsum);
+    expect(burned.gte(policy.calculateFee(txu))).toBe(true);
+    expect(burned.toNumber()).toBe(100 + 3 * keymgr1.signTx(txu).toBuffer().length);
+
+    const optxu:UnsignedTx = set.buildNFTTransferTx(
+      netid, blockchainID, assetID, policy,
+      addrs1, addresses, addresses, nftutxoids,
+    );
+    // the fee is burned as the difference between inputs and outputs, never paid into an output without owners
+    expect(optxu.getTransaction().getOuts().filter((o) => o.getOutput().getAddresses().length === 0)).toStrictEqual([]);
+    const opinsum:BN = sum(optxu.getTransaction().getIns().map((i) => (i.getInput() as SecpInput).getAmount()));
+    const opoutsum:BN = sum(optxu.getTransaction().getOuts().map((o) => (o.getOutput() as SecpOutput).getAmount()));
+    expect(opinsum.sub(opoutsum).gte(policy.calculateFee(optxu))).toBe(true);
+    expect(opinsum.sub(opoutsum).toNumber()).toBe(100 + 3 * keymgr1.signTx(optxu).toBuffer().length);
+  });
+
+  test('PartiallySignedTx for multisig outputs', () => {
+    const msigAssetID:Buffer = Buffer.from(createHash('sha256').update('Two keys, one vault.').digest());
+    const msigtxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(5000), 32)).digest());
+    const owners:Array<Buffer> = [addrs1[0], addrs2[0]];
+    set.add(new UTXO(msigtxid, 0, msigAssetID, new SecpOutput(new BN(1000), new BN(0), 2, owners)));
+    const txu:UnsignedTx = set.buildBaseTx(netid, blockchainID, new BN(600), addrs3, owners, owners, msigAssetID);
+
+    const ptx1:PartiallySignedTx = new PartiallySignedTx(txu);
+    expect(ptx1.isComplete()).toBe(false);
+    expect(ptx1.getMissingSigners().length).toBe(2);
+    expect(ptx1.sign(keymgr1)).toBe(1);
+    expect(ptx1.sign(keymgr1)).toBe(0);
+    expect(ptx1.getMissingSigners()).toStrictEqual([addrs2[0]]);
+    expect(() => {
+      ptx1.finalize();
+    }).toThrow('Error - PartiallySignedTx.finalize: missing signatures');
+
+    const ptx2:PartiallySignedTx = new PartiallySignedTx();
+    ptx2.fromString(new PartiallySignedTx(txu).toString());
+    expect(ptx2.sign(keymgr2)).toBe(1);
+    const ptx3:PartiallySignedTx = new PartiallySignedTx();
+    ptx3.fromBuffer(ptx2.toBuffer());
+    expect(ptx3.toString()).toBe(ptx2.toString());
+    // a cosigner's signature must come from the key its SigIdx names
+    const signed:number = ptx3.getSignatures()[0].findIndex((sig) => typeof sig !== 'undefined');
+    const goodsig:Buffer = ptx3.getSignatures()[0][signed].toBuffer();
+    const msg:Buffer = Buffer.from(createHash('sha256').update(txu.toBuffer()).digest());
+    const forgeries:Array<Buffer> = [keymgr3.getKey(addrs3[0]).sign(msg), Buffer.alloc(65)];
+    forgeries.forEach((forgery) => {
+      const raw:Buffer = ptx3.toBuffer();
+      const at:number = raw.indexOf(goodsig);
+      forgery.copy(raw, at);
+      const forged:PartiallySignedTx = new PartiallySignedTx();
+      forged.fromBuffer(raw);
+      expect(() => {
+        ptx1.merge(forged);
+      }).toThrow(`Error - PartiallySignedTx.merge: signature ${signed} of credential 0 is not from ${addrs2[0].toString('hex')}`);
+      expect(ptx1.getMissingSigners()).toStrictEqual([addrs2[0]]);
+    });
+
+    ptx1.merge(ptx3);
+    expect(ptx1.isComplete()).toBe(true);
+
+    const bothkc:AVMKeyChain = new AVMKeyChain(alias);
+    bothkc.importKey(keymgr1.getKey(addrs1[0]).getPrivateKey());
+    bothkc.importKey(keymgr2.getKey(addrs2[0]).getPrivateKey());
+    expect(ptx1.finalize().toString()).toBe(bothkc.signTx(txu).toString());
+
+    const other:UnsignedTx = set.buildBaseTx(netid, blockchainID, new BN(700), addrs3, owners, owners, msigAssetID);
+    expect(() => {
+      ptx1.merge(new PartiallySignedTx(other));
+    }).toThrow('Error - PartiallySignedTx.merge: transactions do not match');
+
+    // an unsigned transaction parsed from bytes does not know its signers without the spent UTXOs
+    const parsed:UnsignedTx = new UnsignedTx();
+    parsed.fromBuffer(txu.toBuffer());
+    expect(() => {
+      new PartiallySignedTx(parsed);
+    }).toThrow('Error - PartiallySignedTx: signature 0 of credential 0 has no source address');
+    const resolved:PartiallySignedTx = new PartiallySignedTx(parsed, set);
+    expect(resolved.toString()).toBe(new PartiallySignedTx(txu).toString());
+    expect(resolved.sign(keymgr1)).toBe(1);
+    expect(resolved.getMissingSigners()).toStrictEqual([addrs2[0]]);
+
+    // the credential IDs must be those of the transaction
+    const raw:Buffer = new PartiallySignedTx(txu).toBuffer();
+    raw.writeUInt32BE(99, txu.toBuffer().length + 4);
+    expect(() => {
+      new PartiallySignedTx().fromBuffer(raw);
+    }).toThrow('Error - PartiallySignedTx.fromBuffer: credential ID 99 does not match the transaction');
+  });
+
+  test('Tx verify', () => {
+    const txu:UnsignedTx = set.buildBaseTx(netid, blockchainID, new BN(9000), addrs3, addrs1, addrs1, assetID);
+    const tx:Tx = keymgr1.signTx(txu);
+    expect(tx.verify()).toBe(true);
+    expect(set.verifyTx(tx)).toBe(true);
+    expect(tx.getSigners()[0].map((a) => a.toString('hex')).sort()).toStrictEqual(addresses.map((a) => a.toString('hex')).sort());
+
+    const parsed:Tx = new Tx();
+    parsed.fromString(tx.toString());
+    expect(parsed.verify()).toBe(true);
+    expect(set.verifyTx(parsed)).toBe(true);
+    expect(set.verifyTx(parsed, locktime)).toBe(false);
+    expect(new UTXOSet().verifyTx(parsed)).toBe(false);
+
+    // signatures over a different transaction recover to the wrong addresses
+    const othertxu:UnsignedTx = set.buildBaseTx(netid, blockchainID, new BN(8000), addrs3, addrs1, addrs1, assetID);
+    const forged:Tx = new Tx(txu, keymgr1.signTx(othertxu).getCredentials());
+    expect(forged.verify()).toBe(false);
+    const forgedParsed:Tx = new Tx();
+    forgedParsed.fromBuffer(forged.toBuffer());
+    expect(forgedParsed.verify()).toBe(true);
+    expect(set.verifyTx(forgedParsed)).toBe(false);
+
+    expect(new Tx(txu, []).verify()).toBe(false);
+
+    const optxu:UnsignedTx = set.buildNFTTransferTx(
+      netid, blockchainID, assetID, new BN(90),
+      addrs1, addresses, addresses, nftutxoids,
+    );
+    const optx:Tx = new Tx();
+    optx.fromBuffer(keymgr1.signTx(optxu).toBuffer());
+    expect(optx.verify()).toBe(true);
+    expect(set.verifyTx(optx)).toBe(true);
+  });
+
+  test('Tx verify rejects a signer counted twice', () => {
+    // a 2-of-2 output owned by A and B, spent with two signatures from A
+    const [addrA, addrB] = [addrs1[0], addrs1[1]].sort(Buffer.compare);
+    const msigtxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(6000), 32)).digest());
+    const msigout:SecpOutput = new SecpOutput(new BN(500), new BN(0), 2, [addrA, addrB]);
+    const msigutxo:UTXO = new UTXO(msigtxid, 0, assetID, msigout);
+    set.add(msigutxo);
+    const idxA:number = msigout.getAddressIdx(addrA);
+
+    const sign = (idxs:Array<number>, signers:Array<Buffer>):Tx => {
+      const secpin:SecpInput = new SecpInput(new BN(500));
+      idxs.forEach((idx, i) => secpin.addSignatureIdx(idx, signers[i]));
+      const xferin:TransferableInput = new TransferableInput(msigtxid, msigutxo.getOutputIdx(), assetID, secpin);
+      const out:TransferableOutput = new TransferableOutput(assetID, new SecpOutput(new BN(500), new BN(0), 1, addrs3));
+      const txu:UnsignedTx = new UnsignedTx(new BaseTx(netid, blockchainID, [out], [xferin]));
+      const parsed:Tx = new Tx();
+      parsed.fromBuffer(keymgr1.signTx(txu).toBuffer());
+      return parsed;
+    };
+    const honest:Tx = sign([0, 1], [addrA, addrB]);
+    expect(honest.verify()).toBe(true);
+    expect(set.verifyTx(honest)).toBe(true);
+    const doubled:Tx = sign([idxA, idxA], [addrA, addrA]);
+    expect(doubled.verify()).toBe(false);
+    expect(set.verifyTx(doubled)).toBe(false);
+    const reversed:Tx = sign([1, 0], [addrB, addrA]);
+    expect(reversed.verify()).toBe(false);
+    expect(set.verifyTx(reversed)).toBe(false);
+  });
+
+  test('UnsignedTx sign with a Signer', async () => {
+    const txu:UnsignedTx = set.buildBaseTx(netid, blockchainID, new BN(9000), addrs3, addrs1, addrs1, assetID);
+    const signer:MockSigner = new MockSigner(keymgr1);
+    const tx:Tx = await txu.sign(signer);
+    expect(signer.requests).toBe(txu.getTransaction().getSigCounts().reduce((a, b) => a + b, 0));
+    expect(signer.maxPending).toBe(1);
+    expect(set.verifyTx(tx)).toBe(true);
+
+    // an AVMKeyChain is a Signer too, and signs deterministically
+    const kcsigner:Signer = keymgr1;
+    expect((await txu.sign(kcsigner)).toString()).toBe(tx.toString());
+
+    await expect(txu.sign(new MockSigner(keymgr1, true))).rejects.toThrow('Error - UnsignedTx.sign: signer returned a signature of 64 bytes');
+    await expect(txu.sign(new MockSigner(keymgr2))).rejects.toThrow();
+    await expect(keymgr2.signDigest(Buffer.alloc(32), addrs1[0])).rejects.toThrow('Error - AVMKeyChain.signDigest: no key for address');
+  });
+
+  test('PartiallySignedTx sign with a Signer', async () => {
+    const msigAssetID:Buffer = Buffer.from(createHash('sha256').update('Two keys, one vault.').digest());
+    const msigtxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(5000), 32)).digest());
+    const owners:Array<Buffer> = [addrs1[0], addrs2[0]];
+    set.add(new UTXO(msigtxid, 0, msigAssetID, new SecpOutput(new BN(1000), new BN(0), 2, owners)));
+    const txu:UnsignedTx = set.buildBaseTx(netid, blockchainID, new BN(600), addrs3, owners, owners, msigAssetID);
+
+    const ptx:PartiallySignedTx = new PartiallySignedTx(txu);
+    const signer:MockSigner = new MockSigner(keymgr2);
+    expect(await ptx.sign(signer)).toBe(1);
+    expect(await ptx.sign(signer)).toBe(0);
+    expect(signer.requests).toBe(1);
+    expect(ptx.getMissingSigners()).toStrictEqual([addrs1[0]]);
+    expect(ptx.sign(keymgr1)).toBe(1);
+
+    const bothkc:AVMKeyChain = new AVMKeyChain(alias);
+    bothkc.importKey(keymgr1.getKey(addrs1[0]).getPrivateKey());
+    bothkc.importKey(keymgr2.getKey(addrs2[0]).getPrivateKey());
+    expect(ptx.finalize().toString()).toBe(txu.sign(bothkc).toString());
+  });
+
+  test('Tx toJSON and decodeTx', () => {
+    const txu:UnsignedTx = set.buildBaseTx(
+      netid, blockchainID,
+      new BN(9000),
+      addrs3, addrs1, addrs1, assetID,
+      UnixNow(), UnixNow().add(new BN(50)), 1, undefined, Buffer.from('hello world'),
+    );
+    const tx:Tx = keymgr1.signTx(txu);
+    const json:any = decodeTx(tx.toString());
+    expect(json).toStrictEqual(tx.toJSON());
+    expect(json.unsignedTx.txType).toBe(AVMConstants.BASETX);
+    expect(json.unsignedTx.networkID).toBe(netid);
+    expect(json.unsignedTx.blockchainID).toBe(bintools.avaSerialize(blockchainID));
+    expect(bintools.avaDeserialize(json.unsignedTx.memo).toString()).toBe('hello world');
+    expect(json.credentials.length).toBe(txu.getTransaction().getIns().length);
+
+    const payment:any = json.unsignedTx.outputs.find((out:any) => out.output.amount === '9000');
+    expect(payment.assetID).toBe(bintools.avaSerialize(assetID));
+    expect(payment.output.addresses.sort()).toStrictEqual(addrs3.map((a) => bintools.addressToString('X', a)).sort());
+    expect(decodeTx(tx.toString(), 'Y').unsignedTx.outputs[0].output.addresses[0]).toMatch(/^Y-/);
+    const codec:Bech32AddressCodec = new Bech32AddressCodec('avax');
+    const bechjson:any = decodeTx(tx.toString(), 'X', codec);
+    expect(bechjson.unsignedTx.outputs[0].output.addresses[0]).toMatch(/^X-avax1/);
+    expect(new Tx().fromJSON(bechjson, codec).toString()).toBe(tx.toString());
+
+    const tx2:Tx = new Tx().fromJSON(JSON.parse(JSON.stringify(tx)));
+    expect(tx2.toString()).toBe(tx.toString());
+    expect(JSON.parse(JSON.stringify({ tx })).tx).toStrictEqual(JSON.parse(JSON.stringify(json)));
+    expect(JSON.parse(JSON.stringify([txu]))[0].outputs[0].output.addresses[0]).toMatch(/^X-/);
+  });
+
+  test('CreateAssetTx and OperationTx JSON', () => {
+    const initialState:InitialStates = new InitialStates();
+    initialState.addOutput(new SecpOutput(new BN(777), locktime, 1, addrs3), AVMConstants.SECPFXID);
+    initialState.addOutput(new NFTMintOutput(1, locktime, 1, addrs2), AVMConstants.NFTFXID);
+    const catx:UnsignedTx = new UnsignedTx(new CreateAssetTx(netid, blockchainID, outputs, inputs, 'Rickcoin', 'RICK', 9, initialState));
+    const catxjson:any = catx.toJSON();
+    expect(catxjson.name).toBe('Rickcoin');
+    expect(catxjson.denomination).toBe(9);
+    expect(Object.keys(catxjson.initialStates).length).toBe(2);
+    const catx2:UnsignedTx = new UnsignedTx().fromJSON(catxjson);
+    expect(catx2.getTransaction()).toBeInstanceOf(CreateAssetTx);
+    expect(catx2.toBuffer().toString('hex')).toBe(catx.toBuffer().toString('hex'));
+
+    const optx:UnsignedTx = new UnsignedTx(new OperationTx(netid, blockchainID, outputs, inputs, ops));
+    const optxjson:any = optx.toJSON();
+    expect(optxjson.operations.length).toBe(5);
+    const optx2:UnsignedTx = new UnsignedTx().fromJSON(JSON.parse(JSON.stringify(optxjson)));
+    expect(optx2.toBuffer().toString('hex')).toBe(optx.toBuffer().toString('hex'));
+    const codec:Bech32AddressCodec = new Bech32AddressCodec('avax');
+    expect(new UnsignedTx().fromJSON(optx.serialize('X', codec), codec).toBuffer().toString('hex')).toBe(optx.toBuffer().toString('hex'));
+    expect(new UnsignedTx().fromJSON(catx.serialize('X', codec), codec).toBuffer().toString('hex')).toBe(catx.toBuffer().toString('hex'));
+  });
+
   test('Creation Tx3 using OperationTx', () => {
     const txu:UnsignedTx = set.buildNFTTransferTx(
       netid, blockchainID, assetID, new BN(90),
@@ -246,4 +798,142 @@ describe('Transactions', () => {
     expect(tx2.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
     expect(tx2.toString()).toBe(tx.toString());
   });
+
+  test('Creation Tx4 using SecpMintOperation', () => {
+    const txu:UnsignedTx = set.buildSecpMintTx(
+      netid, blockchainID, assetID, new BN(90),
+      addrs1, mintAssetID, new BN(5000), addrs3, addrs1,
+      UnixNow(), UnixNow().add(new BN(50)), 1,
+    );
+    const optx:OperationTx = txu.getTransaction() as OperationTx;
+    expect(optx.getOperations().length).toBe(1);
+    const op:SecpMintOperation = optx.getOperations()[0].getOperation() as SecpMintOperation;
+    expect(op).toBeInstanceOf(SecpMintOperation);
+    expect(op.getTransferOutput().getAmount().toNumber()).toBe(5000);
+    expect(op.getMintOutput().getAddresses().sort()).toStrictEqual(addresses.sort());
+    expect(op.getSigIdxs().length).toBe(1);
+    expect(optx.getOuts().filter((o) => o.getOutput().getAddresses().length === 0)).toStrictEqual([]);
+    const insum:number = optx.getIns().reduce((a, i) => a + (i.getInput() as SecpInput).getAmount().toNumber(), 0);
+    const outsum:number = optx.getOuts().reduce((a, o) => a + (o.getOutput() as SecpOutput).getAmount().toNumber(), 0);
+    expect(insum - outsum).toBe(90);
+
+    const tx:Tx = txu.sign(keymgr1);
+    const tx2:Tx = new Tx();
+    tx2.fromBuffer(tx.toBuffer());
+    expect(tx2.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
+    expect(tx2.toString()).toBe(tx.toString());
+  });
+
+  test('buildSecpMintTx without mint output', () => {
+    expect(() => {
+      set.buildSecpMintTx(
+        netid, blockchainID, assetID, new BN(90),
+        addrs1, mintAssetID, new BN(5000), addrs3, addrs3,
+      );
+    }).toThrow('Error - UTXOSet.buildSecpMintTx: no spendable mint output');
+  });
+
+  test('buildSecpMintTx pays the fee with UTXOs spendable as of asOf', () => {
+    // the fee UTXO unlocked after asOf, so it cannot pay for a transaction verified as of then
+    const asOf:BN = UnixNow().sub(new BN(200));
+    const feetxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(3000), 32)).digest());
+    const mintset:UTXOSet = new UTXOSet();
+    mintset.addArray([
+      utxos.filter((u) => u.getOutput() instanceof SecpMintOutput)[0],
+      new UTXO(feetxid, 0, assetID, new SecpOutput(new BN(1000), asOf.add(new BN(100)), 1, addrs1)),
+    ]);
+    expect(() => {
+      mintset.buildSecpMintTx(
+        netid, blockchainID, assetID, new BN(90),
+        addrs1, mintAssetID, new BN(5000), addrs3, addrs1, asOf,
+      );
+    }).toThrow('Error - UTXOSet.buildBaseTx: insufficient funds');
+    const txu:UnsignedTx = mintset.buildSecpMintTx(
+      netid, blockchainID, assetID, new BN(90),
+      addrs1, mintAssetID, new BN(5000), addrs3, addrs1,
+    );
+    expect(txu.getTransaction().getIns().length).toBe(1);
+  });
+
+  test('Creation Tx5 using NFTMintOperation', () => {
+    const payload:Buffer = Buffer.from('Pickle Rick #1');
+    const owners:Array<OutputOwners> = [new OutputOwners(new BN(0), 1, addrs3)];
+    const txu:UnsignedTx = set.buildNFTMintTx(
+      netid, blockchainID, assetID, new BN(90),
+      addrs1, NFTassetID, 7, payload, owners, addrs1,
+    );
+    const optx:OperationTx = txu.getTransaction() as OperationTx;
+    const op:NFTMintOperation = optx.getOperations()[0].getOperation() as NFTMintOperation;
+    expect(op).toBeInstanceOf(NFTMintOperation);
+    expect(op.getGroupID()).toBe(7);
+    expect(op.getPayload().toString()).toBe('Pickle Rick #1');
+    expect(optx.getOuts().filter((o) => o.getOutput().getAddresses().length === 0)).toStrictEqual([]);
+    const insum:number = optx.getIns().reduce((a, i) => a + (i.getInput() as SecpInput).getAmount().toNumber(), 0);
+    const outsum:number = optx.getOuts().reduce((a, o) => a + (o.getOutput() as SecpOutput).getAmount().toNumber(), 0);
+    expect(insum - outsum).toBe(90);
+
+    const tx:Tx = txu.sign(keymgr1);
+    const tx2:Tx = new Tx();
+    tx2.fromBuffer(tx.toBuffer());
+    expect(tx2.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
+
+    expect(() => {
+      set.buildNFTMintTx(
+        netid, blockchainID, assetID, new BN(90),
+        addrs1, NFTassetID, 8, payload, owners, addrs1,
+      );
+    }).toThrow('Error - UTXOSet.buildNFTMintTx: no spendable mint output');
+  });
+
+  test('buildNFTMintTx pays the fee with UTXOs spendable as of asOf', () => {
+    const asOf:BN = UnixNow().sub(new BN(200));
+    const feetxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(3000), 32)).digest());
+    const owners:Array<OutputOwners> = [new OutputOwners(new BN(0), 1, addrs3)];
+    const mintset:UTXOSet = new UTXOSet();
+    mintset.addArray([
+      utxos.filter((u) => u.getOutput() instanceof NFTMintOutput)[0],
+      new UTXO(feetxid, 0, assetID, new SecpOutput(new BN(1000), asOf.add(new BN(100)), 1, addrs1)),
+    ]);
+    expect(() => {
+      mintset.buildNFTMintTx(
+        netid, blockchainID, assetID, new BN(90),
+        addrs1, NFTassetID, 7, Buffer.from('Pickle Rick #1'), owners, addrs1, asOf,
+      );
+    }).toThrow('Error - UTXOSet.buildBaseTx: insufficient funds');
+    const txu:UnsignedTx = mintset.buildNFTMintTx(
+      netid, blockchainID, assetID, new BN(90),
+      addrs1, NFTassetID, 7, Buffer.from('Pickle Rick #1'), owners, addrs1,
+    );
+    expect(txu.getTransaction().getIns().length).toBe(1);
+  });
+
+  test('buildCreateAssetTx and buildNFTTransferTx pay the fee with UTXOs spendable as of asOf', () => {
+    const asOf:BN = UnixNow().sub(new BN(200));
+    const feetxid:Buffer = Buffer.from(createHash('sha256').update(bintools.fromBNToBuffer(new BN(3000), 32)).digest());
+    const feeset:UTXOSet = new UTXOSet();
+    feeset.addArray([
+      utxos.filter((u) => u.getUTXOID() === nftutxoids[0])[0],
+      new UTXO(feetxid, 0, assetID, new SecpOutput(new BN(1000), asOf.add(new BN(100)), 1, addrs1)),
+    ]);
+    const initialState:InitialStates = new InitialStates();
+    initialState.addOutput(new SecpOutput(new BN(777), new BN(0), 1, addrs3), AVMConstants.SECPFXID);
+
+    expect(() => {
+      feeset.buildCreateAssetTx(
+        netid, blockchainID, assetID, new BN(90), addrs1, initialState, 'Rickcoin', 'RICK', 9, undefined, undefined, asOf,
+      );
+    }).toThrow('Error - UTXOSet.buildBaseTx: insufficient funds');
+    expect(feeset.buildCreateAssetTx(
+      netid, blockchainID, assetID, new BN(90), addrs1, initialState, 'Rickcoin', 'RICK', 9,
+    ).getTransaction().getIns().length).toBe(1);
+
+    expect(() => {
+      feeset.buildNFTTransferTx(
+        netid, blockchainID, assetID, new BN(90), addrs1, addrs3, addresses, [nftutxoids[0]], asOf,
+      );
+    }).toThrow('Error - UTXOSet.buildBaseTx: insufficient funds');
+    expect(feeset.buildNFTTransferTx(
+      netid, blockchainID, assetID, new BN(90), addrs1, addrs3, addresses, [nftutxoids[0]],
+    ).getTransaction().getIns().length).toBe(1);
+  });
 });
@@ -71,6 +71,14 @@ describe('UTXO', () => {
       const serialized:string = u1.toString();
       expect(serialized).toBe(bintools.avaSerialize(utxobuff));
     });
+    test('toJSON and fromJSON', () => {
+      const json:any = u1.toJSON();
+      expect(json.txID).toBe(bintools.avaSerialize(Buffer.from(outtxid, 'hex')));
+      expect(json.outputIndex).toBe(1);
+      expect(json.output.amount).toBe(new BN(opamt, 16).toString(10));
+      expect(json.output.addresses).toStrictEqual([`X-${opaddr}`]);
+      expect(new UTXO().fromJSON(json).toBuffer().toString('hex')).toBe(utxohex);
+    });
   });
 });
 
@@ -125,6 +133,19 @@ describe('UTXOSet', () => {
     }
   });
 
+  test('toJSON and fromJSON', () => {
+    const set:UTXOSet = new UTXOSet();
+    set.addArray(utxostrs.slice(1));
+    const json:Array<any> = JSON.parse(JSON.stringify(set));
+    expect(json.length).toBe(2);
+    const setcopy:UTXOSet = new UTXOSet();
+    setcopy.add(utxostrs[0]);
+    setcopy.fromJSON(json);
+    expect(setcopy.getAllUTXOStrings().sort()).toStrictEqual(utxostrs.slice(1).sort());
+    expect(setcopy.getUTXOIDs([addrs[0]])).toStrictEqual([]);
+    expect(setcopy.getUTXOIDs(addrs).sort()).toStrictEqual(set.getUTXOIDs(addrs).sort());
+  });
+
   test('addArray', () => {
     const set:UTXOSet = new UTXOSet();
     set.addArray(utxostrs);
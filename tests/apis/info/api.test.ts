@@ -124,6 +124,27 @@ describe('Info', () => {
     const response:Array<string> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(peers);
+    expect(response).toStrictEqual(peers);
+  });
+
+  test('getNetworkID as a string', async () => {
+    const result:Promise<number> = info.getNetworkID();
+    mockAxios.mockResponse({ data: { result: { networkID: '12345' } } });
+    const response:number = await result;
+
+    expect(response).toBe(12345);
+  });
+
+  test('malformed responses', async () => {
+    const networkID:Promise<number> = info.getNetworkID();
+    const nodeID:Promise<string> = info.getNodeID();
+    const peers:Promise<Array<string>> = info.peers();
+    mockAxios.mockResponse({ data: { result: { networkID: 'denali' } } });
+    mockAxios.mockResponse({ data: { result: { nodeID: 1234 } } });
+    mockAxios.mockResponse({ data: { result: { peers: ['p1', null] } } });
+
+    await expect(networkID).rejects.toThrow('Error - InfoAPI.getNetworkID: invalid response, result.networkID must be a non-negative integer');
+    await expect(nodeID).rejects.toThrow('Error - InfoAPI.getNodeID: invalid response, result.nodeID must be a string');
+    await expect(peers).rejects.toThrow('Error - InfoAPI.peers: invalid response, result.peers[1] must be a string');
   });
 });
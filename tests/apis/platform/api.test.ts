@@ -5,6 +5,17 @@ import PlatformAPI from 'src/apis/platform/api';
 import { Buffer } from 'buffer/';
 import BN from 'bn.js';
 import BinTools from 'src/utils/bintools';
+import createHash from 'create-hash';
+import { AVMKeyPair } from 'src/apis/avm/keychain';
+import { Base58AddressCodec, Bech32AddressCodec } from 'src/utils/addresscodec';
+import {
+  PlatformConstants, DurationValidator, Validator, Subnet, Blockchain, Account,
+} from 'src/apis/platform/types';
+import { ValidatorSet } from 'src/apis/platform/validatorset';
+import {
+  AddDefaultSubnetValidatorTx, PlatformImportTx, PlatformUnsignedTx, PlatformTx,
+} from 'src/apis/platform/tx';
+import { SecpInput, TransferableInput } from 'src/apis/avm/inputs';
 
 /**
  * @ignore
@@ -26,6 +37,20 @@ describe('Platform', () => {
     platform = new PlatformAPI(avalanche);
   });
 
+  const rawValidators:Array<any> = [
+    {
+      id: 'MFrZFVCXPv5iCn6M9K6XduxGTYp891xXZ', startTime: '1591878109', endTime: '1594469809', stakeAmount: '20000000000000', address: 'Q4MzFZZDPHRPAHFeDs3NiyyaZDvxHKivf',
+    },
+    {
+      id: 'NFBbbJ4qCmNaCzeW7sxErhvWqvEQMnYcN', startTime: 1591878109, endTime: 1594469809, weight: '2',
+    },
+  ];
+  const parsedValidators:Array<Array<any>> = [
+    ['MFrZFVCXPv5iCn6M9K6XduxGTYp891xXZ', new Date(1591878109000), new Date(1594469809000), '20000000000000', 'Q4MzFZZDPHRPAHFeDs3NiyyaZDvxHKivf'],
+    ['NFBbbJ4qCmNaCzeW7sxErhvWqvEQMnYcN', new Date(1591878109000), new Date(1594469809000), '2', undefined],
+  ];
+  const validatorFields = (v:Validator):Array<any> => [v.getNodeID(), v.getStartTime(), v.getEndTime(), v.getStakeAmount().toString(10), v.getAddress()];
+
   afterEach(() => {
     mockAxios.reset();
   });
@@ -185,11 +210,11 @@ describe('Platform', () => {
 
   test('getAccount', async () => {
     const address = 'deadbeef';
-    const result:Promise<object> = platform.getAccount(address);
+    const result:Promise<Account> = platform.getAccount(address);
     const resultobj = {
       address,
-      nonce: '0',
-      balance: '0',
+      nonce: '3',
+      balance: '20000000000000000000',
     };
     const payload:object = {
       result: resultobj,
@@ -199,10 +224,12 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:object = await result;
+    const response:Account = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(resultobj);
+    expect(response.getAddress()).toBe(address);
+    expect(response.getNonce()).toBe(3);
+    expect(response.getBalance().toString(10)).toBe('20000000000000000000');
   });
 
   test('exportPrivateKey', async () => {
@@ -254,7 +281,7 @@ describe('Platform', () => {
   test('listAccounts', async () => {
     const username = 'Robert';
     const password = 'Paulson';
-    const result:Promise<object> = platform.listAccounts(username, password);
+    const result:Promise<Array<Account>> = platform.listAccounts(username, password);
     const accountsArray = [
       {
         address: 'Q4MzFZZDPHRPAHFeDs3NiyyaZDvxHKivf',
@@ -277,17 +304,16 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:object = await result;
+    const response:Array<Account> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(accountsArray);
+    expect(response.map((a) => [a.getAddress(), a.getNonce(), a.getBalance().toNumber()])).toStrictEqual(accountsArray.map((a) => [a.address, 0, 0]));
   });
   test('getCurrentValidators 1', async () => {
-    const validators = ['val1', 'val2'];
-    const result:Promise<Array<object>> = platform.getCurrentValidators();
+    const result:Promise<Array<Validator>> = platform.getCurrentValidators();
     const payload:object = {
       result: {
-        validators,
+        validators: rawValidators,
       },
     };
     const responseObj = {
@@ -295,19 +321,18 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:Array<object> = await result;
+    const response:Array<Validator> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(validators);
+    expect(response.map(validatorFields)).toStrictEqual(parsedValidators);
   });
 
   test('getCurrentValidators 2', async () => {
     const subnetID:string = 'abcdef';
-    const validators = ['val1', 'val2'];
-    const result:Promise<Array<object>> = platform.getCurrentValidators(subnetID);
+    const result:Promise<Array<Validator>> = platform.getCurrentValidators(subnetID);
     const payload:object = {
       result: {
-        validators,
+        validators: rawValidators,
       },
     };
     const responseObj = {
@@ -315,19 +340,18 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:Array<object> = await result;
+    const response:Array<Validator> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(validators);
+    expect(response.map(validatorFields)).toStrictEqual(parsedValidators);
   });
 
   test('getCurrentValidators 3', async () => {
     const subnetID:Buffer = Buffer.from('abcdef', 'hex');
-    const validators = ['val1', 'val2'];
-    const result:Promise<Array<object>> = platform.getCurrentValidators(subnetID);
+    const result:Promise<Array<Validator>> = platform.getCurrentValidators(subnetID);
     const payload:object = {
       result: {
-        validators,
+        validators: rawValidators,
       },
     };
     const responseObj = {
@@ -335,18 +359,17 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:Array<object> = await result;
+    const response:Array<Validator> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(validators);
+    expect(response.map(validatorFields)).toStrictEqual(parsedValidators);
   });
 
   test('getPendingValidators 1', async () => {
-    const validators = ['val1', 'val2'];
-    const result:Promise<Array<object>> = platform.getPendingValidators();
+    const result:Promise<Array<Validator>> = platform.getPendingValidators();
     const payload:object = {
       result: {
-        validators,
+        validators: rawValidators,
       },
     };
     const responseObj = {
@@ -354,19 +377,18 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:Array<object> = await result;
+    const response:Array<Validator> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(validators);
+    expect(response.map(validatorFields)).toStrictEqual(parsedValidators);
   });
 
   test('getPendingValidators 2', async () => {
     const subnetID:string = 'abcdef';
-    const validators = ['val1', 'val2'];
-    const result:Promise<Array<object>> = platform.getPendingValidators(subnetID);
+    const result:Promise<Array<Validator>> = platform.getPendingValidators(subnetID);
     const payload:object = {
       result: {
-        validators,
+        validators: rawValidators,
       },
     };
     const responseObj = {
@@ -374,19 +396,18 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:Array<object> = await result;
+    const response:Array<Validator> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(validators);
+    expect(response.map(validatorFields)).toStrictEqual(parsedValidators);
   });
 
   test('getPendingValidators 3', async () => {
     const subnetID:Buffer = Buffer.from('abcdef', 'hex');
-    const validators = ['val1', 'val2'];
-    const result:Promise<Array<object>> = platform.getPendingValidators(subnetID);
+    const result:Promise<Array<Validator>> = platform.getPendingValidators(subnetID);
     const payload:object = {
       result: {
-        validators,
+        validators: rawValidators,
       },
     };
     const responseObj = {
@@ -394,10 +415,31 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:Array<object> = await result;
+    const response:Array<Validator> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(validators);
+    expect(response.map(validatorFields)).toStrictEqual(parsedValidators);
+  });
+
+  test('getValidatorSet', async () => {
+    const subnetID:Buffer = Buffer.from('abcdef', 'hex');
+    const result:Promise<ValidatorSet> = platform.getValidatorSet(subnetID);
+    mockAxios.mockResponse({ data: { result: { validators: [rawValidators[0]] } } });
+    mockAxios.mockResponse({ data: { result: { validators: [rawValidators[1]] } } });
+    const response:ValidatorSet = await result;
+
+    expect(mockAxios.request).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(mockAxios.request.mock.calls[0][0].data).method).toBe('platform.getCurrentValidators');
+    expect(JSON.parse(mockAxios.request.mock.calls[1][0].data).method).toBe('platform.getPendingValidators');
+    expect(JSON.parse(mockAxios.request.mock.calls[1][0].data).params.subnetID).toBe(bintools.avaSerialize(subnetID));
+    expect(response.getSubnetID()).toBe(bintools.avaSerialize(subnetID));
+    expect(response.getCurrentValidators().map(validatorFields)).toStrictEqual([parsedValidators[0]]);
+    expect(response.getPendingValidators().map(validatorFields)).toStrictEqual([parsedValidators[1]]);
+
+    const defaultSet:Promise<ValidatorSet> = platform.getValidatorSet();
+    mockAxios.mockResponse({ data: { result: { validators: [] } } });
+    mockAxios.mockResponse({ data: { result: { validators: [] } } });
+    expect((await defaultSet).getSubnetID()).toBe(PlatformConstants.DEFAULTSUBNETID);
   });
 
   test('sampleValidators 1', async () => {
@@ -690,11 +732,12 @@ describe('Platform', () => {
 
   test('getBlockchains 1', async () => {
     const resp = [{
-      id: 'nodeID',
+      id: 'blockchainID',
+      name: 'X-Chain',
       subnetID: 'subnetID',
       vmID: 'vmID',
     }];
-    const result:Promise<Array<object>> = platform.getBlockchains();
+    const result:Promise<Array<Blockchain>> = platform.getBlockchains();
     const payload:object = {
       result: {
         blockchains: resp,
@@ -705,10 +748,10 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:Array<object> = await result;
+    const response:Array<Blockchain> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toBe(resp);
+    expect(response.map((b) => [b.getID(), b.getName(), b.getSubnetID(), b.getVMID()])).toStrictEqual([['blockchainID', 'X-Chain', 'subnetID', 'vmID']]);
   });
 
   test('exportAVA 1', async () => {
@@ -799,13 +842,71 @@ describe('Platform', () => {
     expect(response).toBe(txID);
   });
 
+  test('signTx and issueTx with a PlatformTx', async () => {
+    const payer:Buffer = platform.keyChain().makeKey();
+    const validator:DurationValidator = new DurationValidator(Buffer.alloc(20, 1), new BN(10000), new BN(1600000000), new BN(1610000000));
+    const utx:PlatformUnsignedTx = new PlatformUnsignedTx(new AddDefaultSubnetValidatorTx(12345, new BN(1), validator, payer, 300000));
+    const msg:Buffer = Buffer.from(createHash('sha256').update(utx.toBuffer()).digest());
+    const keypair:AVMKeyPair = platform.keyChain().getKey(payer);
+
+    const fromString:PlatformTx = platform.signTx(utx.toString(), bintools.avaSerialize(payer));
+    expect(keypair.addressFromPublicKey(keypair.recover(msg, fromString.getPayerSig().toBuffer())).toString('hex')).toBe(payer.toString('hex'));
+    const fromPrefixed:PlatformTx = platform.signTx(utx, keypair.getAddressString());
+    expect(fromPrefixed.toString()).toBe(fromString.toString());
+    expect(() => {
+      platform.signTx(utx, 'notanaddress');
+    }).toThrow('Error - PlatformAPI.signTx: Invalid address format notanaddress');
+    expect(() => {
+      platform.signTx(utx, bintools.avaSerialize(Buffer.alloc(32)));
+    }).toThrow('Error - PlatformAPI.signTx: Invalid address format');
+
+    const codec:Bech32AddressCodec = Bech32AddressCodec.forNetwork(12345);
+    platform.setAddressCodec(codec);
+    expect(platform.getAddressCodec()).toBe(codec);
+    expect(platform.signTx(utx, keypair.getAddressString(codec)).toString()).toBe(fromString.toString());
+    expect(platform.signTx(utx, codec.encodeBody(payer)).toString()).toBe(fromString.toString());
+    expect(() => {
+      platform.signTx(utx, keypair.getAddressString());
+    }).toThrow('Error - PlatformAPI.signTx: Invalid address format');
+    platform.setAddressCodec(new Base58AddressCodec());
+
+    const txID:string = 'valid';
+    const issued:Array<Promise<string>> = [platform.issueTx(fromString), platform.issueTx(fromString.toBuffer())];
+    mockAxios.mockResponse({ data: { result: { txID } } });
+    mockAxios.mockResponse({ data: { result: { txID } } });
+    expect(await Promise.all(issued)).toStrictEqual([txID, txID]);
+    expect(JSON.parse(mockAxios.request.mock.calls[0][0].data).params.tx).toBe(fromString.toString());
+    expect(JSON.parse(mockAxios.request.mock.calls[1][0].data).params.tx).toBe(fromString.toString());
+  });
+
+  test('signTx with a PlatformImportTx given as a string', () => {
+    const payer:Buffer = platform.keyChain().makeKey();
+    const owner:Buffer = platform.keyChain().makeKey();
+    const secpin:SecpInput = new SecpInput(new BN(500));
+    secpin.addSignatureIdx(0, owner);
+    const utx:PlatformUnsignedTx = new PlatformUnsignedTx(new PlatformImportTx(12345, new BN(1), payer, [
+      new TransferableInput(Buffer.alloc(32, 9), Buffer.alloc(4), Buffer.alloc(32, 1), secpin),
+    ]));
+    const msg:Buffer = Buffer.from(createHash('sha256').update(utx.toBuffer()).digest());
+    const keypair:AVMKeyPair = platform.keyChain().getKey(owner);
+
+    // the string does not carry the owner of the imported UTXO
+    expect(() => {
+      platform.signTx(utx.toString(), payer);
+    }).toThrow('Error - PlatformUnsignedTx.sign: the input address is unknown for signature 0 of input 0');
+    const signed:PlatformTx = platform.signTx(utx.toString(), payer, [], [[bintools.avaSerialize(owner)]]);
+    expect(signed.toString()).toBe(platform.signTx(utx, payer).toString());
+    const sig:Buffer = signed.getCredentials()[0].getSignatures()[0].toBuffer();
+    expect(keypair.addressFromPublicKey(keypair.recover(msg, sig)).toString('hex')).toBe(owner.toString('hex'));
+  });
+
   test('getSubnets 1', async () => {
     const resp: Array<object> = [{
       id: 'id',
-      controlKeys: ['controlKeys'],
-      threshold: 'threshold',
+      controlKeys: ['controlKey1', 'controlKey2'],
+      threshold: '2',
     }];
-    const result:Promise<object> = platform.getSubnets();
+    const result:Promise<Array<Subnet>> = platform.getSubnets();
     const payload:object = {
       result: {
         subnets: resp,
@@ -816,9 +917,27 @@ describe('Platform', () => {
     };
 
     mockAxios.mockResponse(responseObj);
-    const response:object = await result;
+    const response:Array<Subnet> = await result;
 
     expect(mockAxios.request).toHaveBeenCalledTimes(1);
-    expect(response).toEqual(resp);
+    expect(response.map((n) => [n.getID(), n.getControlKeys(), n.getThreshold()])).toStrictEqual([['id', ['controlKey1', 'controlKey2'], 2]]);
+  });
+
+  test('malformed responses', async () => {
+    const calls:Array<[Promise<any>, object, string]> = [
+      [platform.getCurrentValidators(), { validators: 'val1' }, 'Error - PlatformAPI.getCurrentValidators: invalid response, result.validators must be an array'],
+      [platform.getPendingValidators(), { validators: [{ ...rawValidators[0], startTime: '-1' }] },
+        'Error - PlatformAPI.getPendingValidators: invalid response, result.validators[0].startTime must be a non-negative integer'],
+      [platform.getCurrentValidators(), { validators: [{ ...rawValidators[0], endTime: rawValidators[0].startTime }] },
+        'Error - PlatformAPI.getCurrentValidators: invalid response, result.validators[0].endTime must be after startTime'],
+      [platform.getAccount('deadbeef'), { address: 'deadbeef', nonce: 0 }, 'Error - PlatformAPI.getAccount: invalid response, result.balance must be a non-negative integer'],
+      [platform.listAccounts('Robert', 'Paulson'), { accounts: [null] }, 'Error - PlatformAPI.listAccounts: invalid response, result.accounts[0] must be an object'],
+      [platform.getSubnets(), { subnets: [{ id: 'id', controlKeys: ['controlKey1'], threshold: 2 }] },
+        'Error - PlatformAPI.getSubnets: invalid response, result.subnets[0].threshold exceeds the 1 control keys'],
+      [platform.getBlockchains(), { blockchains: [{ id: 'id', subnetID: 'subnetID', vmID: 'vmID' }] },
+        'Error - PlatformAPI.getBlockchains: invalid response, result.blockchains[0].name must be a string'],
+    ];
+    calls.forEach(([, result]) => mockAxios.mockResponse({ data: { result } }));
+    await Promise.all(calls.map(([call, , message]) => expect(call).rejects.toThrow(message)));
   });
 });
@@ -0,0 +1,228 @@
+import { Buffer } from 'buffer/';
+import BN from 'bn.js';
+import createHash from 'create-hash';
+import BinTools from 'src/utils/bintools';
+import { PlatformConstants, DurationValidator } from 'src/apis/platform/types';
+import {
+  AddDefaultSubnetValidatorTx, AddNonDefaultSubnetValidatorTx, AddDefaultSubnetDelegatorTx, CreateSubnetTx,
+  CreateChainTx, PlatformExportTx, PlatformImportTx, PlatformUnsignedTx, PlatformTx, SelectPlatformTxClass,
+} from 'src/apis/platform/tx';
+import { Signature } from 'src/apis/avm/types';
+import { TransferableOutput, SecpOutput } from 'src/apis/avm/outputs';
+import { TransferableInput, SecpInput } from 'src/apis/avm/inputs';
+import { SecpCredential } from 'src/apis/avm/credentials';
+import { AVMKeyChain, AVMKeyPair } from 'src/apis/avm/keychain';
+
+/**
+ * @ignore
+ */
+const bintools = BinTools.getInstance();
+
+describe('Platform Transactions', () => {
+  const nodeID:Buffer = Buffer.alloc(20, 1);
+  const destination:Buffer = Buffer.alloc(20, 2);
+  const subnetID:Buffer = Buffer.alloc(32, 3);
+  const assetID:Buffer = Buffer.alloc(32, 4);
+  const start:BN = new BN(1600000000);
+  const end:BN = new BN(1610000000);
+  const validator:DurationValidator = new DurationValidator(nodeID, new BN(10000), start, end);
+
+  const sig = (fill:number):Signature => {
+    const s:Signature = new Signature();
+    s.fromBuffer(Buffer.alloc(65, fill));
+    return s;
+  };
+
+  const roundTrip = (tx:PlatformUnsignedTx):PlatformUnsignedTx => {
+    const parsed:PlatformUnsignedTx = new PlatformUnsignedTx();
+    parsed.fromString(tx.toString());
+    expect(parsed.toBuffer().toString('hex')).toBe(tx.toBuffer().toString('hex'));
+    expect(parsed.getTransaction().getTxType()).toBe(tx.getTransaction().getTxType());
+    return parsed;
+  };
+
+  test('DurationValidator', () => {
+    const parsed:DurationValidator = new DurationValidator();
+    expect(parsed.fromBuffer(validator.toBuffer())).toBe(44);
+    expect(parsed.getNodeID().toString('hex')).toBe(nodeID.toString('hex'));
+    expect(parsed.getWeight().toNumber()).toBe(10000);
+    expect(parsed.getStartTime().eq(start)).toBe(true);
+    expect(parsed.getEndTime().eq(end)).toBe(true);
+    expect(() => {
+      new DurationValidator(Buffer.alloc(19), new BN(1), start, end);
+    }).toThrow('Error - DurationValidator.constructor: node ID must be 20 bytes');
+    expect(() => {
+      new DurationValidator(nodeID, new BN(1), end, start);
+    }).toThrow('Error - DurationValidator.constructor: endTime must be after startTime');
+  });
+
+  test('AddDefaultSubnetDelegatorTx layout', () => {
+    const tx:AddDefaultSubnetDelegatorTx = new AddDefaultSubnetDelegatorTx(12345, new BN(7), validator, destination);
+    const expected:string = `${nodeID.toString('hex')}0000000000002710000000005f5e1000000000005ff6a680`
+      + `000030390000000000000007${destination.toString('hex')}`;
+    expect(tx.toBuffer().toString('hex')).toBe(expected);
+    const utx:PlatformUnsignedTx = new PlatformUnsignedTx(tx);
+    expect(utx.toBuffer().toString('hex')).toBe(`0000000${PlatformConstants.ADDDEFAULTSUBNETDELEGATORTX.toString(16)}${expected}`);
+    const parsed:AddDefaultSubnetDelegatorTx = roundTrip(utx).getTransaction() as AddDefaultSubnetDelegatorTx;
+    expect(parsed.getNetworkID()).toBe(12345);
+    expect(parsed.getNonce().toNumber()).toBe(7);
+    expect(parsed.getDestination().toString('hex')).toBe(destination.toString('hex'));
+    expect(parsed.getValidator().getWeight().toNumber()).toBe(10000);
+  });
+
+  test('AddDefaultSubnetValidatorTx', () => {
+    const tx:AddDefaultSubnetValidatorTx = new AddDefaultSubnetValidatorTx(3, new BN(1), validator, destination, 300000);
+    const parsed:AddDefaultSubnetValidatorTx = roundTrip(new PlatformUnsignedTx(tx)).getTransaction() as AddDefaultSubnetValidatorTx;
+    expect(parsed.getDelegationFeeRate()).toBe(300000);
+    expect(parsed.getDestination().toString('hex')).toBe(destination.toString('hex'));
+    expect(parsed.getValidator().getNodeID().toString('hex')).toBe(nodeID.toString('hex'));
+    expect(parsed.hasControlSigs()).toBe(false);
+  });
+
+  test('AddNonDefaultSubnetValidatorTx', () => {
+    const tx:AddNonDefaultSubnetValidatorTx = new AddNonDefaultSubnetValidatorTx(3, new BN(2), validator, subnetID);
+    const parsed:AddNonDefaultSubnetValidatorTx = roundTrip(new PlatformUnsignedTx(tx)).getTransaction() as AddNonDefaultSubnetValidatorTx;
+    expect(parsed.getSubnetID().toString('hex')).toBe(subnetID.toString('hex'));
+    expect(parsed.getNonce().toNumber()).toBe(2);
+    expect(parsed.hasControlSigs()).toBe(true);
+  });
+
+  test('CreateSubnetTx', () => {
+    const keys:Array<Buffer> = [Buffer.alloc(20, 5), Buffer.alloc(20, 6)];
+    const tx:CreateSubnetTx = new CreateSubnetTx(3, new BN(3), keys, 2);
+    const parsed:CreateSubnetTx = roundTrip(new PlatformUnsignedTx(tx)).getTransaction() as CreateSubnetTx;
+    expect(parsed.getControlKeys().map((k) => k.toString('hex'))).toStrictEqual(keys.map((k) => k.toString('hex')));
+    expect(parsed.getThreshold()).toBe(2);
+    expect(() => {
+      new CreateSubnetTx(3, new BN(3), keys, 3);
+    }).toThrow('Error - CreateSubnetTx.constructor: threshold 3 exceeds the 2 control keys');
+  });
+
+  test('CreateChainTx', () => {
+    const vmID:Buffer = Buffer.alloc(32, 7);
+    const fxIDs:Array<Buffer> = [Buffer.alloc(32, 8)];
+    const genesis:Buffer = Buffer.from('{"ruh":"roh"}', 'utf8');
+    const tx:CreateChainTx = new CreateChainTx(3, new BN(4), subnetID, 'Some Blockchain', vmID, fxIDs, genesis);
+    const parsed:CreateChainTx = roundTrip(new PlatformUnsignedTx(tx)).getTransaction() as CreateChainTx;
+    expect(parsed.getChainName()).toBe('Some Blockchain');
+    expect(parsed.getSubnetID().toString('hex')).toBe(subnetID.toString('hex'));
+    expect(parsed.getVMID().toString('hex')).toBe(vmID.toString('hex'));
+    expect(parsed.getFxIDs().map((f) => f.toString('hex'))).toStrictEqual(fxIDs.map((f) => f.toString('hex')));
+    expect(parsed.getGenesisData().toString('utf8')).toBe('{"ruh":"roh"}');
+    expect(() => {
+      new CreateChainTx(3, new BN(4), subnetID, 'x'.repeat(129), vmID, fxIDs, genesis);
+    }).toThrow('Error - CreateChainTx.constructor: chainName may not exceed length of 128');
+  });
+
+  test('PlatformExportTx and PlatformImportTx', () => {
+    const out:TransferableOutput = new TransferableOutput(assetID, new SecpOutput(new BN(500), new BN(0), 1, [destination]));
+    const exportTx:PlatformExportTx = new PlatformExportTx(3, new BN(5), [out]);
+    const parsedExport:PlatformExportTx = roundTrip(new PlatformUnsignedTx(exportTx)).getTransaction() as PlatformExportTx;
+    expect(parsedExport.getOuts().length).toBe(1);
+    expect(parsedExport.getOuts()[0].toBuffer().toString('hex')).toBe(out.toBuffer().toString('hex'));
+
+    const txid:Buffer = Buffer.from(createHash('sha256').update(Buffer.from('export', 'utf8')).digest());
+    const secpin:SecpInput = new SecpInput(new BN(500));
+    secpin.addSignatureIdx(0, destination);
+    const xferin:TransferableInput = new TransferableInput(txid, Buffer.alloc(4), assetID, secpin);
+    const importTx:PlatformImportTx = new PlatformImportTx(3, new BN(6), destination, [xferin]);
+    const parsedImport:PlatformImportTx = roundTrip(new PlatformUnsignedTx(importTx)).getTransaction() as PlatformImportTx;
+    expect(parsedImport.getAccount().toString('hex')).toBe(destination.toString('hex'));
+    expect((parsedImport.getIns()[0].getInput() as SecpInput).getAmount().toNumber()).toBe(500);
+    expect(parsedImport.getCredentialIDs()).toStrictEqual(importTx.getCredentialIDs());
+    expect(parsedImport.getSigIdxs()[0].length).toBe(1);
+  });
+
+  test('PlatformTx', () => {
+    const subnettx:PlatformUnsignedTx = new PlatformUnsignedTx(new AddNonDefaultSubnetValidatorTx(3, new BN(2), validator, subnetID));
+    const signed:PlatformTx = new PlatformTx(subnettx, sig(1), [sig(2), sig(3)]);
+    const txbuff:Buffer = signed.toBuffer();
+    expect(txbuff.readUInt32BE(0)).toBe(PlatformConstants.SIGNEDADDNONDEFAULTSUBNETVALIDATORTX);
+    expect(txbuff.length).toBe(subnettx.toBuffer().length + 4 + 3 * 65);
+    const parsed:PlatformTx = new PlatformTx();
+    parsed.fromString(signed.toString());
+    expect(parsed.toBuffer().toString('hex')).toBe(txbuff.toString('hex'));
+    expect(parsed.getControlSigs().length).toBe(2);
+    expect(parsed.getPayerSig().toBuffer().toString('hex')).toBe(sig(1).toBuffer().toString('hex'));
+
+    const delegatortx:PlatformUnsignedTx = new PlatformUnsignedTx(new AddDefaultSubnetDelegatorTx(3, new BN(7), validator, destination));
+    const delegated:PlatformTx = new PlatformTx(delegatortx, sig(4));
+    expect(delegated.toBuffer().length).toBe(delegatortx.toBuffer().length + 65);
+
+    const secpin:SecpInput = new SecpInput(new BN(500));
+    secpin.addSignatureIdx(0, destination);
+    const importtx:PlatformUnsignedTx = new PlatformUnsignedTx(new PlatformImportTx(3, new BN(6), destination, [
+      new TransferableInput(Buffer.alloc(32, 9), Buffer.alloc(4), assetID, secpin),
+    ]));
+    const imported:PlatformTx = new PlatformTx(importtx, sig(5), [], [new SecpCredential([sig(6)])]);
+    const parsedImport:PlatformTx = new PlatformTx();
+    parsedImport.fromBuffer(imported.toBuffer());
+    expect(parsedImport.getCredentials().length).toBe(1);
+    expect(parsedImport.getCredentials()[0].getSignatures()[0].toBuffer().toString('hex')).toBe(sig(6).toBuffer().toString('hex'));
+    expect(parsedImport.toBuffer().toString('hex')).toBe(imported.toBuffer().toString('hex'));
+  });
+
+  test('signed and unsigned type IDs are not interchangeable', () => {
+    const utx:PlatformUnsignedTx = new PlatformUnsignedTx(new AddDefaultSubnetDelegatorTx(3, new BN(7), validator, destination));
+    const signed:PlatformTx = new PlatformTx(utx, sig(1));
+    expect(() => {
+      new PlatformUnsignedTx().fromBuffer(signed.toBuffer());
+    }).toThrow(`Error - PlatformUnsignedTx.fromBuffer: txtype ${PlatformConstants.SIGNEDADDDEFAULTSUBNETDELEGATORTX} is a signed transaction`);
+    expect(() => {
+      new PlatformTx().fromBuffer(utx.toBuffer());
+    }).toThrow(`Error - PlatformTx.fromBuffer: txtype ${PlatformConstants.ADDDEFAULTSUBNETDELEGATORTX} is an unsigned transaction`);
+    expect(() => {
+      SelectPlatformTxClass(99);
+    }).toThrow('Error - SelectPlatformTxClass: unknown txtype 99');
+    expect(bintools.b58ToBuffer(utx.getTransaction().toString()).toString('hex')).toBe(utx.getTransaction().toBuffer().toString('hex'));
+  });
+
+  test('PlatformUnsignedTx.sign', () => {
+    const kc:AVMKeyChain = new AVMKeyChain('P');
+    const payer:Buffer = kc.makeKey();
+    const control1:Buffer = kc.makeKey();
+    const control2:Buffer = kc.makeKey();
+    const recoverer:AVMKeyPair = new AVMKeyPair('P');
+    const signerOf = (msg:Buffer, s:Signature):string => recoverer.addressFromPublicKey(recoverer.recover(msg, s.toBuffer())).toString('hex');
+
+    const utx:PlatformUnsignedTx = new PlatformUnsignedTx(new AddNonDefaultSubnetValidatorTx(3, new BN(2), validator, subnetID));
+    const msg:Buffer = Buffer.from(createHash('sha256').update(utx.toBuffer()).digest());
+    const signed:PlatformTx = utx.sign(kc, payer, [control1, control2]);
+    expect(signerOf(msg, signed.getPayerSig())).toBe(payer.toString('hex'));
+    const controlsigs:Array<string> = signed.getControlSigs().map((s) => s.toBuffer().toString('hex'));
+    expect(controlsigs).toStrictEqual(controlsigs.slice().sort());
+    expect(signed.getControlSigs().map((s) => signerOf(msg, s)).sort()).toStrictEqual([control1.toString('hex'), control2.toString('hex')].sort());
+    // the order of the control signers does not matter and a signer given twice signs once
+    const reversed:PlatformTx = utx.sign(kc, payer, [control2, control1, control2]);
+    expect(reversed.getControlSigs().length).toBe(2);
+    expect(reversed.toString()).toBe(signed.toString());
+    const parsed:PlatformTx = new PlatformTx();
+    parsed.fromString(signed.toString());
+    expect(signerOf(msg, parsed.getPayerSig())).toBe(payer.toString('hex'));
+
+    const delegation:PlatformUnsignedTx = new PlatformUnsignedTx(new AddDefaultSubnetDelegatorTx(3, new BN(7), validator, destination));
+    expect(() => {
+      delegation.sign(kc, payer, [control1]);
+    }).toThrow(`Error - PlatformUnsignedTx.sign: txtype ${PlatformConstants.ADDDEFAULTSUBNETDELEGATORTX} does not take control signatures`);
+    expect(() => {
+      delegation.sign(kc, destination);
+    }).toThrow(`Error - PlatformUnsignedTx.sign: no key for payer address ${bintools.avaSerialize(destination)}`);
+
+    const secpin:SecpInput = new SecpInput(new BN(500));
+    secpin.addSignatureIdx(0, control1);
+    const importtx:PlatformUnsignedTx = new PlatformUnsignedTx(new PlatformImportTx(3, new BN(6), payer, [
+      new TransferableInput(Buffer.alloc(32, 9), Buffer.alloc(4), assetID, secpin),
+    ]));
+    const imported:PlatformTx = importtx.sign(kc, payer);
+    const importmsg:Buffer = Buffer.from(createHash('sha256').update(importtx.toBuffer()).digest());
+    expect(imported.getCredentials().length).toBe(1);
+    expect(signerOf(importmsg, imported.getCredentials()[0].getSignatures()[0])).toBe(control1.toString('hex'));
+
+    const unknownsource:PlatformUnsignedTx = new PlatformUnsignedTx();
+    unknownsource.fromBuffer(importtx.toBuffer());
+    expect(() => {
+      unknownsource.sign(kc, payer);
+    }).toThrow('Error - PlatformUnsignedTx.sign: the input address is unknown for signature 0 of input 0, pass it in inputSigners');
+    expect(unknownsource.sign(kc, payer, [], [[control1]]).toString()).toBe(imported.toString());
+  });
+});
@@ -0,0 +1,100 @@
+import BN from 'bn.js';
+import { PlatformConstants, Validator } from 'src/apis/platform/types';
+import {
+  ValidatorSet, totalStake, sortByEndTime, activeAt, delegationFits, stakeProportions, totalStakeBySubnet,
+} from 'src/apis/platform/validatorset';
+
+describe('ValidatorSet', () => {
+  const day:number = 24 * 60 * 60 * 1000;
+  const t0:number = Date.UTC(2020, 5, 1);
+  const at = (days:number):Date => new Date(t0 + days * day);
+  const make = (nodeID:string, start:number, end:number, stake:number):Validator => new Validator(nodeID, at(start), at(end), new BN(stake));
+
+  // node1 and node2 validate now, node3 is pending, node1 has renewed its stake with a pending validator
+  const current:Array<Validator> = [
+    make('node1', -10, 20, 6000),
+    make('node2', -5, 10, 2000),
+  ];
+  const pending:Array<Validator> = [
+    make('node3', 5, 40, 2000),
+    make('node1', 20, 60, 4000),
+  ];
+  const set:ValidatorSet = new ValidatorSet(undefined, current, pending);
+  const nodes = (validators:Array<Validator>):Array<string> => validators.map((v) => `${v.getNodeID()}@${(v.getEndTime().getTime() - t0) / day}`);
+
+  test('totalStake', () => {
+    expect(totalStake([]).toNumber()).toBe(0);
+    expect(totalStake(current).toNumber()).toBe(8000);
+    expect(totalStake(current.concat(pending)).toNumber()).toBe(14000);
+  });
+
+  test('sortByEndTime', () => {
+    const tied:Array<Validator> = [make('nodeB', 0, 10, 1), make('nodeA', 0, 10, 1)];
+    expect(nodes(sortByEndTime(pending.concat(current)))).toStrictEqual(['node2@10', 'node1@20', 'node3@40', 'node1@60']);
+    expect(nodes(sortByEndTime(tied))).toStrictEqual(['nodeA@10', 'nodeB@10']);
+    expect(nodes(tied)).toStrictEqual(['nodeB@10', 'nodeA@10']);
+  });
+
+  test('activeAt', () => {
+    const all:Array<Validator> = current.concat(pending);
+    expect(nodes(activeAt(all, at(0)))).toStrictEqual(['node1@20', 'node2@10']);
+    expect(nodes(activeAt(all, at(10)))).toStrictEqual(['node1@20', 'node3@40']);
+    expect(nodes(activeAt(all, at(20)))).toStrictEqual(['node3@40', 'node1@60']);
+    expect(activeAt(all, at(60))).toStrictEqual([]);
+  });
+
+  test('delegationFits', () => {
+    const validator:Validator = current[0];
+    expect(delegationFits(validator, at(-10), at(20))).toBe(true);
+    expect(delegationFits(validator, at(0), at(5))).toBe(true);
+    expect(delegationFits(validator, at(-11), at(5))).toBe(false);
+    expect(delegationFits(validator, at(0), at(21))).toBe(false);
+    expect(delegationFits(validator, at(5), at(5))).toBe(false);
+    expect(delegationFits(validator, at(5), at(0))).toBe(false);
+  });
+
+  test('stakeProportions', () => {
+    expect(stakeProportions(current)).toStrictEqual({ node1: 0.75, node2: 0.25 });
+    expect(stakeProportions(current.concat(pending))).toStrictEqual({ node1: 0.714285714, node2: 0.142857142, node3: 0.142857142 });
+    expect(stakeProportions([make('node1', 0, 1, 0)])).toStrictEqual({ node1: 0 });
+    const big:Array<Validator> = [
+      new Validator('node1', at(0), at(1), new BN('100000000000000000000', 10)),
+      new Validator('node2', at(0), at(1), new BN('300000000000000000000', 10)),
+    ];
+    expect(stakeProportions(big)).toStrictEqual({ node1: 0.25, node2: 0.75 });
+  });
+
+  test('ValidatorSet', () => {
+    expect(set.getSubnetID()).toBe(PlatformConstants.DEFAULTSUBNETID);
+    expect(set.getCurrentValidators()).toBe(current);
+    expect(set.getPendingValidators()).toBe(pending);
+    expect(nodes(set.getValidators())).toStrictEqual(['node1@20', 'node2@10', 'node3@40', 'node1@60']);
+    expect(nodes(set.getValidators(at(10)))).toStrictEqual(['node1@20', 'node3@40']);
+    expect(set.getTotalStake().toNumber()).toBe(8000);
+    expect(set.getTotalStake(at(30)).toNumber()).toBe(6000);
+    expect(set.getStakeProportions()).toStrictEqual({ node1: 0.75, node2: 0.25 });
+    expect(set.getStakeProportions(at(10))).toStrictEqual({ node1: 0.75, node3: 0.25 });
+    expect(nodes(set.sortByEndTime())).toStrictEqual(['node2@10', 'node1@20', 'node3@40', 'node1@60']);
+    expect(nodes(set.getValidatorsOf('node1'))).toStrictEqual(['node1@20', 'node1@60']);
+  });
+
+  test('canDelegate', () => {
+    expect(set.canDelegate('node1', at(0), at(20))).toBe(true);
+    expect(set.canDelegate('node1', at(25), at(60))).toBe(true);
+    // a delegation may not span two validation periods of the same node
+    expect(set.canDelegate('node1', at(15), at(25))).toBe(false);
+    expect(set.canDelegate('node3', at(0), at(10))).toBe(false);
+    expect(set.canDelegate('node4', at(0), at(1))).toBe(false);
+  });
+
+  test('totalStakeBySubnet', () => {
+    const subnet:ValidatorSet = new ValidatorSet('subnetID', [make('node1', -10, 20, 1), make('node3', -1, 1, 2)]);
+    const totals:{[subnetID:string]:BN} = totalStakeBySubnet([set, subnet]);
+    expect(Object.keys(totals)).toStrictEqual([PlatformConstants.DEFAULTSUBNETID, 'subnetID']);
+    expect(totals[PlatformConstants.DEFAULTSUBNETID].toNumber()).toBe(8000);
+    expect(totals.subnetID.toNumber()).toBe(3);
+    const projected:{[subnetID:string]:BN} = totalStakeBySubnet([set, subnet], at(30));
+    expect(projected[PlatformConstants.DEFAULTSUBNETID].toNumber()).toBe(6000);
+    expect(projected.subnetID.toNumber()).toBe(0);
+  });
+});
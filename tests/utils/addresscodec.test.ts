@@ -0,0 +1,56 @@
+import { Buffer } from 'buffer/';
+import { AddressCodec, Base58AddressCodec, Bech32AddressCodec } from 'src/utils/addresscodec';
+import { Defaults } from 'src/utils/types';
+
+describe('AddressCodec', () => {
+  const addr:Buffer = Buffer.from('3cb7d3842e8cee6a0ebd09f1fe884f6861e1b29c', 'hex');
+
+  test('Base58AddressCodec', () => {
+    const codec:Base58AddressCodec = new Base58AddressCodec();
+    const str:string = codec.encode('X', addr);
+    expect(codec.decode(str, ['X']).toString('hex')).toBe(addr.toString('hex'));
+    expect(codec.decode(str, [undefined, 'X'], 0).toString('hex')).toBe(addr.toString('hex'));
+    expect(codec.decode(`P-${str.split('-')[1]}`, undefined).toString('hex')).toBe(addr.toString('hex'));
+    expect(() => {
+      codec.decode(`P-${str.split('-')[1]}`, ['X']);
+    }).toThrow('Error - AddressCodec.decode: wrong chain id P, expected X');
+    expect(() => {
+      codec.decode(str.split('-')[1], ['X']);
+    }).toThrow('Error - AddressCodec.decode: expected "chainid-address"');
+    expect(() => {
+      codec.decode('X-0OIl', ['X']);
+    }).toThrow('Error - Base58AddressCodec.decodeBody: invalid base58 character');
+    expect(() => {
+      codec.decode(str, ['X'], 32);
+    }).toThrow('Error - AddressCodec.decode: wrong address length 20, expected 32');
+  });
+
+  test('Bech32AddressCodec', () => {
+    const codec:Bech32AddressCodec = new Bech32AddressCodec('DENALI');
+    expect(codec.getHRP()).toBe('denali');
+    expect(codec.encode('X', addr)).toBe('X-denali18jma8ppw3nhx5r4ap8clazz0dps7rv5utkgqyt');
+    expect(codec.decode('X-DENALI18JMA8PPW3NHX5R4AP8CLAZZ0DPS7RV5UTKGQYT', ['X']).toString('hex')).toBe(addr.toString('hex'));
+  });
+
+  test('Bech32AddressCodec.forNetwork', () => {
+    expect(Bech32AddressCodec.forNetwork(1).getHRP()).toBe('avax');
+    expect(Bech32AddressCodec.forNetwork(3).getHRP()).toBe('denali');
+    expect(Bech32AddressCodec.forNetwork(12345).getHRP()).toBe('local');
+    expect(Bech32AddressCodec.forNetwork(4242).getHRP()).toBe(Defaults.fallbackHRP);
+  });
+
+  test('custom codecs', () => {
+    class HexAddressCodec extends AddressCodec {
+      encodeBody(address:Buffer):string {
+        return address.toString('hex');
+      }
+
+      decodeBody(body:string):Buffer {
+        return Buffer.from(body, 'hex');
+      }
+    }
+    const codec:HexAddressCodec = new HexAddressCodec();
+    expect(codec.encode('X', addr)).toBe(`X-${addr.toString('hex')}`);
+    expect(codec.decode(`X-${addr.toString('hex')}`, ['X']).toString('hex')).toBe(addr.toString('hex'));
+  });
+});
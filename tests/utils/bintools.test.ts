@@ -1,4 +1,4 @@
-import BinTools from 'src/utils/bintools';
+import BinTools, { Bech32 } from 'src/utils/bintools';
 import BN from 'bn.js';
 import { Buffer } from 'buffer/';
 
@@ -159,4 +159,97 @@ describe('BinTools', () => {
       bintools.avaDeserialize(serbufffaulty);
     }).toThrow('Error - BinTools.avaDeserialize: invalid checksum');
   });
+
+  test('hmacSHA512', () => {
+    // RFC 4231 test cases 2 and 6
+    const mac1:Buffer = bintools.hmacSHA512(Buffer.from('Jefe', 'utf8'), Buffer.from('what do ya want for nothing?', 'utf8'));
+    expect(mac1.toString('hex')).toBe('164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737');
+    const mac2:Buffer = bintools.hmacSHA512(Buffer.alloc(131, 0xaa), Buffer.from('Test Using Larger Than Block-Size Key - Hash Key First', 'utf8'));
+    expect(mac2.toString('hex')).toBe('80b24263c7c1a3ebb71493c1dd7be8b49b46d1f41b4aeec1121b013783f8f3526b56d037e05f2598bd0fd2215d6a1e5295e64f73f63f0aec8b915a985d786598');
+  });
+
+  test('bufferToBech32 and bech32ToBuffer', () => {
+    const addr:Buffer = Buffer.from('3cb7d3842e8cee6a0ebd09f1fe884f6861e1b29c', 'hex');
+    const str:string = 'denali18jma8ppw3nhx5r4ap8clazz0dps7rv5utkgqyt';
+    expect(bintools.bufferToBech32('denali', addr)).toBe(str);
+    expect(bintools.bufferToBech32('avax', Buffer.from(Array.from(Array(20).keys())))).toBe('avax1qqqsyqcyq5rqwzqfpg9scrgwpugpzysnk5ungy');
+    expect(bintools.bech32ToBuffer(str).toString('hex')).toBe(addr.toString('hex'));
+    expect(bintools.bech32ToBuffer(str.toUpperCase(), 'denali').toString('hex')).toBe(addr.toString('hex'));
+    expect(bintools.bech32ToBuffer('local1jf8h34', 'local').length).toBe(0);
+    expect(() => {
+      bintools.bech32ToBuffer(str, 'avax');
+    }).toThrow('Error - BinTools.bech32ToBuffer: wrong human-readable part denali, expected avax');
+    expect(() => {
+      bintools.bech32ToBuffer(`${str.slice(0, -1)}q`);
+    }).toThrow('Error - Bech32.decodeWords: invalid checksum');
+  });
+
+  test('addressToString, stringToAddress and parseAddress with bech32', () => {
+    const addr:Buffer = Buffer.from('3cb7d3842e8cee6a0ebd09f1fe884f6861e1b29c', 'hex');
+    const str:string = bintools.addressToString('X', addr, 'denali');
+    expect(str).toBe('X-denali18jma8ppw3nhx5r4ap8clazz0dps7rv5utkgqyt');
+    expect(bintools.stringToAddress(str, 'denali').toString('hex')).toBe(addr.toString('hex'));
+    expect(bintools.parseAddress(str, 'someid', 'X', 20, 'denali').toString('hex')).toBe(addr.toString('hex'));
+    expect(bintools.parseAddress(str, 'someid', 'X', 32, 'denali')).toBeUndefined();
+    expect(bintools.parseAddress(str, 'someid', 'P', 20, 'denali')).toBeUndefined();
+    expect(bintools.stringToAddress(bintools.addressToString('X', addr)).toString('hex')).toBe(addr.toString('hex'));
+  });
+});
+
+describe('Bech32', () => {
+  const b32:Bech32 = new Bech32();
+
+  // test vectors from BIP173
+  test('valid checksums', () => {
+    const valid:Array<string> = [
+      'A12UEL5L',
+      'a12uel5l',
+      'an83characterlonghumanreadablepartthatcontainsthenumber1andtheexcludedcharactersbio1tt5tgs',
+      'abcdef1qpzry9x8gf2tvdw0s3jn54khce6mua7lmqqqxw',
+      `11${'q'.repeat(82)}c8247j`,
+      'split1checkupstagehandshakeupstreamerranterredcaperred2y9e3w',
+      '?1ezyfcl',
+    ];
+    valid.forEach((str) => {
+      const { hrp, words } = b32.decodeWords(str);
+      expect(b32.encodeWords(hrp, words)).toBe(str.toLowerCase());
+    });
+    expect(b32.decodeWords('abcdef1qpzry9x8gf2tvdw0s3jn54khce6mua7lmqqqxw').words).toStrictEqual(Array.from(Array(32).keys()));
+  });
+
+  test('invalid strings', () => {
+    const invalid:Array<[string, string]> = [
+      [`${String.fromCharCode(0x20)}1nwldj5`, 'invalid character in human-readable part'],
+      [`${String.fromCharCode(0x7f)}1axkwrx`, 'invalid character in human-readable part'],
+      [`${String.fromCharCode(0x80)}1eym55h`, 'invalid character in human-readable part'],
+      ['an84characterslonghumanreadablepartthatcontainsthenumber1andtheexcludedcharactersbio1569pvx', 'string exceeds 90 characters'],
+      ['pzry9x0s0muk', 'missing separator or human-readable part'],
+      ['1pzry9x0s0muk', 'missing separator or human-readable part'],
+      ['x1b4n0q5v', 'invalid character in data'],
+      ['li1dgmt3', 'data too short'],
+      [`de1lg7wt${String.fromCharCode(0xff)}`, 'invalid character in data'],
+      ['A1G7SGD8', 'invalid checksum'],
+      ['10a06t8', 'missing separator or human-readable part'],
+      ['1qzzfhee', 'missing separator or human-readable part'],
+      ['a12UEL5L', 'mixed case'],
+    ];
+    invalid.forEach(([str, reason]) => {
+      expect(() => {
+        b32.decodeWords(str);
+      }).toThrow(`Error - Bech32.decodeWords: ${reason}`);
+    });
+  });
+
+  test('toWords and fromWords', () => {
+    const buff:Buffer = Buffer.from('00ff7f80', 'hex');
+    const words:Array<number> = b32.toWords(buff);
+    expect(words.length).toBe(7);
+    expect(b32.fromWords(words).toString('hex')).toBe('00ff7f80');
+    expect(() => {
+      b32.fromWords(words.slice(0, 6).concat([1]));
+    }).toThrow('Error - Bech32.fromWords: invalid padding');
+    expect(() => {
+      b32.fromWords([0]);
+    }).toThrow('Error - Bech32.fromWords: invalid padding');
+  });
 });
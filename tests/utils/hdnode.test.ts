@@ -0,0 +1,51 @@
+import HDNode from 'src/utils/hdnode';
+import { Buffer } from 'buffer/';
+
+describe('HDNode', () => {
+  // BIP32 test vector 1
+  const seed:Buffer = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+  test('fromSeed', () => {
+    const master:HDNode = HDNode.fromSeed(seed);
+    expect(master.getPrivateKey().toString('hex')).toBe('e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35');
+    expect(master.getChainCode().toString('hex')).toBe('873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508');
+    expect(master.getPublicKey().toString('hex')).toBe('0339a36013301597daef41fbe593a02cc513d0b55527ec2df1050e2e8ff49c85c2');
+    expect(master.getDepth()).toBe(0);
+    expect(() => {
+      HDNode.fromSeed(Buffer.alloc(8));
+    }).toThrow('Error - HDNode.fromSeed: seed must be 16 to 64 bytes');
+  });
+
+  test('derivePath', () => {
+    const master:HDNode = HDNode.fromSeed(seed);
+    const hardened:HDNode = master.derivePath("m/0'");
+    expect(hardened.getPrivateKey().toString('hex')).toBe('edb2e14f9ee77d26dd93b4ecede8d16ed408ce149b6cd80b0715a2d911a0afea');
+    expect(hardened.getChainCode().toString('hex')).toBe('47fdacbd0f1097043b78c63c20c34ef4ed9a111d980047ad16282c7ae6236141');
+    expect(hardened.getIndex()).toBe(HDNode.HARDENED);
+
+    const normal:HDNode = master.derivePath("m/0h/1");
+    expect(normal.getPrivateKey().toString('hex')).toBe('3c6cb8d0f6a264c91ea8b5030fadaa8e538b020f0a387421a12de9319dc93368');
+    expect(normal.getChainCode().toString('hex')).toBe('2a7857631386ba23dacac34180dd1983734e444fdbf774041578e9b6adb37c19');
+    expect(normal.getDepth()).toBe(2);
+    expect(normal.getIndex()).toBe(1);
+
+    expect(hardened.deriveChild(1).getPrivateKey().toString('hex')).toBe(normal.getPrivateKey().toString('hex'));
+    expect(master.derivePath('m').getPrivateKey().toString('hex')).toBe(master.getPrivateKey().toString('hex'));
+  });
+
+  test('invalid paths', () => {
+    const master:HDNode = HDNode.fromSeed(seed);
+    expect(() => {
+      master.derivePath("0'/1");
+    }).toThrow('Error - HDNode.derivePath: path must start with "m"');
+    expect(() => {
+      master.derivePath("m/0'/x");
+    }).toThrow("Error - HDNode.derivePath: invalid path segment x in m/0'/x");
+    expect(() => {
+      master.derivePath('m/2147483648');
+    }).toThrow('Error - HDNode.derivePath: invalid path segment 2147483648');
+    expect(() => {
+      master.deriveChild(-1);
+    }).toThrow('Error - HDNode.deriveChild: invalid index -1');
+  });
+});
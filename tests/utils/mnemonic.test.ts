@@ -0,0 +1,73 @@
+import Mnemonic from 'src/utils/mnemonic';
+import { Buffer } from 'buffer/';
+
+const mnemonic = Mnemonic.getInstance();
+
+describe('Mnemonic', () => {
+  // BIP39 test vectors from https://github.com/trezor/python-mnemonic/blob/master/vectors.json
+  const vectors:Array<[string, string]> = [
+    ['00000000000000000000000000000000', 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'],
+    ['7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f', 'legal winner thank year wave sausage worth useful legal winner thank yellow'],
+    ['80808080808080808080808080808080', 'letter advice cage absurd amount doctor acoustic avoid letter advice cage above'],
+    ['ffffffffffffffffffffffffffffffff', 'zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong'],
+    ['9e885d952ad362caeb4efe34a8e91bd2', 'ozone drill grab fiber curtain grace pudding thank cruise elder eight picnic'],
+    ['c0ba5a8e914111210f2bd131f3d5e08d', 'scheme spot photo card baby mountain device kick cradle pact join borrow'],
+    ['f585c11aec520db57dd353c69554b21a89b20fb0650966fa0a9d6f74fd989d8f',
+      'void come effort suffer camp survey warrior heavy shoot primary clutch crush open amazing screen patrol group space point ten exist slush involve unfold'],
+  ];
+
+  test('instantiate singleton', () => {
+    expect(Mnemonic.getInstance()).toBe(mnemonic);
+    const wordlist:Array<string> = mnemonic.getWordlist();
+    expect(wordlist.length).toBe(2048);
+    expect(wordlist[0]).toBe('abandon');
+    expect(wordlist[2047]).toBe('zoo');
+  });
+
+  test('entropyToMnemonic and mnemonicToEntropy', () => {
+    for (let i:number = 0; i < vectors.length; i++) {
+      const [entropy, phrase] = vectors[i];
+      expect(mnemonic.entropyToMnemonic(Buffer.from(entropy, 'hex'))).toBe(phrase);
+      expect(mnemonic.mnemonicToEntropy(phrase).toString('hex')).toBe(entropy);
+      expect(mnemonic.validateMnemonic(phrase)).toBe(true);
+    }
+    expect(() => {
+      mnemonic.entropyToMnemonic(Buffer.alloc(15));
+    }).toThrow('Error - Mnemonic.entropyToMnemonic: entropy must be 16 to 32 bytes in multiples of 4');
+  });
+
+  test('validateMnemonic', () => {
+    expect(mnemonic.validateMnemonic(`  ${vectors[0][1]}\n`)).toBe(true);
+    // the checksum of "abandon ×12" does not match
+    expect(mnemonic.validateMnemonic(vectors[0][1].replace('about', 'abandon'))).toBe(false);
+    expect(mnemonic.validateMnemonic(vectors[0][1].replace('about', 'avalanche'))).toBe(false);
+    expect(mnemonic.validateMnemonic('abandon abandon about')).toBe(false);
+    expect(() => {
+      mnemonic.mnemonicToEntropy(vectors[0][1].replace('about', 'abandon'));
+    }).toThrow('Error - Mnemonic.mnemonicToEntropy: invalid checksum');
+    expect(() => {
+      mnemonic.mnemonicToEntropy(vectors[0][1].replace('about', 'avalanche'));
+    }).toThrow('Error - Mnemonic.mnemonicToEntropy: unknown word avalanche');
+  });
+
+  test('generateMnemonic', () => {
+    const phrase:string = mnemonic.generateMnemonic();
+    expect(phrase.split(' ').length).toBe(24);
+    expect(mnemonic.validateMnemonic(phrase)).toBe(true);
+    expect(mnemonic.generateMnemonic(128).split(' ').length).toBe(12);
+    expect(mnemonic.mnemonicToEntropy(mnemonic.generateMnemonic(160)).length).toBe(20);
+    expect(mnemonic.generateMnemonic()).not.toBe(phrase);
+    expect(() => {
+      mnemonic.generateMnemonic(100);
+    }).toThrow('Error - Mnemonic.generateMnemonic: strength must be 128 to 256 bits in multiples of 32');
+  });
+
+  test('mnemonicToSeed', () => {
+    expect(mnemonic.mnemonicToSeed(vectors[0][1], 'TREZOR').toString('hex'))
+      .toBe('c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04');
+    expect(mnemonic.mnemonicToSeed(vectors[1][1], 'TREZOR').toString('hex'))
+      .toBe('2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607');
+    expect(mnemonic.mnemonicToSeed(vectors[0][1]).toString('hex'))
+      .not.toBe(mnemonic.mnemonicToSeed(vectors[0][1], 'TREZOR').toString('hex'));
+  });
+});
@@ -0,0 +1,39 @@
+import BN from 'bn.js';
+import { ResponseParser } from 'src/utils/responses';
+
+describe('ResponseParser', () => {
+  const parser:ResponseParser = new ResponseParser('TestAPI.method');
+
+  test('getCaller', () => {
+    expect(parser.getCaller()).toBe('TestAPI.method');
+  });
+
+  test('object and array', () => {
+    const obj:object = { a: 1 };
+    expect(parser.object(obj, 'result')).toBe(obj);
+    expect(() => parser.object(null, 'result')).toThrow('Error - TestAPI.method: invalid response, result must be an object');
+    expect(() => parser.object([], 'result')).toThrow('Error - TestAPI.method: invalid response, result must be an object');
+    expect(parser.array([{ n: '1' }, { n: 2 }], 'result.list', (elem:any, path:string) => parser.getNumber(elem, 'n', path))).toStrictEqual([1, 2]);
+    expect(() => parser.array({}, 'result.list', (elem:any) => elem)).toThrow('Error - TestAPI.method: invalid response, result.list must be an array');
+    expect(() => parser.array([{ n: 'x' }], 'result.list', (elem:any, path:string) => parser.getNumber(elem, 'n', path)))
+      .toThrow('Error - TestAPI.method: invalid response, result.list[0].n must be a non-negative integer');
+  });
+
+  test('strings', () => {
+    expect(parser.getString({ s: 'abc' }, 's')).toBe('abc');
+    expect(() => parser.getString({}, 's', 'result')).toThrow('Error - TestAPI.method: invalid response, result.s must be a string');
+    expect(parser.getStrings({ s: ['a', 'b'] }, 's')).toStrictEqual(['a', 'b']);
+    expect(() => parser.getStrings({ s: ['a', 1] }, 's')).toThrow('Error - TestAPI.method: invalid response, s[1] must be a string');
+  });
+
+  test('numbers, BNs and dates', () => {
+    expect(parser.getBN({ b: '18446744073709551615' }, 'b').eq(new BN('ffffffffffffffff', 16))).toBe(true);
+    expect(parser.getBN({ b: 7 }, 'b').toNumber()).toBe(7);
+    ['-1', '1.5', '', '0x10', -1, 1.5, null].forEach((b) => {
+      expect(() => parser.getBN({ b }, 'b')).toThrow('Error - TestAPI.method: invalid response, b must be a non-negative integer');
+    });
+    expect(parser.getNumber({ n: '12345' }, 'n')).toBe(12345);
+    expect(() => parser.getNumber({ n: '18446744073709551615' }, 'n')).toThrow('Error - TestAPI.method: invalid response, n is too large');
+    expect(parser.getDate({ d: '1591878109' }, 'd').toISOString()).toBe('2020-06-11T12:21:49.000Z');
+  });
+});